@@ -0,0 +1,43 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface Attachment {
+  /** Absolute path of the file on disk. */
+  path: string;
+  /** File name as shown in the composer. */
+  name: string;
+  bytes: number;
+}
+
+/**
+ * Resolves `--attach` paths against `cwd` and checks that each one is a
+ * readable regular file, so a typo fails before the browser is launched.
+ */
+export function resolveAttachments(paths: string[], cwd: string = process.cwd()): Attachment[] {
+  const seen = new Set<string>();
+  const attachments: Attachment[] = [];
+
+  for (const input of paths) {
+    const absolutePath = path.resolve(cwd, input);
+    if (seen.has(absolutePath)) continue;
+    seen.add(absolutePath);
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(absolutePath);
+      fs.accessSync(absolutePath, fs.constants.R_OK);
+    } catch (error) {
+      throw new Error(`Cannot attach ${input}: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!stats.isFile()) {
+      throw new Error(`Cannot attach ${input}: not a regular file`);
+    }
+    if (stats.size === 0) {
+      throw new Error(`Cannot attach ${input}: file is empty`);
+    }
+
+    attachments.push({ path: absolutePath, name: path.basename(absolutePath), bytes: stats.size });
+  }
+
+  return attachments;
+}
@@ -0,0 +1,195 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  readCredentialConfig,
+  writeCredentialConfig,
+  CREDENTIAL_PROVIDER_TYPES,
+  type CredentialProviderConfig,
+} from './credentials.js';
+import { readOtpConfig, writeOtpConfig, OTP_SOURCE_TYPES, type OtpSourceConfig } from './otp.js';
+import { getProfileDir } from './paths.js';
+import { profileExists, readAccountInfo, writeAccountInfo } from './profiles.js';
+import {
+  decryptJson,
+  encryptJson,
+  loadBrowserState,
+  readEncryptionConfig,
+  saveBrowserState,
+  writeEncryptionConfig,
+  writePrivateFile,
+  STATE_KEY_SOURCES,
+  type EncryptedPayload,
+  type StateAccessOptions,
+  type StateKeySource,
+  type StorageState,
+} from './state.js';
+
+const BUNDLE_FORMAT = 'gpt5-profile';
+const BUNDLE_VERSION = 1;
+
+export interface ProfileBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: typeof BUNDLE_VERSION;
+  profile: string;
+  exportedAt: string;
+  account: string | null;
+  state: StorageState;
+  credentials: CredentialProviderConfig | null;
+  otp: OtpSourceConfig | null;
+  encryption: StateKeySource | null;
+}
+
+/** On-disk form: the bundle itself, or the bundle encrypted with a passphrase. */
+type BundleFile =
+  | ProfileBundle
+  | { format: typeof BUNDLE_FORMAT; version: typeof BUNDLE_VERSION; encrypted: EncryptedPayload };
+
+/**
+ * Collects a profile's session, login settings and account metadata. History
+ * and cache stay behind. The session is decrypted, so the result is as
+ * sensitive as the login itself.
+ */
+export async function createProfileBundle(profile: string, options: StateAccessOptions = {}): Promise<ProfileBundle> {
+  const stateDir = getProfileDir(profile);
+  if (!profileExists(profile)) {
+    throw new Error(`Profile "${profile}" does not exist`);
+  }
+
+  const state = await loadBrowserState(stateDir, options);
+  if (!state) {
+    throw new Error(`Profile "${profile}" has no saved session; run: gpt5 login --profile ${profile}`);
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    profile,
+    exportedAt: new Date().toISOString(),
+    account: readAccountInfo(stateDir)?.email ?? null,
+    state,
+    credentials: readCredentialConfig(stateDir),
+    otp: readOtpConfig(stateDir),
+    encryption: readEncryptionConfig(stateDir),
+  };
+}
+
+/** Writes the bundle readable only by the owner, encrypted when a passphrase is given. */
+export function writeProfileBundle(file: string, bundle: ProfileBundle, passphrase?: string): void {
+  const contents: BundleFile = passphrase
+    ? { format: BUNDLE_FORMAT, version: BUNDLE_VERSION, encrypted: encryptJson(bundle, passphrase) }
+    : bundle;
+  writePrivateFile(file, JSON.stringify(contents, null, 2));
+}
+
+export function isBundleEncrypted(file: string): boolean {
+  return 'encrypted' in parseBundleFile(file);
+}
+
+/** Reads and validates a bundle; `passphrase` is required for encrypted ones. */
+export function readProfileBundle(file: string, passphrase?: string): ProfileBundle {
+  const contents = parseBundleFile(file);
+  if (!('encrypted' in contents)) {
+    return validateBundle(contents, file);
+  }
+  if (!passphrase) {
+    throw new Error(`${file} is encrypted; a passphrase is needed`);
+  }
+  return validateBundle(decryptJson<ProfileBundle>(contents.encrypted, passphrase), file);
+}
+
+/** Shell commands the bundle's credential and OTP settings would run at login. */
+export function getBundleCommands(bundle: ProfileBundle): string[] {
+  return [bundle.credentials, bundle.otp].flatMap((config) => (config?.type === 'command' ? [config.command] : []));
+}
+
+/**
+ * Creates the profile from a bundle. Refuses to touch an existing profile
+ * unless `overwrite` is set; its history, cache and any settings the bundle
+ * does not carry are then kept. When the bundle carries an encryption config,
+ * the session is encrypted again with that profile's key on this machine.
+ *
+ * Credential or OTP settings that run shell commands are refused unless
+ * `allowCommands` is set, since whoever wrote the bundle chose them. The
+ * profile is assembled in a scratch directory next to it and only moved into
+ * place once every file has been written, so a failed import changes nothing.
+ */
+export async function importProfileBundle(
+  bundle: ProfileBundle,
+  name: string = bundle.profile,
+  options: StateAccessOptions & { overwrite?: boolean; allowCommands?: boolean } = {}
+): Promise<string> {
+  const stateDir = getProfileDir(name);
+  const exists = profileExists(name);
+  if (exists && !options.overwrite) {
+    throw new Error(`Profile "${name}" already exists; pass --force to import over it`);
+  }
+  const commands = getBundleCommands(bundle);
+  if (commands.length > 0 && !options.allowCommands) {
+    throw new Error(
+      `The bundle runs shell commands at login (${commands.join('; ')}); pass --allow-commands to import it anyway`
+    );
+  }
+
+  fs.mkdirSync(path.dirname(stateDir), { recursive: true, mode: 0o700 });
+  const scratch = fs.mkdtempSync(path.join(path.dirname(stateDir), '.import-'));
+  // Same base name as the profile, so passphrase prompts name the right one.
+  const staged = path.join(scratch, name);
+  try {
+    if (exists) {
+      // A running daemon's socket cannot be copied; it is recreated on start.
+      fs.cpSync(stateDir, staged, { recursive: true, filter: (source) => !fs.lstatSync(source).isSocket() });
+    } else {
+      fs.mkdirSync(staged, { mode: 0o700 });
+    }
+    if (bundle.credentials) writeCredentialConfig(staged, bundle.credentials);
+    if (bundle.otp) writeOtpConfig(staged, bundle.otp);
+    writeEncryptionConfig(staged, bundle.encryption);
+    if (bundle.account) writeAccountInfo(staged, bundle.account);
+    await saveBrowserState(staged, bundle.state, options);
+
+    if (exists) {
+      fs.renameSync(stateDir, path.join(scratch, 'previous'));
+    }
+    fs.renameSync(staged, stateDir);
+  } finally {
+    fs.rmSync(scratch, { recursive: true, force: true });
+  }
+  return stateDir;
+}
+
+function parseBundleFile(file: string): BundleFile {
+  let contents: BundleFile;
+  try {
+    contents = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read profile bundle ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (contents?.format !== BUNDLE_FORMAT) {
+    throw new Error(`${file} is not a gpt5 profile bundle`);
+  }
+  if (contents.version !== BUNDLE_VERSION) {
+    throw new Error(`${file} has unsupported bundle version ${contents.version} (expected ${BUNDLE_VERSION})`);
+  }
+  return contents;
+}
+
+function validateBundle(bundle: ProfileBundle, file: string): ProfileBundle {
+  const problems: string[] = [];
+  if (typeof bundle.profile !== 'string' || !bundle.profile) problems.push('missing profile name');
+  if (!bundle.state || !Array.isArray(bundle.state.cookies) || !Array.isArray(bundle.state.origins)) {
+    problems.push('storage state has no cookies/origins');
+  }
+  if (bundle.credentials && !(CREDENTIAL_PROVIDER_TYPES as readonly string[]).includes(bundle.credentials.type)) {
+    problems.push(`unknown credential provider "${bundle.credentials.type}"`);
+  }
+  if (bundle.otp && !(OTP_SOURCE_TYPES as readonly string[]).includes(bundle.otp.type)) {
+    problems.push(`unknown OTP source "${bundle.otp.type}"`);
+  }
+  if (bundle.encryption && !(STATE_KEY_SOURCES as readonly string[]).includes(bundle.encryption.source)) {
+    problems.push(`unknown key source "${bundle.encryption.source}"`);
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid profile bundle ${file}: ${problems.join('; ')}`);
+  }
+  return bundle;
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { QueryResult } from './chatgpt.js';
+import { writePrivateFile } from './state.js';
+
+const CACHE_DIR = 'cache';
+const CACHE_VERSION = 1;
+const KEY_PATTERN = /^[0-9a-f]{64}$/;
+
+export const DEFAULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * `use` answers from the cache when possible, `refresh` always asks but
+ * stores the new answer, `read` answers from the cache but stores nothing
+ * new, `off` neither reads nor writes.
+ */
+export type CacheMode = 'use' | 'refresh' | 'read' | 'off';
+
+export function readsCache(mode: CacheMode): boolean {
+  return mode === 'use' || mode === 'read';
+}
+
+export function writesCache(mode: CacheMode): boolean {
+  return mode === 'use' || mode === 'refresh';
+}
+
+export interface CacheKeyInput {
+  prompt: string;
+  /** Resolved model definition key. */
+  model: string;
+  /** Absolute paths of attached files; their contents are part of the key. */
+  attachments?: string[];
+}
+
+export interface CacheEntry {
+  version: number;
+  key: string;
+  createdAt: string;
+  model: string;
+  prompt: string;
+  attachments: Array<{ name: string; sha256: string }>;
+  result: QueryResult;
+}
+
+export function getCacheDir(stateDir: string): string {
+  return path.join(stateDir, CACHE_DIR);
+}
+
+/** Line endings, trailing whitespace and surrounding blank lines do not change the key. */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+export function hashFile(filePath: string): string {
+  return createHash('sha256').update(fs.readFileSync(filePath)).digest('hex');
+}
+
+export function computeCacheKey(input: CacheKeyInput): { key: string; attachments: CacheEntry['attachments'] } {
+  const attachments = (input.attachments ?? []).map((file) => ({ name: path.basename(file), sha256: hashFile(file) }));
+  const key = createHash('sha256')
+    .update(
+      JSON.stringify({
+        version: CACHE_VERSION,
+        prompt: normalizePrompt(input.prompt),
+        model: input.model,
+        attachments: attachments.map((attachment) => attachment.sha256),
+      })
+    )
+    .digest('hex');
+  return { key, attachments };
+}
+
+export function isExpired(entry: CacheEntry, ttlMs: number, now: number = Date.now()): boolean {
+  return now - new Date(entry.createdAt).getTime() > ttlMs;
+}
+
+/** Returns the entry for `key` unless it is missing, unreadable or older than `ttlMs`. */
+export function readCacheEntry(stateDir: string, key: string, ttlMs: number): CacheEntry | null {
+  const entry = loadEntry(path.join(getCacheDir(stateDir), `${key}.json`));
+  if (!entry || isExpired(entry, ttlMs)) {
+    return null;
+  }
+  return entry;
+}
+
+/** Entries hold prompts and answers, so like the history they are readable only by the owner. */
+export function writeCacheEntry(stateDir: string, entry: Omit<CacheEntry, 'version'>): void {
+  const dir = getCacheDir(stateDir);
+  fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+  writePrivateFile(path.join(dir, `${entry.key}.json`), JSON.stringify({ version: CACHE_VERSION, ...entry }, null, 2));
+}
+
+/** All readable entries, newest first. */
+export function listCacheEntries(stateDir: string): CacheEntry[] {
+  const dir = getCacheDir(stateDir);
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(dir)
+    .filter((file) => KEY_PATTERN.test(path.basename(file, '.json')) && file.endsWith('.json'))
+    .map((file) => loadEntry(path.join(dir, file)))
+    .filter((entry): entry is CacheEntry => entry !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Looks an entry up by its key or an unambiguous key prefix. */
+export function findCacheEntry(stateDir: string, keyPrefix: string): CacheEntry {
+  const prefix = keyPrefix.trim().toLowerCase();
+  if (!/^[0-9a-f]{4,64}$/.test(prefix)) {
+    throw new Error(`Not a cache key: ${keyPrefix} (use at least 4 hex characters)`);
+  }
+
+  const matches = listCacheEntries(stateDir).filter((entry) => entry.key.startsWith(prefix));
+  if (matches.length === 0) {
+    throw new Error(`No cache entry matches ${keyPrefix}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Cache key prefix ${keyPrefix} is ambiguous (${matches.length} entries)`);
+  }
+  return matches[0];
+}
+
+/** Removes all entries, or only the expired ones when `ttlMs` is given. Returns the number removed. */
+export function clearCache(stateDir: string, ttlMs?: number): number {
+  const dir = getCacheDir(stateDir);
+  if (!fs.existsSync(dir)) {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const file of fs.readdirSync(dir)) {
+    const filePath = path.join(dir, file);
+    if (ttlMs !== undefined) {
+      const entry = loadEntry(filePath);
+      if (entry && !isExpired(entry, ttlMs)) continue;
+    }
+    fs.rmSync(filePath, { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+/** Parses durations such as `90s`, `30m`, `12h`, `7d` or a number of milliseconds. */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)?$/i);
+  if (!match) {
+    throw new Error(`Invalid duration "${value}" (expected e.g. 30m, 12h, 7d)`);
+  }
+  const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000, w: 604_800_000 };
+  return Math.round(parseFloat(match[1]) * units[(match[2] ?? 'ms').toLowerCase()]);
+}
+
+function loadEntry(filePath: string): CacheEntry | null {
+  try {
+    const entry = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (entry?.version === CACHE_VERSION && typeof entry.key === 'string' && entry.result) {
+      return entry as CacheEntry;
+    }
+  } catch {
+    // Unreadable entries are treated as misses.
+  }
+  return null;
+}
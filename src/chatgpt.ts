@@ -1,5 +1,6 @@
 import type { Page, Browser, BrowserContext, Locator } from 'playwright';
-import { getCredentials } from './credentials.js';
+import { resolveCredentialProvider, type CredentialProvider } from './credentials.js';
+import { resolveOtpSource, type OtpSource } from './otp.js';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
@@ -7,11 +8,66 @@ import * as readline from 'readline';
 import { spawn } from 'child_process';
 import { createRequire } from 'module';
 import { countTokens } from './tokenizer.js';
+import { getProfileDir } from './paths.js';
+import { SESSION_COOKIE_NAMES, writeAccountInfo } from './profiles.js';
+import { AsyncLock, withFileLock } from './lock.js';
+import { getBrowserStatePath, loadBrowserState, saveBrowserState } from './state.js';
+import {
+  getModelsConfigPath,
+  loadModelRegistry,
+  matchesTurnSlug,
+  resolveModel,
+  type DiscoveredModelOption,
+  type ModelDefinition,
+  type ModelRegistry,
+} from './models.js';
+import { formatAckReminder, isPartAcknowledged, type SplitLimits, type SplitPlan } from './split.js';
+import {
+  cssSelector,
+  loadSelectorRegistry,
+  resolveSelector,
+  SELECTOR_NAMES,
+  type SelectorCheck,
+  type SelectorName,
+  type SelectorRegistry,
+} from './selectors.js';
+import { resolveAttachments, type Attachment } from './attachments.js';
+import {
+  DEFAULT_CACHE_TTL_MS,
+  computeCacheKey,
+  readCacheEntry,
+  readsCache,
+  writeCacheEntry,
+  writesCache,
+  type CacheMode,
+} from './cache.js';
+import { ChatGPTError, classifyError } from './errors.js';
+import { computeBackoff, sleep } from './retry.js';
+import {
+  CHATGPT_BASE_URL,
+  conversationFromUrl,
+  parseConversationRef,
+  writeLastConversation,
+  type ConversationRef,
+} from './conversation.js';
 
 const DEFAULT_MAX_PROMPT_CHARS = 765_000;
 const DEFAULT_MAX_PROMPT_TOKENS = 127_635;
 const COMPOSER_ERROR_PATTERN =
   /(message (?:is|was) too long|too long|token limit|max(?:imum)? length|character limit|submit something shorter)/i;
+const USAGE_CAP_PATTERN =
+  /(reached (?:our|the|your) (?:limit|usage cap)|usage (?:cap|limit)|hit (?:the|your) (?:limit|cap)|limit (?:resets|will reset))/i;
+const TRANSIENT_ERROR_PATTERN =
+  /(something went wrong|network error|error in (?:the )?message stream|an error occurred|conversation not found)/i;
+const ATTACHMENT_ERROR_PATTERN =
+  /(file type (?:is )?not supported|unsupported file|(?:file|upload) (?:is )?too (?:large|big)|exceeds the (?:maximum )?(?:file )?size|(?:unable|failed) to upload|upload failed|could not upload|too many files)/i;
+const COMPOSER_ALERT_PATTERN = new RegExp(
+  [ATTACHMENT_ERROR_PATTERN, COMPOSER_ERROR_PATTERN, USAGE_CAP_PATTERN, TRANSIENT_ERROR_PATTERN]
+    .map((pattern) => pattern.source)
+    .join('|'),
+  'i'
+);
+const ATTACHMENT_UPLOAD_TIMEOUT_MS = 120_000;
 
 export interface ChatGPTOptions {
   headless?: boolean;
@@ -22,22 +78,116 @@ export interface ChatGPTOptions {
   verbose?: boolean;
   maxPromptChars?: number;
   maxPromptTokens?: number;
+  /** Send progress and debug logs to stderr so stdout only carries results. */
+  logToStderr?: boolean;
+  /** Origin of the ChatGPT web app; override to point at a local stand-in. */
+  baseUrl?: string;
+  /** Response cache behaviour for new-chat queries (default `use`). */
+  cache?: CacheMode;
+  cacheTtlMs?: number;
+  /** Source of the login for `loginInteractive`; defaults to the profile's saved provider. */
+  credentials?: CredentialProvider;
+  /** Source of verification codes; defaults to the profile's saved source, then a terminal prompt. */
+  otp?: OtpSource | null;
+  /** Model definitions; defaults to the built-ins merged with the user's models file. */
+  models?: ModelRegistry;
+  /** DOM selectors; defaults to the built-ins merged with the user's selectors file. */
+  selectors?: SelectorRegistry;
+  /**
+   * Fail with a `model-mismatch` error when the requested model cannot be
+   * confirmed, instead of warning. Defaults to the model definition's `strict`
+   * flag, which is set for GPT-5 Pro.
+   */
+  strictModel?: boolean;
 }
 
-interface ModelPreStep {
-  testId?: string;
-  text?: string;
+export type ResponseStreamEvent =
+  | { type: 'delta'; delta: string; text: string }
+  | { type: 'done'; text: string };
+
+export interface QueryOptions {
+  /** Model to use for this query instead of the instance default. */
+  model?: string;
+  /** Called with incremental response text while the assistant is writing. */
+  onProgress?: (event: ResponseStreamEvent) => void;
+  /** Files to upload through the composer before the prompt is sent. */
+  attachments?: string[];
+  /** Overrides the instance cache mode for this query. */
+  cache?: CacheMode;
+  /** Overrides the instance strict-model setting for this query. */
+  strictModel?: boolean;
+  /** Overrides the instance timeout for the upload and the answer of this query. */
+  timeout?: number;
+  /** Overrides the instance retry count for this query. */
+  retries?: number;
+  /** Overrides the instance prompt limits for this query. */
+  maxPromptChars?: number;
+  maxPromptTokens?: number;
+}
+
+export type ExtractionMethod = 'clipboard' | 'innerText';
+
+export interface ModelSelection {
+  requested: string;
+  /** Key of the matched model definition, or null when the name is unknown. */
+  resolved: string | null;
+  displayName: string | null;
+  /** Whether the picker label or the answered turn confirmed this model. */
+  confirmed: boolean;
+  confirmedBy: Array<'picker' | 'turn'>;
+  /** Model picker label at the end of the switch. */
+  label: string | null;
+  /** Model slug from the finished assistant turn's metadata, when the page exposes it. */
+  answeredBy: string | null;
 }
 
-interface ModelDefinition {
-  key: string;
-  displayName: string;
-  verifyTokens: string[];
-  optionTestIds: string[];
-  fallbackTexts: string[];
-  preSteps?: ModelPreStep[];
+/** Phase durations in milliseconds; phases that did not run are omitted. */
+export interface RunTimings {
+  launchMs?: number;
+  sessionCheckMs?: number;
+  modelSwitchMs?: number;
+  firstTokenMs?: number;
+  completionMs?: number;
 }
 
+export interface QueryResult {
+  response: string;
+  /** Number of attempts used, including the successful one. */
+  attempts: number;
+  model: ModelSelection;
+  conversation: ConversationRef | null;
+  prompt: { chars: number; tokens: number };
+  attachments: Array<{ name: string; bytes: number }>;
+  timings: RunTimings;
+  extraction: ExtractionMethod;
+  /** Whether the result was served from the local response cache. */
+  cached: boolean;
+  startedAt: string;
+  completedAt: string;
+}
+
+interface AssistantSnapshot {
+  count: number;
+  ids: string[];
+}
+
+interface QueryAttemptState {
+  /** Set once Enter was pressed; from then on the prompt must not be resent blindly. */
+  submitted: boolean;
+  submittedAt: number | null;
+  /** Conversation that was open when the query started (null for a new chat). */
+  startConversation: ConversationRef | null;
+  /** Whether the page has to be reloaded before the next attempt. */
+  recoverPage: boolean;
+  model: ModelSelection | null;
+  modelName: string;
+  attachments: Attachment[];
+  /** Base timeout in milliseconds for the upload and the answer. */
+  timeout: number;
+}
+
+export type { ModelDefinition, ModelPreStep } from './models.js';
+
 export class ChatGPT {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
@@ -51,11 +201,22 @@ export class ChatGPT {
   private verbose: boolean;
   private maxPromptChars: number;
   private maxPromptTokens: number;
+  private logToStderr: boolean;
+  private baseUrl: string;
+  private cacheMode: CacheMode;
+  private cacheTtlMs: number;
   private playwright: typeof import('playwright') | null = null;
+  private ownsBrowser = true;
+  private clipboardLock = new AsyncLock();
+  private conversation: ConversationRef | null = null;
+  private streamBindingInstalled = false;
+  private streamHandler: ((text: string) => void) | null = null;
+  private timings: RunTimings = {};
 
-  private modelDefinitions: Record<string, ModelDefinition> = this.buildModelDefinitions();
+  private models: ModelRegistry;
+  private selectors: SelectorRegistry;
 
-  constructor(options: ChatGPTOptions = {}) {
+  constructor(private readonly options: ChatGPTOptions = {}) {
     this.headless = options.headless ?? false;
     this.profile = options.profile ?? 'default';
     this.model = options.model ?? 'gpt-5-pro';
@@ -64,7 +225,13 @@ export class ChatGPT {
     this.verbose = options.verbose ?? false;
     this.maxPromptChars = options.maxPromptChars ?? DEFAULT_MAX_PROMPT_CHARS;
     this.maxPromptTokens = options.maxPromptTokens ?? DEFAULT_MAX_PROMPT_TOKENS;
-    this.stateDir = path.join(os.homedir(), '.gpt5-pro-cli', this.profile);
+    this.logToStderr = options.logToStderr ?? false;
+    this.baseUrl = new URL(options.baseUrl ?? CHATGPT_BASE_URL).toString();
+    this.cacheMode = options.cache ?? 'use';
+    this.cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+    this.stateDir = getProfileDir(this.profile);
+    this.models = options.models ?? loadModelRegistry();
+    this.selectors = options.selectors ?? loadSelectorRegistry();
   }
 
   private log(message: string, level: 'info' | 'warn' | 'error' = 'info') {
@@ -72,38 +239,58 @@ export class ChatGPT {
       return;
     }
     const prefix = level === 'error' ? '❌' : level === 'warn' ? '⚠️' : '✓';
-    console.log(`${prefix} ${message}`);
+    this.print(`${prefix} ${message}`);
   }
 
   private debug(message: string) {
     if (this.verbose) {
-      console.log(`[DEBUG] ${message}`);
+      this.print(`[DEBUG] ${message}`);
     }
   }
 
-  private validatePromptLength(prompt: string) {
+  private print(message: string) {
+    if (this.logToStderr) {
+      console.error(message);
+    } else {
+      console.log(message);
+    }
+  }
+
+  getStateDir(): string {
+    return this.stateDir;
+  }
+
+  getPromptLimits(): { maxPromptChars: number; maxPromptTokens: number } {
+    return { maxPromptChars: this.maxPromptChars, maxPromptTokens: this.maxPromptTokens };
+  }
+
+  validatePromptLength(prompt: string, limits: Partial<SplitLimits> = {}) {
+    const maxPromptChars = limits.maxPromptChars ?? this.maxPromptChars;
+    const maxPromptTokens = limits.maxPromptTokens ?? this.maxPromptTokens;
     const charCount = prompt.length;
     const tokenCount = countTokens(prompt);
 
-    if (charCount <= this.maxPromptChars && tokenCount <= this.maxPromptTokens) {
+    if (charCount <= maxPromptChars && tokenCount <= maxPromptTokens) {
       return;
     }
 
     const overLimits: string[] = [];
-    if (charCount > this.maxPromptChars) {
+    if (charCount > maxPromptChars) {
       overLimits.push(
-        `${charCount.toLocaleString()} characters (limit ~${this.maxPromptChars.toLocaleString()} characters)`
+        `${charCount.toLocaleString()} characters (limit ~${maxPromptChars.toLocaleString()} characters)`
       );
     }
-    if (tokenCount > this.maxPromptTokens) {
+    if (tokenCount > maxPromptTokens) {
       overLimits.push(
-        `${tokenCount.toLocaleString()} tokens (limit ~${this.maxPromptTokens.toLocaleString()} tokens)`
+        `${tokenCount.toLocaleString()} tokens (limit ~${maxPromptTokens.toLocaleString()} tokens)`
       );
     }
 
     const details = overLimits.join(' and ');
-    throw new Error(
-      `Prompt exceeds ChatGPT's composer limit: ${details}. Please shorten or split the request before retrying.`
+    throw new ChatGPTError(
+      `Prompt exceeds ChatGPT's composer limit: ${details}. Please shorten or split the request before retrying.`,
+      'composer',
+      { retryable: false }
     );
   }
 
@@ -111,31 +298,10 @@ export class ChatGPT {
     if (!this.page) return null;
 
     try {
-      return await this.page.evaluate((pattern) => {
+      return await this.page.evaluate(({ pattern, selectors }) => {
         const regex = new RegExp(pattern, 'i');
-        const candidates = new Set<Element>();
-        const candidateSelectors = [
-          '[role="alert"]',
-          '[data-testid*="toast"]',
-          '[data-theme="error"]',
-          '.text-destructive',
-          '[data-tooltip]',
-          '[data-state="error"]',
-          '[aria-live]',
-        ];
-
-        candidateSelectors.forEach((selector) => {
-          document.querySelectorAll(selector).forEach((node) => candidates.add(node as Element));
-        });
 
-        const composer = document.querySelector('[data-testid="composer"]');
-        if (composer) {
-          composer.querySelectorAll('[role="alert"], [data-state="error"], .text-destructive').forEach((node) => {
-            candidates.add(node as Element);
-          });
-        }
-
-        for (const node of candidates) {
+        for (const node of Array.from(document.querySelectorAll(selectors.alert))) {
           const text = node.textContent?.trim();
           if (!text) continue;
           if (regex.test(text)) {
@@ -143,13 +309,13 @@ export class ChatGPT {
           }
         }
 
-        const sendButton = document.querySelector('[data-testid="send-button"], button[aria-label*="Send"]');
+        const sendButton = document.querySelector(selectors.sendButton);
         const ariaLabel = sendButton?.getAttribute('aria-label');
         if (ariaLabel && regex.test(ariaLabel)) {
           return ariaLabel;
         }
 
-        const tooltips = document.querySelectorAll('[role="tooltip"], [data-state="delayed-open"]');
+        const tooltips = document.querySelectorAll(selectors.tooltip);
         for (const tooltip of Array.from(tooltips)) {
           const text = tooltip.textContent?.trim();
           if (text && regex.test(text)) {
@@ -158,7 +324,14 @@ export class ChatGPT {
         }
 
         return null;
-      }, COMPOSER_ERROR_PATTERN.source);
+      }, {
+        pattern: COMPOSER_ALERT_PATTERN.source,
+        selectors: {
+          alert: this.css('composerAlert'),
+          sendButton: this.css('sendButton'),
+          tooltip: this.css('tooltip'),
+        },
+      });
     } catch (error) {
       this.debug(`detectComposerError failed: ${error}`);
       return null;
@@ -167,14 +340,34 @@ export class ChatGPT {
 
   private async failIfComposerError(context: string = 'Prompt submission'): Promise<void> {
     const errorText = await this.detectComposerError();
-    if (errorText) {
-      throw new Error(
-        `${context} blocked by ChatGPT UI: ${errorText} (observed limit ≈${this.maxPromptChars.toLocaleString()} characters / ~${this.maxPromptTokens.toLocaleString()} tokens).`
+    if (!errorText) return;
+
+    if (ATTACHMENT_ERROR_PATTERN.test(errorText)) {
+      throw new ChatGPTError(`${context} rejected by ChatGPT UI: ${errorText}`, 'attachment');
+    }
+    if (USAGE_CAP_PATTERN.test(errorText)) {
+      throw new ChatGPTError(`${context} blocked by ChatGPT usage cap: ${errorText}`, 'usage-cap');
+    }
+    if (COMPOSER_ERROR_PATTERN.test(errorText)) {
+      throw new ChatGPTError(
+        `${context} blocked by ChatGPT UI: ${errorText} (observed limit ≈${this.maxPromptChars.toLocaleString()} characters / ~${this.maxPromptTokens.toLocaleString()} tokens).`,
+        'composer',
+        { retryable: false }
       );
     }
+    throw new ChatGPTError(`${context} failed in ChatGPT UI: ${errorText}`, 'composer');
   }
 
   async initialize() {
+    const startedAt = Date.now();
+    try {
+      await this.launch();
+    } finally {
+      this.timings.launchMs = Date.now() - startedAt;
+    }
+  }
+
+  private async launch() {
     if (!fs.existsSync(this.stateDir)) {
       fs.mkdirSync(this.stateDir, { recursive: true });
     }
@@ -208,15 +401,16 @@ export class ChatGPT {
       throw error;
     }
 
-    const statePath = path.join(this.stateDir, 'browser-state.json');
     const contextOptions: any = {
       userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
       viewport: { width: 1280, height: 720 },
     };
 
-    if (fs.existsSync(statePath)) {
+    // Decrypted in memory when the profile is encrypted; never written back as plaintext.
+    const savedState = await loadBrowserState(this.stateDir, { credentials: this.options.credentials });
+    if (savedState) {
       this.log('Loading saved session...');
-      contextOptions.storageState = statePath;
+      contextOptions.storageState = savedState;
     }
 
     this.context = await this.browser.newContext({
@@ -226,17 +420,32 @@ export class ChatGPT {
         'clipboard-write',
       ],
     });
-    this.page = await this.context.newPage();
-
-    await this.page.addInitScript(() => {
+    await this.context.addInitScript(() => {
       Object.defineProperty(navigator, 'webdriver', { get: () => undefined });
     });
+    this.page = await this.context.newPage();
   }
 
-  private async ensureBrowserInstalled() {
-    const browserCacheDir = this.prepareBrowserCacheDir();
-    this.debug(`Using Playwright browser cache at ${browserCacheDir}`);
+  /**
+   * Opens another tab in the same browser context. The tab is a separate
+   * `ChatGPT` with its own page, model selection and conversation state;
+   * closing it closes only the tab.
+   */
+  async openTab(): Promise<ChatGPT> {
+    if (!this.context) throw new Error('Browser not initialized');
+
+    const tab = new ChatGPT(this.options);
+    tab.context = this.context;
+    tab.playwright = this.playwright;
+    tab.ownsBrowser = false;
+    tab.clipboardLock = this.clipboardLock;
+    tab.page = await this.context.newPage();
+    return tab;
+  }
 
+  /** Where Playwright's Chromium is expected and whether it is there, without installing it. */
+  async getBrowserInstallStatus(): Promise<{ cacheDir: string; executablePath: string | null; installed: boolean }> {
+    const cacheDir = this.prepareBrowserCacheDir();
     const { chromium } = await this.getPlaywright();
     let executablePath = '';
     try {
@@ -244,9 +453,19 @@ export class ChatGPT {
     } catch (error) {
       this.debug(`chromium.executablePath() threw: ${error}`);
     }
+    return {
+      cacheDir,
+      executablePath: executablePath || null,
+      installed: Boolean(executablePath) && fs.existsSync(executablePath),
+    };
+  }
+
+  private async ensureBrowserInstalled() {
+    const status = await this.getBrowserInstallStatus();
+    this.debug(`Using Playwright browser cache at ${status.cacheDir}`);
 
-    if (executablePath && fs.existsSync(executablePath)) {
-      this.debug(`Chromium executable found at ${executablePath}`);
+    if (status.installed) {
+      this.debug(`Chromium executable found at ${status.executablePath}`);
       return;
     }
 
@@ -254,18 +473,19 @@ export class ChatGPT {
     if (this.verbose) {
       this.log(message, 'info');
     } else {
-      console.log(`⬇️  ${message}`);
+      this.print(`⬇️  ${message}`);
     }
 
     await this.installBrowserBinary();
 
-    executablePath = chromium.executablePath();
+    const { chromium } = await this.getPlaywright();
+    const executablePath = chromium.executablePath();
     if (!executablePath || !fs.existsSync(executablePath)) {
       throw new Error('Unable to install Playwright Chromium browser automatically. Please run "npx playwright install chromium" and retry.');
     }
 
     if (!this.verbose) {
-      console.log('✅ Playwright Chromium browser installed.');
+      this.print('✅ Playwright Chromium browser installed.');
     } else {
       this.log('Playwright Chromium browser installed.', 'info');
     }
@@ -278,14 +498,14 @@ export class ChatGPT {
 
     await new Promise<void>((resolve, reject) => {
       const child = spawn(process.execPath, [cliPath, 'install', 'chromium'], {
-        stdio: this.verbose ? 'inherit' : 'pipe',
+        stdio: this.verbose && !this.logToStderr ? 'inherit' : 'pipe',
         env: process.env,
       });
 
       let stderr = '';
 
-      if (!this.verbose) {
-        child.stdout?.on('data', (data) => {
+      if (child.stdout) {
+        child.stdout.on('data', (data) => {
           const message = data.toString();
           this.debug(`playwright install stdout: ${message}`);
         });
@@ -381,13 +601,15 @@ export class ChatGPT {
     return this.playwright;
   }
 
-  async loginInteractive() {
+  async loginInteractive(options: { unattended?: boolean } = {}) {
     if (!this.page) throw new Error('Browser not initialized');
 
-    const { email, password } = await getCredentials();
+    const credentials = this.options.credentials ?? resolveCredentialProvider(this.stateDir);
+    this.log(`Reading credentials from ${credentials.name}...`);
+    const { email, password } = await credentials.getCredentials();
 
-    this.log('Navigating to https://chatgpt.com/...');
-    await this.page.goto('https://chatgpt.com/', { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    this.log(`Navigating to ${this.baseUrl}...`);
+    await this.page.goto(this.baseUrl, { waitUntil: 'domcontentloaded', timeout: this.timeout });
     await this.page.waitForTimeout(2000);
 
     const isLoggedIn = await this.checkIfLoggedIn();
@@ -398,20 +620,20 @@ export class ChatGPT {
     }
 
     this.log('Clicking login button...');
-    await this.page.getByTestId('login-button').click();
+    await (await this.waitForSelectorEntry('loginButton')).click();
     await this.page.waitForTimeout(2000);
 
     this.log('Entering email...');
-    await this.page.getByRole('textbox', { name: 'Email address' }).fill(email);
+    await (await this.waitForSelectorEntry('emailInput')).fill(email);
     await this.page.waitForTimeout(500);
 
-    await this.page.getByRole('button', { name: 'Continue', exact: true }).click();
+    await (await this.waitForSelectorEntry('continueButton')).click();
     await this.page.waitForTimeout(3000);
 
     this.log('Entering password...');
 
     // Focus the password field
-    const passwordField = this.page.getByRole('textbox', { name: 'Password' });
+    const passwordField = await this.waitForSelectorEntry('passwordInput');
     await passwordField.click({ force: true });
     await this.page.waitForTimeout(500);
 
@@ -437,11 +659,11 @@ export class ChatGPT {
     await this.page.waitForTimeout(500);
 
     // Submit password form (prefer button click, fall back to Enter)
-    const submitPasswordButton = this.page.getByRole('button', { name: 'Continue', exact: true });
+    const codeRequestedAt = new Date();
     let submitted = false;
 
     try {
-      await submitPasswordButton.click({ timeout: 5000 });
+      await (await this.waitForSelectorEntry('continueButton', { timeout: 5000 })).click({ timeout: 5000 });
       submitted = true;
       this.log('Submitting password...');
     } catch (error) {
@@ -461,25 +683,17 @@ export class ChatGPT {
 
     // Check for email verification UI (inline on same page or URL change)
     this.log('Checking for email verification...');
-    const otpSelectors = [
-      'input[autocomplete="one-time-code"]',
-      'input[data-testid*="otp" i]',
-      'input[data-testid*="code" i]',
-      'input[name*="code" i]',
-      'input[inputmode="numeric"]',
-      'input[type="tel"]',
-      'input[type="text"][maxlength="1"]',
-      'input[aria-label*="digit" i]'
-    ];
-
-    const codeInputs = await this.waitForOtpInputs(otpSelectors);
+    const codeInputs = await this.waitForOtpInputs();
 
     if (codeInputs) {
       const visibleOtpCount = await codeInputs.count();
       this.debug(`Detected ${visibleOtpCount} OTP inputs`);
 
       this.log('Email verification required - check your email for code');
-      const code = (await this.prompt2FA()).replace(/\s+/g, '');
+      const code = (await this.readVerificationCode(credentials, codeRequestedAt, options.unattended)).replace(
+        /\s+/g,
+        ''
+      );
 
       if (!code) {
         throw new Error('Verification code was empty');
@@ -513,19 +727,10 @@ export class ChatGPT {
 
       await this.page.waitForTimeout(500);
 
-      const submitSelectors = [
-        'button:has-text("Continue")',
-        'button:has-text("Verify")',
-        'button:has-text("Submit")',
-        'button:has-text("Next")',
-        'button:has-text("Confirm")',
-        'button[type="submit"]'
-      ];
-
       let submitClicked = false;
 
-      for (const selector of submitSelectors) {
-        const buttonLocator = this.page.locator(`${selector}:visible`).first();
+      for (const selector of this.selectors.entries.otpSubmit.candidates) {
+        const buttonLocator = this.page.locator(`${selector} >> visible=true`).first();
 
         if ((await buttonLocator.count()) > 0) {
           try {
@@ -557,12 +762,87 @@ export class ChatGPT {
     if (loginSuccess) {
       this.log('Logged in successfully!');
       await this.saveSession();
+      writeAccountInfo(this.stateDir, email);
     } else {
       await this.page.screenshot({ path: '/tmp/login-failed.png', fullPage: true });
       throw new Error(`Login failed - could not find chat interface. URL: ${this.page.url()}. Screenshot: /tmp/login-failed.png`);
     }
   }
 
+  /**
+   * Logs in again without a human after `checkSession` failed. Needs a
+   * credential provider and OTP source that do not prompt. A lock file keeps
+   * parallel invocations from logging in at once; whoever waits picks up the
+   * session saved by the first.
+   */
+  async autoLogin(): Promise<void> {
+    const context = this.context;
+    if (!context) throw new Error('Browser not initialized');
+
+    const credentials = this.options.credentials ?? resolveCredentialProvider(this.stateDir);
+    if (credentials.interactive) {
+      throw new Error(
+        `Session expired and auto-login needs non-interactive credentials (current: ${credentials.name}). ` +
+          `Run: gpt5 login --profile ${this.profile} --credentials <source>`
+      );
+    }
+    const otp = this.options.otp !== undefined ? this.options.otp : resolveOtpSource(this.stateDir, credentials);
+    if (!otp) {
+      throw new Error(
+        `Session expired and auto-login needs a verification code source. ` +
+          `Run: gpt5 login --profile ${this.profile} --otp <source>`
+      );
+    }
+
+    const stateMtime = () => {
+      const statePath = getBrowserStatePath(this.stateDir);
+      return statePath ? fs.statSync(statePath).mtimeMs : 0;
+    };
+    const staleStateMtime = stateMtime();
+
+    this.log('Session expired; logging in again...', 'warn');
+    await withFileLock(path.join(this.stateDir, 'login.lock'), async () => {
+      // Another process may have logged in while we waited for the lock.
+      if (stateMtime() > staleStateMtime) {
+        const state = await loadBrowserState(this.stateDir, { credentials });
+        await context.addCookies(state?.cookies ?? []);
+        if (await this.checkSession()) {
+          this.log('Picked up the session saved by another process');
+          return;
+        }
+      }
+      await this.loginInteractive({ unattended: true });
+    });
+  }
+
+  /**
+   * Gets the code from the configured OTP source. Falls back to asking on the
+   * terminal when no source is set up, or when it fails and a terminal is
+   * attached, unless the login is unattended.
+   */
+  private async readVerificationCode(
+    credentials: CredentialProvider,
+    requestedAt: Date,
+    unattended: boolean = false
+  ): Promise<string> {
+    const source = this.options.otp !== undefined ? this.options.otp : resolveOtpSource(this.stateDir, credentials);
+    if (!source) {
+      if (unattended) throw new Error('A verification code was requested but no OTP source is configured');
+      return this.prompt2FA();
+    }
+
+    this.log(`Fetching verification code from ${source.name}...`);
+    try {
+      return await source.getCode({ requestedAt });
+    } catch (error) {
+      if (unattended || !process.stdin.isTTY) {
+        throw new Error(`Could not get a verification code from ${source.name}: ${error instanceof Error ? error.message : error}`);
+      }
+      this.log(`${source.name} failed (${error instanceof Error ? error.message : error}); asking instead`, 'warn');
+      return this.prompt2FA();
+    }
+  }
+
   private async prompt2FA(): Promise<string> {
     const rl = readline.createInterface({
       input: process.stdin,
@@ -577,12 +857,9 @@ export class ChatGPT {
     });
   }
 
-  private async waitForOtpInputs(selectors: string[]): Promise<Locator | null> {
+  private async waitForOtpInputs(): Promise<Locator | null> {
     if (!this.page) throw new Error('Browser not initialized');
 
-    const otpSelector = selectors.map((selector) => `${selector}:visible`).join(', ');
-    if (!otpSelector.trim()) return null;
-
     const pollIntervalMs = 500;
     const maxWaitMs = 45000;
     const deadline = Date.now() + maxWaitMs;
@@ -591,7 +868,7 @@ export class ChatGPT {
     while (Date.now() < deadline) {
       attempt++;
 
-      const locator = this.page.locator(otpSelector);
+      const locator = this.anySelector('otpInput', true);
       const count = await locator.count().catch(() => 0);
 
       if (count > 0) {
@@ -610,21 +887,8 @@ export class ChatGPT {
   private async tryTriggerVerificationStep(attempt: number): Promise<void> {
     if (!this.page) return;
 
-    const triggerSelectors = [
-      'button:has-text("Send code")',
-      'button:has-text("Send me a code")',
-      'button:has-text("Send verification code")',
-      'button:has-text("Email code")',
-      'button:has-text("Email me a code")',
-      'button:has-text("Use email")',
-      'button:has-text("Continue with email")',
-      'button:has-text("Verify")',
-      'button:has-text("Resend")',
-      'button[data-testid*="email" i]'
-    ];
-
-    for (const selector of triggerSelectors) {
-      const button = this.page.locator(`${selector}:visible`).first();
+    for (const selector of this.selectors.entries.verificationTrigger.candidates) {
+      const button = this.page.locator(`${selector} >> visible=true`).first();
 
       if ((await button.count()) === 0) {
         continue;
@@ -645,28 +909,167 @@ export class ChatGPT {
     if (!this.page) throw new Error('Browser not initialized');
 
     this.log('Checking session...');
-    await this.page.goto('https://chatgpt.com/', { waitUntil: 'domcontentloaded', timeout: this.timeout });
-    await this.page.waitForTimeout(3000);
+    const startedAt = Date.now();
+    try {
+      await this.page.goto(this.baseUrl, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+      await this.page.waitForTimeout(3000);
+
+      return await this.checkIfLoggedIn();
+    } finally {
+      this.timings.sessionCheckMs = Date.now() - startedAt;
+    }
+  }
+
+  /**
+   * Checks the session in the browser and asks ChatGPT's session endpoint
+   * which account it belongs to and when it ends.
+   */
+  async inspectSession(): Promise<{ loggedIn: boolean; email: string | null; expiresAt: string | null }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const loggedIn = await this.checkSession();
+    const session = await this.page
+      .evaluate(async () => {
+        const response = await fetch('/api/auth/session', { credentials: 'include' });
+        return response.ok ? response.json() : null;
+      })
+      .catch((error) => {
+        this.debug(`Session endpoint failed: ${String(error)}`);
+        return null;
+      });
+
+    const email: string | null = session?.user?.email ?? null;
+    if (loggedIn && email) {
+      writeAccountInfo(this.stateDir, email);
+    }
+    return { loggedIn, email, expiresAt: session?.expires ?? null };
+  }
+
+  /** Navigates to an empty chat so the next `query` starts a new conversation. */
+  async newChat(): Promise<void> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    await this.page.goto(this.baseUrl, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    await this.ensureComposerReady();
+    this.conversation = null;
+  }
+
+  /**
+   * Opens an existing conversation so the next `query` is sent as a follow-up
+   * turn. Returns the model label shown in the picker for that thread.
+   */
+  async openConversation(idOrUrl: string): Promise<string | null> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const ref = parseConversationRef(idOrUrl, this.baseUrl);
+    this.log(`Opening conversation ${ref.id}...`);
+    await this.page.goto(ref.url, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    await this.ensureComposerReady();
+
+    const current = conversationFromUrl(this.page.url());
+    if (!current || current.id !== ref.id) {
+      throw new Error(`Conversation ${ref.id} could not be opened (landed on ${this.page.url()})`);
+    }
+
+    await this.waitForThreadToSettle();
+    this.conversation = ref;
+
+    const modelLabel = await this.getCurrentModelLabel();
+    this.log(`Conversation is using model: ${modelLabel ?? '(unknown)'}`);
+    return modelLabel;
+  }
+
+  getConversation(): ConversationRef | null {
+    return this.conversation;
+  }
+
+  async getCurrentModelLabel(): Promise<string | null> {
+    if (!this.page) return null;
+
+    const trigger = this.anySelector('modelSwitcher', true).first();
+    try {
+      if ((await trigger.count()) === 0) return null;
+      const label = (await trigger.textContent())?.trim();
+      return label || null;
+    } catch {
+      return null;
+    }
+  }
+
+  private async waitForThreadToSettle(maxWaitMs: number = 15000): Promise<void> {
+    if (!this.page) return;
+
+    // Long threads render their history progressively; wait until the number of
+    // assistant turns stops changing before treating the page as loaded.
+    const deadline = Date.now() + maxWaitMs;
+    let previous = -1;
+    let stableChecks = 0;
+
+    while (Date.now() < deadline && stableChecks < 3) {
+      const count = await this.page.locator(this.css('assistantMessage')).count();
+      if (count === previous && count > 0) {
+        stableChecks++;
+      } else {
+        stableChecks = 0;
+        previous = count;
+      }
+      await this.page.waitForTimeout(500);
+    }
 
-    return await this.checkIfLoggedIn();
+    this.debug(`Conversation thread settled with ${previous} assistant message(s)`);
   }
 
-  async selectModel(modelName: string = this.model): Promise<void> {
+  /** Whether a failed model confirmation is an error rather than a warning. */
+  isStrictModel(modelName: string = this.model, override?: boolean): boolean {
+    return override ?? this.options.strictModel ?? this.resolveModelDefinition(modelName)?.strict ?? false;
+  }
+
+  /**
+   * Switches the picker to `modelName`. In strict mode every way the switch can
+   * go unconfirmed throws a `model-mismatch` error; otherwise it is logged and
+   * the query goes ahead with whatever model is selected.
+   */
+  async selectModel(
+    modelName: string = this.model,
+    strict: boolean = this.isStrictModel(modelName)
+  ): Promise<ModelSelection> {
     if (!this.page) throw new Error('Browser not initialized');
 
-    this.log(`Selecting model: ${modelName}`);
+    this.log(`Selecting model: ${modelName}${strict ? ' (strict)' : ''}`);
 
     const definition = this.resolveModelDefinition(modelName);
+    const trigger = this.anySelector('modelSwitcher', true).first();
+    const selection = async (confirmed: boolean): Promise<ModelSelection> => ({
+      requested: modelName,
+      resolved: definition?.key ?? null,
+      displayName: definition?.displayName ?? null,
+      confirmed,
+      confirmedBy: confirmed ? ['picker'] : [],
+      label: await this.getCurrentModelLabel(),
+      answeredBy: null,
+    });
+    const fail = (message: string, retryable: boolean = false) => {
+      if (strict) {
+        throw new ChatGPTError(
+          `${message} (strict model mode; pass --no-strict-model to continue anyway)`,
+          'model-mismatch',
+          { retryable }
+        );
+      }
+      this.log(message, 'warn');
+    };
+
     if (!definition) {
-      this.log(`Model "${modelName}" is not recognized; skipping model switch`, 'warn');
-      return;
+      fail(
+        `Model "${modelName}" is not recognized; skipping model switch. ` +
+          `Run "gpt5 models" to see the picker, and add it to ${getModelsConfigPath()}`
+      );
+      return selection(false);
     }
 
-    const trigger = this.page.locator('button[data-testid="model-switcher-dropdown-button"]:visible').first();
-
     if (await this.isModelAlreadySelected(trigger, definition)) {
       this.debug(`Already using ${modelName}`);
-      return;
+      return selection(true);
     }
 
     await this.ensureComposerReady();
@@ -674,18 +1077,19 @@ export class ChatGPT {
     try {
       await trigger.scrollIntoViewIfNeeded();
       await trigger.click({ timeout: 5000 });
-      await this.page.waitForSelector('[role="menu"], [data-state="open"]', { timeout: 3000 });
+      await this.anySelector('modelMenu').first().waitFor({ timeout: 3000 });
       this.debug('Model picker opened');
     } catch (error) {
-      this.log(`Failed to open model picker: ${error}`, 'warn');
-      return;
+      // The picker sometimes fails to open while the page is still settling.
+      fail(`Failed to open model picker: ${error}`, true);
+      return selection(false);
     }
 
     const applied = await this.applyModelSelection(definition);
     if (!applied) {
-      this.log(`Could not find model option for ${modelName}`, 'warn');
       await this.page.keyboard.press('Escape').catch(() => {});
-      return;
+      fail(`Could not find model option for ${modelName}`);
+      return selection(false);
     }
 
     await this.page.waitForTimeout(1200);
@@ -696,22 +1100,214 @@ export class ChatGPT {
     } else {
       const label = (await trigger.textContent())?.trim() ?? '(unavailable)';
       this.debug(`Model picker label after selection: ${label}`);
+      if (strict) {
+        fail(`Could not confirm ${definition.displayName} is selected (picker shows "${label}")`);
+      }
       this.log(`Triggered ${definition.displayName} selection (confirmation unavailable)`);
     }
+    return selection(confirmed);
+  }
+
+  /**
+   * Checks the model slug ChatGPT recorded on the finished assistant turn
+   * against the requested model. A mismatch fails in strict mode; the error
+   * carries the answer and the slug so the caller can still show them.
+   */
+  private async confirmAnsweringModel(
+    selection: ModelSelection,
+    message: Locator | null,
+    strict: boolean,
+    response: string
+  ): Promise<ModelSelection> {
+    const slug = await this.readTurnModelSlug(message);
+    if (!slug) {
+      this.debug('Assistant turn has no model metadata');
+      if (strict && !selection.confirmed) {
+        throw new ChatGPTError(
+          `Could not confirm the answer came from ${selection.displayName ?? selection.requested}`,
+          'model-mismatch',
+          { response }
+        );
+      }
+      return selection;
+    }
+
+    const definition = selection.resolved ? this.resolveModelDefinition(selection.resolved) : null;
+    if (!definition || matchesTurnSlug(definition, slug)) {
+      this.debug(`Assistant turn was answered by ${slug}`);
+      return definition
+        ? { ...selection, answeredBy: slug, confirmed: true, confirmedBy: [...selection.confirmedBy, 'turn'] }
+        : { ...selection, answeredBy: slug };
+    }
+
+    const text =
+      `Requested ${definition.displayName} but the answer came from ${slug}` +
+      (this.conversation ? ` (${this.conversation.url})` : '');
+    if (strict) {
+      throw new ChatGPTError(text, 'model-mismatch', { response, answeredBy: slug });
+    }
+    this.log(text, 'warn');
+    return { ...selection, answeredBy: slug, confirmed: false, confirmedBy: [] };
+  }
+
+  private async readTurnModelSlug(message: Locator | null): Promise<string | null> {
+    if (!this.page) return null;
+
+    const turn = message ?? this.page.locator(this.css('assistantMessage')).last();
+    try {
+      if ((await turn.count()) === 0) return null;
+      return await turn.evaluate((node) => {
+        const attribute = 'data-message-model-slug';
+        const carrier =
+          node.closest(`[${attribute}]`) ?? node.querySelector(`[${attribute}]`);
+        return carrier?.getAttribute(attribute) || null;
+      });
+    } catch (error) {
+      this.debug(`Failed to read turn model metadata: ${String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Opens the model picker and lists every option with a `data-testid`,
+   * including those behind submenus such as "Legacy models". Closes the picker
+   * again without changing the model.
+   */
+  async discoverModelOptions(): Promise<DiscoveredModelOption[]> {
+    if (!this.page) throw new Error('Browser not initialized');
+    const page = this.page;
+
+    await page.goto(this.baseUrl, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    await this.ensureComposerReady();
+
+    const trigger = this.anySelector('modelSwitcher', true).first();
+    try {
+      await trigger.click({ timeout: 5000 });
+      await this.anySelector('modelMenu').first().waitFor({ timeout: 3000 });
+    } catch (error) {
+      throw new Error(`Could not open the model picker: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const optionSelector = this.css('modelMenuOption');
+    const collect = () =>
+      page.evaluate((selector) =>
+        Array.from(document.querySelectorAll<HTMLElement>(selector))
+          .filter((node) => node.offsetParent !== null)
+          .map((node) => ({
+            testId: node.getAttribute('data-testid') ?? '',
+            label: (node.innerText || node.textContent || '').replace(/\s+/g, ' ').trim(),
+          })),
+        optionSelector
+      );
+
+    const found = new Map<string, DiscoveredModelOption>();
+    const record = (items: Array<{ testId: string; label: string }>, submenu: string | null) => {
+      for (const item of items) {
+        if (!found.has(item.testId)) found.set(item.testId, { ...item, submenu });
+      }
+    };
+
+    const topLevel = await collect();
+    record(topLevel, null);
+
+    for (const submenu of topLevel.filter((item) => item.testId.endsWith('-submenu'))) {
+      try {
+        const opener = page.locator(`[data-testid="${submenu.testId}"]:visible`).first();
+        await opener.hover({ timeout: 2000 });
+        await opener.click({ timeout: 2000 }).catch(() => {});
+        await page.waitForTimeout(400);
+        record(await collect(), submenu.testId);
+      } catch (error) {
+        this.debug(`Could not open submenu ${submenu.testId}: ${String(error)}`);
+      }
+    }
+
+    await page.keyboard.press('Escape').catch(() => {});
+    return [...found.values()].filter((option) => option.testId);
+  }
+
+  /**
+   * Resolves every selector registry entry against the current page, or
+   * against a saved HTML snapshot of one, and guesses which page it is.
+   */
+  async checkSelectors(options: { html?: string } = {}): Promise<{
+    page: 'chat' | 'login' | 'unknown';
+    url: string;
+    checks: SelectorCheck[];
+  }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    if (options.html !== undefined) {
+      await this.page.setContent(options.html, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    } else {
+      await this.page.goto(this.baseUrl, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+      await this.ensureComposerReady();
+    }
+
+    const checks: SelectorCheck[] = [];
+    for (const name of SELECTOR_NAMES) {
+      checks.push(await resolveSelector(this.page, this.selectors, name));
+    }
+
+    const found = (name: SelectorName) => checks.some((check) => check.name === name && check.status !== 'missing');
+    const page = found('promptInput')
+      ? 'chat'
+      : found('loginButton') || found('emailInput') || found('passwordInput')
+        ? 'login'
+        : 'unknown';
+    return { page, url: options.html !== undefined ? '(snapshot)' : this.page.url(), checks };
+  }
+
+  /** All candidates of a registry entry as one CSS selector list, for page scripts. */
+  private css(name: SelectorName): string {
+    return cssSelector(this.selectors, name);
+  }
+
+  /** Matches any candidate of a registry entry; for waiting and counting. */
+  private anySelector(name: SelectorName, visible: boolean = false): Locator {
+    if (!this.page) throw new Error('Browser not initialized');
+    const page = this.page;
+
+    const [first, ...rest] = this.selectors.entries[name].candidates.map((candidate) =>
+      page.locator(visible ? `${candidate} >> visible=true` : candidate)
+    );
+    return rest.reduce((union, locator) => union.or(locator), first);
+  }
+
+  /**
+   * The first candidate of a registry entry that matches right now, in
+   * registry order, or null. Falling back past the first candidate is logged.
+   */
+  private async findSelector(
+    name: SelectorName,
+    options: { visible?: boolean; root?: Locator } = {}
+  ): Promise<Locator | null> {
+    if (!this.page) return null;
+
+    const root = options.root ?? this.page;
+    const check = await resolveSelector(root, this.selectors, name, options);
+    if (!check.candidate) return null;
+    if (check.status === 'fallback') {
+      this.debug(`Selector ${name} matched fallback #${(check.index ?? 0) + 1}: ${check.candidate}`);
+    }
+    return root.locator(options.visible ? `${check.candidate} >> visible=true` : check.candidate);
+  }
+
+  /** Waits until some candidate of a registry entry is visible, then returns the first match in registry order. */
+  private async waitForSelectorEntry(name: SelectorName, options: { timeout?: number } = {}): Promise<Locator> {
+    await this.anySelector(name, true).first().waitFor({ timeout: options.timeout ?? this.timeout });
+    const locator = await this.findSelector(name, { visible: true });
+    if (!locator) {
+      throw new ChatGPTError(`Selector ${name} matched and then disappeared`, 'timeout');
+    }
+    return locator.first();
   }
 
   private async ensureComposerReady(): Promise<void> {
     if (!this.page) return;
 
-    const selectors = [
-      '[data-testid="composer"]',
-      'textarea#prompt-textarea',
-      'textarea[placeholder*="Ask anything" i]',
-      'textarea[placeholder*="Message" i]',
-      'div[contenteditable="true"]'
-    ];
-
-    for (const selector of selectors) {
+    const { composer, promptInput } = this.selectors.entries;
+    for (const selector of [...composer.candidates, ...promptInput.candidates]) {
       try {
         await this.page.waitForSelector(selector, { timeout: 5000 });
         return;
@@ -723,86 +1319,12 @@ export class ChatGPT {
     this.debug('Composer did not load within expected time');
   }
 
-  private buildModelDefinitions(): Record<string, ModelDefinition> {
-    return {
-      'gpt-5': {
-        key: 'gpt-5',
-        displayName: 'GPT-5 Auto',
-        verifyTokens: ['chatgpt 5', 'gpt-5'],
-        optionTestIds: ['model-switcher-gpt-5'],
-        fallbackTexts: ['GPT-5', 'Auto']
-      },
-      'gpt-5-auto': {
-        key: 'gpt-5-auto',
-        displayName: 'GPT-5 Auto',
-        verifyTokens: ['chatgpt 5', 'gpt-5'],
-        optionTestIds: ['model-switcher-gpt-5'],
-        fallbackTexts: ['GPT-5', 'Auto']
-      },
-      'gpt-5-instant': {
-        key: 'gpt-5-instant',
-        displayName: 'GPT-5 Instant',
-        verifyTokens: ['instant'],
-        optionTestIds: ['model-switcher-gpt-5-instant'],
-        fallbackTexts: ['Instant']
-      },
-      'gpt-5-thinking': {
-        key: 'gpt-5-thinking',
-        displayName: 'GPT-5 Thinking',
-        verifyTokens: ['thinking'],
-        optionTestIds: ['model-switcher-gpt-5-thinking'],
-        fallbackTexts: ['Thinking']
-      },
-      'gpt-5-pro': {
-        key: 'gpt-5-pro',
-        displayName: 'GPT-5 Pro',
-        verifyTokens: ['pro'],
-        optionTestIds: ['model-switcher-gpt-5-pro'],
-        fallbackTexts: ['Pro']
-      },
-      'gpt-4o': {
-        key: 'gpt-4o',
-        displayName: 'GPT-4o',
-        verifyTokens: ['gpt-4o'],
-        optionTestIds: ['model-switcher-gpt-4o'],
-        fallbackTexts: ['GPT-4o'],
-        preSteps: [{ testId: 'Legacy models-submenu' }]
-      },
-      'gpt-4o-mini': {
-        key: 'gpt-4o-mini',
-        displayName: 'GPT-4o mini',
-        verifyTokens: ['gpt-4o mini', 'mini'],
-        optionTestIds: ['model-switcher-gpt-4o-mini'],
-        fallbackTexts: ['GPT-4o mini'],
-        preSteps: [{ testId: 'Legacy models-submenu' }]
-      }
-    } as const;
-  }
-
-  private resolveModelDefinition(modelName: string): ModelDefinition | null {
-    const normalized = modelName.trim().toLowerCase().replace(/[\s_]+/g, '-');
-    const aliasMap: Record<string, string> = {
-      'chatgpt-5': 'gpt-5',
-      'gpt5': 'gpt-5',
-      'gpt5-auto': 'gpt-5',
-      'gpt5-pro': 'gpt-5-pro',
-      'gpt5-instant': 'gpt-5-instant',
-      'gpt5-thinking': 'gpt-5-thinking',
-      'gpt-5auto': 'gpt-5',
-      'gpt-5pro': 'gpt-5-pro',
-      'gpt-5instant': 'gpt-5-instant',
-      'gpt-5thinking': 'gpt-5-thinking',
-      'gpt-4': 'gpt-4o',
-      'gpt4': 'gpt-4o',
-      'gpt4o': 'gpt-4o',
-      'gpt4omini': 'gpt-4o-mini',
-      'gpt-4omini': 'gpt-4o-mini',
-      'gpt-4o-mini': 'gpt-4o-mini',
-      'gpt-4o-mini-high': 'gpt-4o-mini'
-    };
+  listModelDefinitions(): ModelDefinition[] {
+    return Object.values(this.models.definitions);
+  }
 
-    const key = aliasMap[normalized] ?? normalized;
-    return this.modelDefinitions[key] ?? null;
+  resolveModelDefinition(modelName: string): ModelDefinition | null {
+    return resolveModel(this.models, modelName);
   }
 
   private async isModelAlreadySelected(trigger: Locator, definition: ModelDefinition): Promise<boolean> {
@@ -825,7 +1347,7 @@ export class ChatGPT {
       if (step.testId) {
         stepLocator = this.page.locator(`[data-testid="${step.testId}"]:visible`).first();
       } else if (step.text) {
-        stepLocator = this.page.locator(`div.__menu-item:has-text("${step.text}")`).first();
+        stepLocator = await this.findMenuItem(step.text);
       }
 
       if (!stepLocator || (await stepLocator.count()) === 0) {
@@ -861,7 +1383,7 @@ export class ChatGPT {
     }
 
     for (const text of definition.fallbackTexts ?? []) {
-      const locator = this.page.locator(`div.__menu-item:has-text("${text}")`).first();
+      const locator = await this.findMenuItem(text);
       if (await tryClickable(locator)) {
         return true;
       }
@@ -870,49 +1392,328 @@ export class ChatGPT {
     return false;
   }
 
+  /** The first picker item containing `text`, trying each `modelMenuItem` candidate in turn. */
+  private async findMenuItem(text: string): Promise<Locator> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const candidates = this.selectors.entries.modelMenuItem.candidates;
+    for (const candidate of candidates) {
+      const locator = this.page.locator(candidate).filter({ hasText: text }).first();
+      if ((await locator.count()) > 0) return locator;
+    }
+    return this.page.locator(candidates[0]).filter({ hasText: text }).first();
+  }
+
   private async saveSession() {
     if (!this.context) return;
 
-    const statePath = path.join(this.stateDir, 'browser-state.json');
-    await this.context.storageState({ path: statePath });
+    const state = await this.context.storageState();
+    await saveBrowserState(this.stateDir, state, { credentials: this.options.credentials });
     this.log('Session saved for future use');
   }
 
-  async query(prompt: string): Promise<string> {
+  /**
+   * Like `query`, but yields response text as it is written. The final `done`
+   * event carries the clipboard-copied markdown, which is also returned as part
+   * of the final result.
+   */
+  async *stream(prompt: string): AsyncGenerator<ResponseStreamEvent, QueryResult> {
+    const pending: ResponseStreamEvent[] = [];
+    let wake: (() => void) | null = null;
+    let finished = false;
+    let failure: unknown = null;
+    let result: QueryResult | null = null;
+
+    const run = this.queryDetailed(prompt, {
+      onProgress: (event) => {
+        pending.push(event);
+        wake?.();
+      },
+    }).then(
+      (value) => {
+        result = value;
+      },
+      (error) => {
+        failure = error;
+      }
+    ).finally(() => {
+      finished = true;
+      wake?.();
+    });
+
+    while (true) {
+      if (pending.length > 0) {
+        yield pending.shift()!;
+        continue;
+      }
+      if (finished) break;
+      await new Promise<void>((resolve) => {
+        wake = resolve;
+      });
+      wake = null;
+    }
+
+    await run;
+    if (failure || !result) throw failure;
+    return result;
+  }
+
+  async query(prompt: string, options: QueryOptions = {}): Promise<string> {
+    return (await this.queryDetailed(prompt, options)).response;
+  }
+
+  /**
+   * Runs a query and returns the response together with run metadata. Failures
+   * classified as retryable are retried up to `retries` times with backoff. Once
+   * the prompt has been submitted, retries reopen the conversation and wait for
+   * the pending answer instead of sending the prompt again.
+   */
+  async queryDetailed(prompt: string, options: QueryOptions = {}): Promise<QueryResult> {
+    const cached = this.getCachedResult(prompt, options);
+    if (cached) {
+      options.onProgress?.({ type: 'done', text: cached.response });
+      return cached;
+    }
+
     if (!this.page) throw new Error('Browser not initialized');
-    this.validatePromptLength(prompt);
+    this.validatePromptLength(prompt, options);
+    const attachments = resolveAttachments(options.attachments ?? []);
+    const retries = options.retries ?? this.retries;
+
+    const startedAt = new Date();
+    const state: QueryAttemptState = {
+      submitted: false,
+      submittedAt: null,
+      startConversation: this.conversation,
+      recoverPage: false,
+      model: null,
+      modelName: options.model ?? this.model,
+      attachments,
+      timeout: options.timeout ?? this.timeout,
+    };
 
-    // Select model before querying
-    await this.selectModel();
+    // Timings describe this query only: launch and session check are reported
+    // by the first query after they ran, and nothing carries over to the next.
+    this.timings = this.setupTimings();
+    try {
+      return await this.runAttempts(prompt, options, state, retries, startedAt);
+    } finally {
+      this.timings = {};
+    }
+  }
 
-    this.log('Submitting prompt...');
+  /** Launch and session-check timings recorded since the last query. */
+  private setupTimings(): RunTimings {
+    const { launchMs, sessionCheckMs } = this.timings;
+    return {
+      ...(launchMs !== undefined ? { launchMs } : {}),
+      ...(sessionCheckMs !== undefined ? { sessionCheckMs } : {}),
+    };
+  }
 
-    // Wait for input to be ready
-    const inputSelector = 'textarea#prompt-textarea, textarea[placeholder*="Message" i], div[contenteditable="true"]';
-    await this.page.waitForSelector(inputSelector, { timeout: 10000 });
+  private async runAttempts(
+    prompt: string,
+    options: QueryOptions,
+    state: QueryAttemptState,
+    retries: number,
+    startedAt: Date
+  ): Promise<QueryResult> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await this.runQueryAttempt(prompt, options, state);
+        const detailed = { ...result, attempts: attempt + 1, cached: false, startedAt: startedAt.toISOString() };
+        if (!state.startConversation && writesCache(options.cache ?? this.cacheMode)) {
+          this.storeCachedResult(prompt, options, detailed);
+        }
+        return detailed;
+      } catch (error) {
+        const failure = classifyError(error);
+        if (!failure.retryable || attempt >= retries) {
+          throw failure;
+        }
+        if (state.submitted && !this.conversation) {
+          throw new ChatGPTError(
+            `${failure.message} (the prompt was already submitted and no conversation URL is known, so it will not be resent)`,
+            failure.type,
+            { retryable: false, cause: error }
+          );
+        }
+
+        const delay = computeBackoff(attempt);
+        this.log(
+          `Attempt ${attempt + 1}/${retries + 1} failed (${failure.type}): ${failure.message}. Retrying in ${(
+            delay / 1000
+          ).toFixed(1)}s...`,
+          'warn'
+        );
+        await sleep(delay);
+        state.recoverPage = true;
+      }
+    }
+  }
 
-    // Get initial message count
-    const initialMessages = await this.page.locator('[data-message-author-role="assistant"]').count();
-    this.debug(`Initial assistant messages: ${initialMessages}`);
+  /**
+   * Sends a prompt that was split with `planSplit`: every part goes to the same
+   * conversation and is answered with a short acknowledgement, then the final
+   * message is sent. Only the answer to the final message is returned.
+   */
+  async querySplit(plan: SplitPlan, options: QueryOptions = {}): Promise<QueryResult> {
+    const cached = this.getCachedResult(plan.prompt, options);
+    if (cached) {
+      options.onProgress?.({ type: 'done', text: cached.response });
+      return cached;
+    }
 
-    // Fill and submit
-    await this.page.fill(inputSelector, prompt);
-    await this.page.waitForTimeout(500);
-    await this.page.keyboard.press('Enter');
-    await this.failIfComposerError('Prompt submission');
+    const startConversation = this.conversation;
+    const startedAt = new Date();
+    const setupTimings = this.setupTimings();
+    const partOptions: QueryOptions = {
+      model: options.model,
+      cache: 'off',
+      timeout: options.timeout,
+      retries: options.retries,
+      maxPromptChars: options.maxPromptChars,
+      maxPromptTokens: options.maxPromptTokens,
+    };
+    let attempts = 0;
+
+    for (const [index, part] of plan.parts.entries()) {
+      this.log(`Sending part ${index + 1} of ${plan.parts.length}...`);
+      let ack = await this.queryDetailed(part, partOptions);
+      attempts += ack.attempts;
+      if (!isPartAcknowledged(ack.response, index + 1, plan.parts.length)) {
+        this.log(`Part ${index + 1} got an unexpected reply: ${ack.response.slice(0, 120)}. Asking again...`, 'warn');
+        ack = await this.queryDetailed(formatAckReminder(index + 1, plan.parts.length), partOptions);
+        attempts += ack.attempts;
+      }
+      if (!isPartAcknowledged(ack.response, index + 1, plan.parts.length)) {
+        throw new ChatGPTError(
+          `Part ${index + 1} of ${plan.parts.length} was not acknowledged; the remaining parts were not sent`,
+          'unknown',
+          { retryable: false, response: ack.response }
+        );
+      }
+    }
+
+    this.log('All parts sent, asking the question...');
+    const result = await this.queryDetailed(plan.final, { ...options, cache: 'off' });
+    const combined: QueryResult = {
+      ...result,
+      attempts: attempts + result.attempts,
+      prompt: { chars: plan.prompt.length, tokens: countTokens(plan.prompt) },
+      timings: { ...setupTimings, ...result.timings },
+      startedAt: startedAt.toISOString(),
+    };
+
+    if (!startConversation && writesCache(options.cache ?? this.cacheMode)) {
+      this.storeCachedResult(plan.prompt, options, combined);
+    }
+    return combined;
+  }
+
+  /**
+   * Returns a cached answer for a new-chat query, without touching the
+   * browser. Follow-ups in an open conversation are never served from cache.
+   */
+  getCachedResult(prompt: string, options: QueryOptions = {}): QueryResult | null {
+    if (!readsCache(options.cache ?? this.cacheMode) || this.conversation) {
+      return null;
+    }
+
+    try {
+      const { key } = computeCacheKey(this.cacheKeyInput(prompt, options));
+      const entry = readCacheEntry(this.stateDir, key, this.cacheTtlMs);
+      if (!entry) {
+        return null;
+      }
+      this.log(`Using cached response from ${entry.createdAt} (cache key ${key.slice(0, 12)})`);
+      return { ...entry.result, cached: true };
+    } catch (error) {
+      this.debug(`Cache lookup failed: ${error}`);
+      return null;
+    }
+  }
+
+  private storeCachedResult(prompt: string, options: QueryOptions, result: QueryResult) {
+    try {
+      const input = this.cacheKeyInput(prompt, options);
+      const { key, attachments } = computeCacheKey(input);
+      writeCacheEntry(this.stateDir, {
+        key,
+        createdAt: result.completedAt,
+        model: input.model,
+        prompt,
+        attachments,
+        result,
+      });
+      this.debug(`Cached response under ${key.slice(0, 12)}`);
+    } catch (error) {
+      this.log(`Could not write response cache: ${error}`, 'warn');
+    }
+  }
+
+  private cacheKeyInput(prompt: string, options: QueryOptions) {
+    const modelName = options.model ?? this.model;
+    return {
+      prompt,
+      model: this.resolveModelDefinition(modelName)?.key ?? modelName.trim().toLowerCase(),
+      attachments: resolveAttachments(options.attachments ?? []).map((attachment) => attachment.path),
+    };
+  }
+
+  private async runQueryAttempt(
+    prompt: string,
+    options: QueryOptions,
+    state: QueryAttemptState
+  ): Promise<Omit<QueryResult, 'attempts' | 'cached' | 'startedAt'>> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const strict = this.isStrictModel(state.modelName, options.strictModel);
+    let baseline = state.recoverPage ? await this.recoverForRetry(prompt, state) : null;
+
+    if (!baseline) {
+      // Select model before querying
+      const modelSwitchStartedAt = Date.now();
+      state.model = await this.selectModel(state.modelName, strict);
+      this.timings.modelSwitchMs = Date.now() - modelSwitchStartedAt;
+
+      this.log('Submitting prompt...');
+
+      // Wait for input to be ready
+      const input = await this.waitForSelectorEntry('promptInput', { timeout: 10000 });
+
+      // Remember which assistant turns already exist. In a long thread the count alone
+      // is unreliable (history loads lazily), so turns are tracked by message id.
+      baseline = await this.snapshotAssistantMessages();
+      this.debug(`Initial assistant messages: ${baseline.count} (${baseline.ids.length} with ids)`);
+
+      await this.uploadAttachments(state.attachments);
+
+      // Fill and submit
+      await input.fill(prompt);
+      await this.page.waitForTimeout(500);
+      await this.waitForUploadsToFinish(state.attachments, state.timeout);
+      await this.page.keyboard.press('Enter');
+      state.submitted = true;
+      state.submittedAt = Date.now();
+      await this.failIfComposerError('Prompt submission');
+    }
+
+    const model = state.model ?? (await this.describeCurrentModel(state.modelName));
+    const submittedAt = state.submittedAt ?? Date.now();
 
     this.log('Waiting for response...');
 
-    const responseTimeout = this.getResponseTimeout();
+    const responseTimeout = this.getResponseTimeout(state.modelName, state.timeout);
     const pollIntervalMs = 2000;
     const responseDeadline = Date.now() + responseTimeout;
+    let responseMessage: Locator | null = null;
 
     while (Date.now() < responseDeadline) {
       await this.failIfComposerError('Prompt submission');
 
-      const currentCount = await this.page.locator('[data-message-author-role="assistant"]').count();
-      if (currentCount > initialMessages) {
-        this.debug(`New assistant message detected (${currentCount} > ${initialMessages})`);
+      responseMessage = await this.findNewAssistantMessage(baseline);
+      if (responseMessage) {
         break;
       }
 
@@ -928,12 +1729,260 @@ export class ChatGPT {
       await this.page.waitForTimeout(pollIntervalMs);
     }
 
-    const confirmedCount = await this.page.locator('[data-message-author-role="assistant"]').count();
-    if (confirmedCount <= initialMessages) {
-      throw new Error(`Response timeout after ${responseTimeout}ms`);
+    if (!responseMessage) {
+      throw new ChatGPTError(`Response timeout after ${responseTimeout}ms`, 'timeout');
+    }
+
+    this.recordConversation(state.modelName);
+
+    let firstTokenAt: number | null = null;
+    const reportProgress = this.createProgressReporter(options.onProgress);
+    const onText = (text: string) => {
+      if (firstTokenAt === null && text.length > 0) {
+        firstTokenAt = Date.now();
+      }
+      reportProgress(text);
+    };
+
+    if (options.onProgress) {
+      await this.startResponseObserver(baseline, onText);
+    }
+
+    try {
+      const { text, extraction } = await this.waitForStableResponse(
+        responseMessage,
+        baseline,
+        responseDeadline,
+        responseTimeout,
+        onText
+      );
+      const completedAt = new Date();
+      this.recordConversation(state.modelName);
+      this.timings.firstTokenMs = firstTokenAt !== null ? firstTokenAt - submittedAt : undefined;
+      this.timings.completionMs = completedAt.getTime() - submittedAt;
+      this.debug(`Response extracted via ${extraction}`);
+
+      const confirmedModel = await this.confirmAnsweringModel(model, responseMessage, strict, text);
+
+      options.onProgress?.({ type: 'done', text });
+      return {
+        response: text,
+        model: confirmedModel,
+        conversation: this.conversation,
+        prompt: { chars: prompt.length, tokens: countTokens(prompt) },
+        attachments: state.attachments.map(({ name, bytes }) => ({ name, bytes })),
+        timings: { ...this.timings },
+        extraction,
+        completedAt: completedAt.toISOString(),
+      };
+    } finally {
+      await this.stopResponseObserver();
+    }
+  }
+
+  private async uploadAttachments(attachments: Attachment[]): Promise<void> {
+    if (!this.page || attachments.length === 0) return;
+
+    this.log(`Uploading ${attachments.length} attachment${attachments.length === 1 ? '' : 's'}...`);
+
+    // The composer has several hidden file inputs; some only accept images.
+    const inputs = this.anySelector('fileInput');
+    await inputs.first().waitFor({ state: 'attached', timeout: 10000 }).catch(() => {});
+    const count = await inputs.count();
+    if (count === 0) {
+      throw new ChatGPTError('No file upload input found in the composer; attachments may be unavailable for this model', 'attachment');
+    }
+
+    let input = inputs.first();
+    for (let i = 0; i < count; i++) {
+      const accept = (await inputs.nth(i).getAttribute('accept')) ?? '';
+      if (!accept || accept.split(',').some((type) => !type.trim().startsWith('image/'))) {
+        input = inputs.nth(i);
+        break;
+      }
+    }
+
+    const multiple = await input.evaluate((element) => (element as HTMLInputElement).multiple);
+    if (multiple) {
+      await input.setInputFiles(attachments.map((attachment) => attachment.path));
+    } else {
+      for (const attachment of attachments) {
+        await input.setInputFiles(attachment.path);
+        await this.page.waitForTimeout(500);
+        await this.failIfComposerError(`Upload of ${attachment.name}`);
+      }
+    }
+  }
+
+  /**
+   * Waits until the attachments show up in the composer, no upload progress
+   * indicator is left and the send button is enabled. Rejections are shown as
+   * alerts and surface through `failIfComposerError`.
+   */
+  private async waitForUploadsToFinish(attachments: Attachment[], timeout: number = this.timeout): Promise<void> {
+    if (!this.page || attachments.length === 0) return;
+
+    const uploadTimeout = Math.max(timeout, ATTACHMENT_UPLOAD_TIMEOUT_MS);
+    const deadline = Date.now() + uploadTimeout;
+    const names = attachments.map((attachment) => attachment.name);
+    let idleSince: number | null = null;
+
+    while (Date.now() < deadline) {
+      await this.failIfComposerError('Attachment upload');
+
+      const status = await this.page.evaluate(({ fileNames, selectors }) => {
+        const composer =
+          document.querySelector(selectors.composer) ?? document.querySelector('form') ?? document.body;
+        const text = composer.textContent ?? '';
+        const pending = composer.querySelectorAll(selectors.uploadProgress).length;
+        const named = fileNames.filter((name) => text.includes(name)).length;
+        const previews = composer.querySelectorAll('img').length;
+        const sendButton = document.querySelector<HTMLButtonElement>(selectors.sendButton);
+        const sendEnabled =
+          !!sendButton && !sendButton.disabled && sendButton.getAttribute('aria-disabled') !== 'true';
+        return { pending, shown: named + previews, sendEnabled };
+      }, {
+        fileNames: names,
+        selectors: {
+          composer: this.css('composer'),
+          uploadProgress: this.css('uploadProgress'),
+          sendButton: this.css('sendButton'),
+        },
+      });
+
+      if (status.pending === 0 && status.sendEnabled) {
+        if (status.shown >= names.length) {
+          this.debug(`Attachments uploaded (${status.shown} shown in composer)`);
+          return;
+        }
+        // Long names are truncated in the tiles, so an idle composer that
+        // accepts sending is taken as done after a short grace period.
+        idleSince ??= Date.now();
+        if (Date.now() - idleSince > 5000) {
+          this.debug(`Only ${status.shown}/${names.length} attachments recognised, but uploads look finished`);
+          return;
+        }
+      } else {
+        idleSince = null;
+      }
+
+      await this.page.waitForTimeout(500);
     }
 
+    throw new ChatGPTError(
+      `Attachments did not finish uploading within ${Math.round(uploadTimeout / 1000)}s`,
+      'timeout'
+    );
+  }
+
+  /**
+   * Reloads the page after a failed attempt. Returns the assistant snapshot to
+   * wait against when the submitted prompt is already in the conversation, or
+   * null when the prompt has to be (re)submitted.
+   */
+  private async recoverForRetry(prompt: string, state: QueryAttemptState): Promise<AssistantSnapshot | null> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    const target = state.submitted ? this.conversation : state.startConversation;
+    const url = target?.url ?? this.baseUrl;
+    this.debug(`Reloading ${url} before retrying`);
+
+    await this.page.goto(url, { waitUntil: 'domcontentloaded', timeout: this.timeout });
+    await this.ensureComposerReady();
+
+    if (!(await this.checkIfLoggedIn())) {
+      throw new ChatGPTError('Session expired while retrying; please run: gpt5 login', 'session-expired');
+    }
+
+    if (!target) {
+      return null;
+    }
+
+    await this.waitForThreadToSettle();
+
+    if (!state.submitted) {
+      return null;
+    }
+
+    const pending = await this.findPendingTurn(prompt);
+    if (!pending) {
+      this.debug('Submitted prompt is not in the conversation; it will be sent again');
+      state.submitted = false;
+      state.submittedAt = null;
+      return null;
+    }
+
+    this.log('Prompt already in conversation; waiting for the pending response instead of resending');
+    return pending;
+  }
+
+  /**
+   * Returns the assistant turns that precede the last user message when that
+   * message is the given prompt, so a reply to it can be detected as "new".
+   */
+  private async findPendingTurn(prompt: string): Promise<AssistantSnapshot | null> {
+    if (!this.page) return null;
+
+    const turn = await this.page.evaluate(({ userSelector, assistantSelector }) => {
+      const nodes = Array.from(document.querySelectorAll(`${userSelector}, ${assistantSelector}`));
+      let lastUserIndex = -1;
+      nodes.forEach((node, index) => {
+        if (node.matches(userSelector)) lastUserIndex = index;
+      });
+      if (lastUserIndex < 0) return null;
+
+      const before = nodes.slice(0, lastUserIndex).filter((node) => node.matches(assistantSelector));
+      return {
+        userText: ((nodes[lastUserIndex] as HTMLElement).innerText || '').replace(/\s+/g, ' ').trim(),
+        count: before.length,
+        ids: before.map((node) => node.getAttribute('data-message-id')).filter((id): id is string => Boolean(id)),
+      };
+    }, { userSelector: this.css('userMessage'), assistantSelector: this.css('assistantMessage') });
+
+    if (!turn) return null;
+
+    const expected = prompt.replace(/\s+/g, ' ').trim();
+    const compareLength = Math.min(200, expected.length, turn.userText.length);
+    if (compareLength === 0 || expected.slice(0, compareLength) !== turn.userText.slice(0, compareLength)) {
+      return null;
+    }
+
+    return { count: turn.count, ids: turn.ids };
+  }
+
+  /**
+   * Describes the selected model without touching the picker, for answers
+   * picked up after a reload. The picker label still confirms the model when
+   * it matches, so a turn without model metadata does not fail strict mode.
+   */
+  private async describeCurrentModel(modelName: string): Promise<ModelSelection> {
+    const definition = this.resolveModelDefinition(modelName);
+    const confirmed =
+      !!definition && (await this.isModelAlreadySelected(this.anySelector('modelSwitcher', true).first(), definition));
+    return {
+      requested: modelName,
+      resolved: definition?.key ?? null,
+      displayName: definition?.displayName ?? null,
+      confirmed,
+      confirmedBy: confirmed ? ['picker'] : [],
+      label: await this.getCurrentModelLabel(),
+      answeredBy: null,
+    };
+  }
+
+  private async waitForStableResponse(
+    initialMessage: Locator,
+    baseline: AssistantSnapshot,
+    responseDeadline: number,
+    responseTimeout: number,
+    onText: (text: string) => void
+  ): Promise<{ text: string; extraction: ExtractionMethod }> {
+    if (!this.page) throw new Error('Browser not initialized');
+
+    let responseMessage = initialMessage;
+
     // Wait for response to stabilize
+    let sawText = false;
     let previousLength = 0;
     let stableCount = 0;
     const requiredStableChecks = 3;
@@ -942,16 +1991,17 @@ export class ChatGPT {
       await this.failIfComposerError('Response generation');
       await this.page.waitForTimeout(2000);
 
-      const messages = await this.page.locator('[data-message-author-role="assistant"]').all();
-      if (messages.length === 0) {
-        this.debug('Assistant message collection empty, waiting...');
+      if ((await responseMessage.count()) === 0) {
+        this.debug('Assistant response message not attached, re-resolving...');
+        responseMessage = (await this.findNewAssistantMessage(baseline)) ?? responseMessage;
         continue;
       }
 
-      const lastMessage = messages[messages.length - 1];
-      const currentText = await lastMessage.evaluate((node) => (node as HTMLElement).innerText || '');
+      const currentText = await responseMessage.evaluate((node) => (node as HTMLElement).innerText || '');
       const trimmedText = currentText.trim();
       const currentLength = trimmedText.length;
+      onText(trimmedText);
+      sawText ||= currentLength > 0;
 
       if (currentLength === 0) {
         if (this.verbose) {
@@ -972,23 +2022,169 @@ export class ChatGPT {
       }
 
       if (stableCount >= requiredStableChecks) {
-        if (trimmedText.length === 0) {
-          throw new Error('Empty response received');
-        }
-
-        const copied = await this.copyAssistantResponse(lastMessage);
+        const copied = await this.copyAssistantResponse(responseMessage);
         if (copied && copied.trim().length > 0) {
-          return copied.trim();
+          if (clipboardMatchesText(copied, trimmedText)) {
+            return { text: copied.trim(), extraction: 'clipboard' };
+          }
+          this.log('Copied text does not match the assistant message; using page text instead', 'warn');
         }
 
-        return trimmedText;
+        return { text: trimmedText, extraction: 'innerText' };
       }
     }
 
-    throw new Error(`Response timeout after ${responseTimeout}ms`);
+    if (!sawText) {
+      throw new ChatGPTError(`Empty response received (nothing written within ${responseTimeout}ms)`, 'empty-response');
+    }
+    throw new ChatGPTError(`Response timeout after ${responseTimeout}ms`, 'timeout');
+  }
+
+  private createProgressReporter(onProgress?: (event: ResponseStreamEvent) => void): (text: string) => void {
+    let lastText = '';
+    return (text: string) => {
+      if (!onProgress || text === lastText) return;
+      const delta = text.startsWith(lastText) ? text.slice(lastText.length) : text;
+      lastText = text;
+      onProgress({ type: 'delta', delta, text });
+    };
+  }
+
+  /**
+   * Installs a MutationObserver in the page that pushes the growing assistant
+   * message back to Node, so progress is reported between the 2s polls.
+   */
+  private async startResponseObserver(baseline: AssistantSnapshot, onText: (text: string) => void): Promise<void> {
+    if (!this.page) return;
+
+    this.streamHandler = onText;
+    if (!this.streamBindingInstalled) {
+      await this.page.exposeBinding('__gpt5StreamUpdate', (_source, text: string) => {
+        this.streamHandler?.(text);
+      });
+      this.streamBindingInstalled = true;
+    }
+
+    await this.page.evaluate(({ knownIds, knownCount, assistantSelector }) => {
+      const win = window as any;
+      win.__gpt5StreamObserver?.disconnect();
+
+      const known = new Set(knownIds);
+      let scheduled = false;
+      let lastSent = '';
+
+      const flush = () => {
+        scheduled = false;
+        const nodes = Array.from(document.querySelectorAll(assistantSelector));
+        const last = nodes[nodes.length - 1] as HTMLElement | undefined;
+        if (!last) return;
+        const id = last.getAttribute('data-message-id');
+        const isNew = id ? !known.has(id) : nodes.length > knownCount;
+        if (!isNew) return;
+        const text = (last.innerText || '').trim();
+        if (text && text !== lastSent) {
+          lastSent = text;
+          win.__gpt5StreamUpdate(text);
+        }
+      };
+
+      const observer = new MutationObserver(() => {
+        if (scheduled) return;
+        scheduled = true;
+        setTimeout(flush, 200);
+      });
+      observer.observe(document.body, { childList: true, subtree: true, characterData: true });
+      win.__gpt5StreamObserver = observer;
+      flush();
+    }, { knownIds: baseline.ids, knownCount: baseline.count, assistantSelector: this.css('assistantMessage') });
+  }
+
+  private async stopResponseObserver(): Promise<void> {
+    this.streamHandler = null;
+    if (!this.page) return;
+
+    await this.page
+      .evaluate(() => {
+        const win = window as any;
+        win.__gpt5StreamObserver?.disconnect();
+        win.__gpt5StreamObserver = undefined;
+      })
+      .catch(() => {});
+  }
+
+  private async snapshotAssistantMessages(): Promise<AssistantSnapshot> {
+    if (!this.page) return { count: 0, ids: [] };
+
+    return await this.page.evaluate((selector) => {
+      const nodes = Array.from(document.querySelectorAll(selector));
+      const ids = nodes
+        .map((node) => node.getAttribute('data-message-id'))
+        .filter((id): id is string => Boolean(id));
+      return { count: nodes.length, ids };
+    }, this.css('assistantMessage'));
+  }
+
+  private async findNewAssistantMessage(baseline: AssistantSnapshot): Promise<Locator | null> {
+    if (!this.page) return null;
+
+    const assistantSelector = this.css('assistantMessage');
+    const latest = await this.page.evaluate(({ knownIds, selector }) => {
+      const known = new Set(knownIds);
+      const nodes = Array.from(document.querySelectorAll(selector));
+      const last = nodes[nodes.length - 1];
+      if (!last) return { count: 0, id: null, isNew: false };
+      const id = last.getAttribute('data-message-id');
+      return { count: nodes.length, id, isNew: id ? !known.has(id) : false };
+    }, { knownIds: baseline.ids, selector: assistantSelector });
+
+    if (latest.id) {
+      if (!latest.isNew) return null;
+      this.debug(`New assistant message detected (id ${latest.id})`);
+      return this.page
+        .locator(assistantSelector)
+        .and(this.page.locator(`[data-message-id="${latest.id}"]`))
+        .first();
+    }
+
+    // Without message ids fall back to counting turns.
+    if (latest.count > baseline.count) {
+      this.debug(`New assistant message detected (${latest.count} > ${baseline.count})`);
+      return this.page.locator(assistantSelector).last();
+    }
+
+    return null;
+  }
+
+  private recordConversation(modelName: string) {
+    if (!this.page) return;
+
+    const ref = conversationFromUrl(this.page.url());
+    if (!ref) {
+      this.debug(`No conversation id in URL yet (${this.page.url()})`);
+      return;
+    }
+
+    if (this.conversation?.id !== ref.id) {
+      this.debug(`Conversation URL: ${ref.url}`);
+    }
+    this.conversation = ref;
+
+    try {
+      writeLastConversation(this.stateDir, {
+        ...ref,
+        model: modelName,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.debug(`Failed to record last conversation: ${error}`);
+    }
   }
 
   async close() {
+    if (!this.ownsBrowser) {
+      await this.page?.close().catch(() => {});
+      return;
+    }
     if (this.browser) {
       await this.browser.close();
     }
@@ -997,30 +2193,27 @@ export class ChatGPT {
   private async waitForAuthenticatedSession(maxWaitMs: number = 90000): Promise<boolean> {
     if (!this.page) return false;
 
-    const sessionCookieNames = new Set([
-      '__Secure-next-auth.session-token',
-      'next-auth.session-token',
-      '__Secure-openai-session-token',
-      'openai-session',
-    ]);
+    const sessionCookieNames = new Set(SESSION_COOKIE_NAMES);
+    const origin = new URL(this.baseUrl).origin;
 
     try {
-      await this.page.waitForURL(/chatgpt\.com/i, { timeout: maxWaitMs }).catch(() => undefined);
+      // The login pages live on another origin and redirect back when done.
+      await this.page.waitForURL((url) => url.origin === origin, { timeout: maxWaitMs }).catch(() => undefined);
       const start = Date.now();
       while (Date.now() - start < maxWaitMs) {
         const hasSessionCookie = this.context
-          ? (await this.context.cookies('https://chatgpt.com')).some((cookie) =>
+          ? (await this.context.cookies(this.baseUrl)).some((cookie) =>
               sessionCookieNames.has(cookie.name)
             )
           : false;
 
-        const domLoggedIn = await this.page.evaluate(() => {
+        const domLoggedIn = await this.page.evaluate((composerSelector) => {
           const data = (window as any).__NEXT_DATA__;
           const props = data?.props?.pageProps;
           const user = props?.user || props?.session?.user || props?.account;
           if (user) return true;
 
-          const composer = document.querySelector('[data-testid="composer"] textarea, textarea#prompt-textarea');
+          const composer = document.querySelector(composerSelector);
           const hasHistorySection =
             document.body.innerText.includes('New chat') &&
             (document.body.innerText.includes('Search chats') || document.body.innerText.includes('GPTs'));
@@ -1028,7 +2221,7 @@ export class ChatGPT {
           const hasTemporaryBanner = document.body.innerText.includes('Temporary Chat');
 
           return Boolean(composer && (hasHistorySection || hasProBadge) && !hasTemporaryBanner);
-        });
+        }, this.css('promptInput'));
 
         if (hasSessionCookie || domLoggedIn) {
           this.debug(
@@ -1053,18 +2246,18 @@ export class ChatGPT {
     if (!this.page) return false;
 
     try {
-      const hasSession = await this.page.evaluate(() => {
+      const hasSession = await this.page.evaluate((composerSelector) => {
         const data = (window as any).__NEXT_DATA__;
         const props = data?.props?.pageProps;
         const user = props?.user || props?.session?.user || props?.account;
         if (user) return true;
 
-        const composer = document.querySelector('[data-testid="composer"] textarea, textarea#prompt-textarea');
+        const composer = document.querySelector(composerSelector);
         const history = document.body.innerText.includes('Search chats') || document.body.innerText.includes('New chat');
         const notTemporary = !document.body.innerText.includes('Temporary Chat');
 
         return Boolean(composer && history && notTemporary);
-      });
+      }, this.css('promptInput'));
 
       if (hasSession) {
         this.debug('Detected authenticated session payload');
@@ -1075,14 +2268,9 @@ export class ChatGPT {
     }
 
     if (this.context) {
-      const sessionCookieNames = new Set([
-        '__Secure-next-auth.session-token',
-        'next-auth.session-token',
-        '__Secure-openai-session-token',
-        'openai-session',
-      ]);
-
-      const cookies = await this.context.cookies('https://chatgpt.com');
+      const sessionCookieNames = new Set(SESSION_COOKIE_NAMES);
+
+      const cookies = await this.context.cookies(this.baseUrl);
       if (cookies.some((cookie) => sessionCookieNames.has(cookie.name))) {
         this.debug('Detected authenticated session via cookies');
         return true;
@@ -1092,8 +2280,7 @@ export class ChatGPT {
     return false;
   }
 
-  private getResponseTimeout(): number {
-    const base = this.timeout;
+  private getResponseTimeout(modelName: string = this.model, base: number = this.timeout): number {
     const longRunningModels = [
       'gpt-5',
       'gpt5',
@@ -1102,7 +2289,7 @@ export class ChatGPT {
       'gpt-5-thinking',
       'gpt5-thinking'
     ];
-    const normalizedModel = this.model.toLowerCase().replace(/[\s_]+/g, '-');
+    const normalizedModel = modelName.toLowerCase().replace(/[\s_]+/g, '-');
     const requiresLongTimeout = longRunningModels.some((name) => normalizedModel.includes(name));
     const minimum = requiresLongTimeout ? 30 * 60 * 1000 : 0; // 30 minutes
     return Math.max(base, minimum);
@@ -1116,42 +2303,33 @@ export class ChatGPT {
       await message.hover({ timeout: 2000 }).catch(() => {});
       await this.page.waitForTimeout(150);
 
-      let copyButton = message.locator('[data-testid="copy-turn-action-button"]').first();
+      let copyButton = (await this.findSelector('copyButton', { root: message }))?.first() ?? null;
 
-      if ((await copyButton.count()) === 0) {
+      if (!copyButton) {
         const messageId = await message.getAttribute('data-message-id');
-        if (messageId) {
-          copyButton = this.page.locator(`[data-testid="copy-turn-action-button"][data-message-id="${messageId}"]`).first();
+        const forMessage = messageId
+          ? this.anySelector('copyButton').and(this.page.locator(`[data-message-id="${messageId}"]`)).first()
+          : null;
+        if (forMessage && (await forMessage.count()) > 0) {
+          copyButton = forMessage;
         }
       }
 
-      if ((await copyButton.count()) === 0) {
-        copyButton = this.page.locator('[data-testid="copy-turn-action-button"]:visible').last();
-      }
+      copyButton ??= (await this.findSelector('copyButton', { visible: true }))?.last() ?? null;
 
-      if ((await copyButton.count()) === 0) {
+      if (!copyButton) {
         this.debug('Copy button not found for assistant message');
         return null;
       }
 
       await copyButton.waitFor({ state: 'visible', timeout: 2000 }).catch(() => {});
 
-      const before = await this.page.evaluate(async () => {
-        try {
-          return await navigator.clipboard.readText();
-        } catch (error) {
-          return null;
-        }
-      });
-
-      await copyButton.hover({ timeout: 2000 }).catch(() => {});
-      await copyButton.click({ timeout: 3000 });
-
-      const timeout = Date.now() + 3000;
-      let clip: string | null = null;
-
-      while (Date.now() < timeout) {
-        clip = await this.page.evaluate(async () => {
+      // The clipboard is shared by every tab in the context, so copy-and-read is
+      // serialized across tabs, and the tab is focused for clipboard access.
+      const page = this.page;
+      const clip = await this.clipboardLock.run(async () => {
+        await page.bringToFront();
+        const before = await page.evaluate(async () => {
           try {
             return await navigator.clipboard.readText();
           } catch (error) {
@@ -1159,17 +2337,34 @@ export class ChatGPT {
           }
         });
 
-        if (clip && clip.trim().length > 0 && clip !== before) {
-          break;
-        }
+        await copyButton.hover({ timeout: 2000 }).catch(() => {});
+        await copyButton.click({ timeout: 3000 });
 
-        await this.page.waitForTimeout(150);
-      }
+        const timeout = Date.now() + 3000;
+        let copied: string | null = null;
 
-      if (!clip || clip.trim().length === 0) {
-        this.debug('Clipboard returned empty or unchanged content after copy');
-        return null;
-      }
+        while (Date.now() < timeout) {
+          copied = await page.evaluate(async () => {
+            try {
+              return await navigator.clipboard.readText();
+            } catch (error) {
+              return null;
+            }
+          });
+
+          if (copied && copied.trim().length > 0 && copied !== before) {
+            break;
+          }
+
+          await page.waitForTimeout(150);
+        }
+
+        if (!copied || copied.trim().length === 0) {
+          this.debug('Clipboard returned empty or unchanged content after copy');
+          return null;
+        }
+        return copied;
+      });
 
       return clip;
     } catch (error) {
@@ -1178,3 +2373,17 @@ export class ChatGPT {
     }
   }
 }
+
+/**
+ * Sanity check that clipboard markdown belongs to the rendered message: most of
+ * the leading words of the page text must appear in the copied text.
+ */
+function clipboardMatchesText(clipboard: string, pageText: string): boolean {
+  const words = (value: string) => value.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const sample = words(pageText).slice(0, 20);
+  if (sample.length === 0) return true;
+
+  const copied = new Set(words(clipboard));
+  const matched = sample.filter((word) => copied.has(word)).length;
+  return matched / sample.length >= 0.8;
+}
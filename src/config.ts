@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseDuration } from './cache.js';
+import { getProfileDir, getRootDir } from './paths.js';
+import { writePrivateFile } from './state.js';
+
+const CONFIG_FILE = 'config.json';
+
+type ConfigValueType = 'string' | 'integer' | 'boolean' | 'duration' | 'enum';
+
+interface ConfigKeySpec {
+  type: ConfigValueType;
+  /** Environment variable that overrides the config files. */
+  env: string;
+  description: string;
+  /** Allowed values of an `enum` key. */
+  values?: readonly string[];
+  /** Smallest allowed value of an `integer` key. */
+  min?: number;
+}
+
+/**
+ * Settings that can be given defaults in `config.json`. Each key is the
+ * attribute name of the command-line option it fills in, so `timeout` is the
+ * default for `-t, --timeout` on every command that has it.
+ */
+export const CONFIG_SCHEMA = {
+  model: { type: 'string', env: 'GPT5_MODEL', description: 'Model to use (-m)' },
+  timeout: { type: 'integer', env: 'GPT5_TIMEOUT', min: 1, description: 'Timeout in milliseconds (-t)' },
+  retries: { type: 'integer', env: 'GPT5_RETRIES', min: 0, description: 'Number of retries (-r)' },
+  visible: { type: 'boolean', env: 'GPT5_VISIBLE', description: 'Show the browser window (-v)' },
+  verbose: { type: 'boolean', env: 'GPT5_VERBOSE', description: 'Enable verbose logging' },
+  maxPromptChars: {
+    type: 'integer',
+    env: 'GPT5_MAX_PROMPT_CHARS',
+    min: 1,
+    description: 'Largest prompt in characters the composer accepts',
+  },
+  maxPromptTokens: {
+    type: 'integer',
+    env: 'GPT5_MAX_PROMPT_TOKENS',
+    min: 1,
+    description: 'Largest prompt in tokens the composer accepts',
+  },
+  autoLogin: { type: 'boolean', env: 'GPT5_AUTO_LOGIN', description: 'Log in again when the session has expired' },
+  strictModel: {
+    type: 'boolean',
+    env: 'GPT5_STRICT_MODEL',
+    description: 'Fail unless the requested model is confirmed',
+  },
+  cacheTtl: { type: 'duration', env: 'GPT5_CACHE_TTL', description: 'Maximum age of cached answers, e.g. 12h' },
+  output: {
+    type: 'enum',
+    env: 'GPT5_OUTPUT',
+    values: ['text', 'json', 'jsonl'],
+    description: 'Output format (-o)',
+  },
+} satisfies Record<string, ConfigKeySpec>;
+
+export type ConfigKey = keyof typeof CONFIG_SCHEMA;
+export type ConfigValue = string | number | boolean;
+export type CliConfig = Partial<Record<ConfigKey, ConfigValue>>;
+
+/** Which layer a resolved value came from, lowest precedence first. */
+export type ConfigSource = 'global' | 'profile' | 'env';
+
+export interface ResolvedConfig {
+  values: CliConfig;
+  sources: Partial<Record<ConfigKey, ConfigSource>>;
+  /** Variable or file each value was read from, for `gpt5 config list`. */
+  origins: Partial<Record<ConfigKey, string>>;
+}
+
+export const CONFIG_KEYS = Object.keys(CONFIG_SCHEMA) as ConfigKey[];
+
+export function isConfigKey(key: string): key is ConfigKey {
+  return Object.prototype.hasOwnProperty.call(CONFIG_SCHEMA, key);
+}
+
+export function getGlobalConfigPath(): string {
+  return path.join(getRootDir(), CONFIG_FILE);
+}
+
+export function getProfileConfigPath(profile: string): string {
+  return path.join(getProfileDir(profile), CONFIG_FILE);
+}
+
+/**
+ * Reads and validates one config file. A missing file is an empty config;
+ * unknown keys and values of the wrong type are errors naming the file.
+ */
+export function readConfigFile(filePath: string): CliConfig {
+  const raw = readRawConfig(filePath);
+  const config: CliConfig = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!isConfigKey(key)) {
+      throw new Error(`${filePath}: unknown config key "${key}" (known keys: ${CONFIG_KEYS.join(', ')})`);
+    }
+    config[key] = validateConfigValue(key, value, `${filePath}: ${key}`);
+  }
+  return config;
+}
+
+/**
+ * Layers `~/.gpt5-pro-cli/config.json`, the profile's `config.json` and the
+ * `GPT5_*` environment variables; later layers win. Command-line flags are
+ * applied on top by the caller.
+ */
+export function resolveConfig(profile: string = 'default', env: NodeJS.ProcessEnv = process.env): ResolvedConfig {
+  const resolved: ResolvedConfig = { values: {}, sources: {}, origins: {} };
+  const layers: Array<[ConfigSource, string]> = [
+    ['global', getGlobalConfigPath()],
+    ['profile', getProfileConfigPath(profile)],
+  ];
+
+  for (const [source, filePath] of layers) {
+    for (const [key, value] of Object.entries(readConfigFile(filePath)) as Array<[ConfigKey, ConfigValue]>) {
+      resolved.values[key] = value;
+      resolved.sources[key] = source;
+      resolved.origins[key] = filePath;
+    }
+  }
+
+  for (const key of CONFIG_KEYS) {
+    const variable = CONFIG_SCHEMA[key].env;
+    const raw = env[variable];
+    if (raw === undefined || raw === '') continue;
+    resolved.values[key] = parseConfigValue(key, raw, variable);
+    resolved.sources[key] = 'env';
+    resolved.origins[key] = variable;
+  }
+
+  return resolved;
+}
+
+/** Parses a value given as text (`gpt5 config set`, environment variables). */
+export function parseConfigValue(key: ConfigKey, raw: string, where: string = key): ConfigValue {
+  const spec: ConfigKeySpec = CONFIG_SCHEMA[key];
+  const text = raw.trim();
+  switch (spec.type) {
+    case 'integer':
+      if (!/^-?\d+$/.test(text)) {
+        throw new Error(`${where} must be a whole number, got "${raw}"`);
+      }
+      return validateConfigValue(key, parseInt(text, 10), where);
+    case 'boolean':
+      if (/^(1|true|yes|on)$/i.test(text)) return true;
+      if (/^(0|false|no|off)$/i.test(text)) return false;
+      throw new Error(`${where} must be true or false, got "${raw}"`);
+    default:
+      return validateConfigValue(key, text, where);
+  }
+}
+
+export function validateConfigValue(key: ConfigKey, value: unknown, where: string = key): ConfigValue {
+  const spec: ConfigKeySpec = CONFIG_SCHEMA[key];
+  switch (spec.type) {
+    case 'string':
+      if (typeof value !== 'string' || !value.trim()) {
+        throw new Error(`${where} must be a non-empty string`);
+      }
+      return value;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < (spec.min ?? -Infinity)) {
+        throw new Error(`${where} must be a whole number${spec.min !== undefined ? ` of at least ${spec.min}` : ''}`);
+      }
+      return value;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`${where} must be true or false`);
+      }
+      return value;
+    case 'duration':
+      if (typeof value !== 'string') {
+        throw new Error(`${where} must be a duration such as "12h" or "7d"`);
+      }
+      try {
+        parseDuration(value);
+      } catch (error) {
+        throw new Error(`${where}: ${error instanceof Error ? error.message : error}`);
+      }
+      return value;
+    case 'enum':
+      if (typeof value !== 'string' || !spec.values?.includes(value)) {
+        throw new Error(`${where} must be one of: ${spec.values?.join(', ')}`);
+      }
+      return value;
+  }
+}
+
+/**
+ * Sets `key` in a config file, or removes it when `value` is undefined. Other
+ * entries are kept as they are, so a file with a bad entry can still be fixed
+ * from the command line. Returns whether the key was set before.
+ */
+export function writeConfigValue(filePath: string, key: string, value: ConfigValue | undefined): boolean {
+  const config = readRawConfig(filePath);
+  const existed = Object.prototype.hasOwnProperty.call(config, key);
+  if (value === undefined) {
+    if (!existed) return false;
+    delete config[key];
+  } else {
+    config[key] = value;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  writePrivateFile(filePath, `${JSON.stringify(config, null, 2)}\n`);
+  return existed;
+}
+
+function readRawConfig(filePath: string): Record<string, unknown> {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${filePath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new Error(`${filePath}: expected a JSON object`);
+  }
+  return config as Record<string, unknown>;
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const CHATGPT_BASE_URL = 'https://chatgpt.com/';
+
+const LAST_CONVERSATION_FILE = 'last-conversation.json';
+const CONVERSATION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CONVERSATION_PATH_PATTERN = /\/c\/([0-9a-f-]{36})(?:[/?#]|$)/i;
+
+export interface ConversationRef {
+  id: string;
+  url: string;
+}
+
+export interface LastConversation extends ConversationRef {
+  model: string;
+  updatedAt: string;
+}
+
+/**
+ * Accepts a bare conversation ID or any chatgpt.com URL that contains `/c/<id>`
+ * (including custom GPT URLs like `/g/<gpt>/c/<id>`).
+ */
+export function parseConversationRef(value: string, baseUrl: string = CHATGPT_BASE_URL): ConversationRef {
+  const trimmed = value.trim();
+
+  if (CONVERSATION_ID_PATTERN.test(trimmed)) {
+    return { id: trimmed.toLowerCase(), url: new URL(`/c/${trimmed.toLowerCase()}`, baseUrl).toString() };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    throw new Error(`Not a conversation ID or URL: ${value}`);
+  }
+
+  const match = parsed.pathname.match(CONVERSATION_PATH_PATTERN);
+  if (!match) {
+    throw new Error(`URL does not point at a conversation (expected /c/<id>): ${value}`);
+  }
+
+  parsed.search = '';
+  parsed.hash = '';
+  return { id: match[1].toLowerCase(), url: parsed.toString() };
+}
+
+/** Returns the conversation a page URL belongs to, or null for the new-chat page. */
+export function conversationFromUrl(url: string): ConversationRef | null {
+  try {
+    return parseConversationRef(url);
+  } catch {
+    return null;
+  }
+}
+
+export function readLastConversation(stateDir: string): LastConversation | null {
+  const filePath = path.join(stateDir, LAST_CONVERSATION_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if (typeof data?.id === 'string' && typeof data?.url === 'string') {
+      return data as LastConversation;
+    }
+  } catch {
+    // Treat an unreadable file the same as a missing one.
+  }
+  return null;
+}
+
+export function writeLastConversation(stateDir: string, conversation: LastConversation): void {
+  fs.mkdirSync(stateDir, { recursive: true });
+  fs.writeFileSync(path.join(stateDir, LAST_CONVERSATION_FILE), JSON.stringify(conversation, null, 2));
+}
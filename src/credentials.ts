@@ -1,41 +1,346 @@
-import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { Writable } from 'stream';
+import { execFileSync, execSync } from 'child_process';
+import { writePrivateFile } from './state.js';
 
-interface Credentials {
+const CREDENTIALS_CONFIG_FILE = 'credentials.json';
+
+export interface Credentials {
   email: string;
   password: string;
 }
 
-export async function getCredentials(): Promise<Credentials> {
-  const emailRef = process.env.ONEPASSWORD_EMAIL_REF || 'op://Private/OpenAI/username';
-  const passwordRef = process.env.ONEPASSWORD_PASSWORD_REF || 'op://Private/OpenAI/password';
+export interface CredentialProvider {
+  /** Short description used in log and error messages. */
+  readonly name: string;
+  /** True when the provider asks on the terminal, so it cannot be used unattended. */
+  readonly interactive?: boolean;
+  getCredentials(): Promise<Credentials>;
+  /** TOTP secret (base32 or an otpauth:// URI) for `--otp totp`, when the source can hold one. */
+  getTotpSecret?(): Promise<string>;
+  /** Key for encrypting the saved browser session (`--key-source credentials`). */
+  getStateKey?(): Promise<string>;
+}
+
+/**
+ * How a profile obtains its login. Only references are stored here, never the
+ * secrets themselves.
+ */
+export type CredentialProviderConfig =
+  | {
+      type: '1password';
+      emailRef?: string;
+      passwordRef?: string;
+      totpRef?: string;
+      stateKeyRef?: string;
+      account?: string;
+    }
+  | { type: 'env'; emailVar?: string; passwordVar?: string; totpVar?: string; stateKeyVar?: string }
+  | { type: 'command'; command: string }
+  | { type: 'pass'; entry: string; emailEntry?: string }
+  | { type: 'prompt'; email?: string };
+
+export const CREDENTIAL_PROVIDER_TYPES = ['1password', 'env', 'command', 'pass', 'prompt'] as const;
+
+/**
+ * Parses the `--credentials` value:
+ *
+ *   1password[:op://Vault/Item]   reads <item>/username and <item>/password
+ *   env[:EMAIL_VAR,PASSWORD_VAR]  defaults to GPT5_EMAIL and GPT5_PASSWORD
+ *   command:<shell command>       prints JSON {email, password} or two lines
+ *   pass:<entry>                  password on the first line, email on a login:/email: line
+ *   prompt[:email]                asks on the terminal with hidden password input
+ */
+export function parseCredentialSpec(spec: string): CredentialProviderConfig {
+  const separator = spec.indexOf(':');
+  const type = (separator === -1 ? spec : spec.slice(0, separator)).trim().toLowerCase();
+  const argument = separator === -1 ? '' : spec.slice(separator + 1).trim();
+
+  switch (type) {
+    case '1password':
+    case 'op': {
+      if (!argument) return { type: '1password' };
+      const item = argument.replace(/\/+$/, '');
+      return {
+        type: '1password',
+        emailRef: `${item}/username`,
+        passwordRef: `${item}/password`,
+        totpRef: `${item}/one-time password`,
+        stateKeyRef: `${item}/session key`,
+      };
+    }
+    case 'env': {
+      if (!argument) return { type: 'env' };
+      const [emailVar, passwordVar] = argument.split(',').map((name) => name.trim());
+      if (!emailVar || !passwordVar) {
+        throw new Error('Expected --credentials env:EMAIL_VAR,PASSWORD_VAR');
+      }
+      return { type: 'env', emailVar, passwordVar };
+    }
+    case 'command':
+      if (!argument) throw new Error('Expected --credentials command:<command>');
+      return { type: 'command', command: argument };
+    case 'pass':
+      if (!argument) throw new Error('Expected --credentials pass:<entry>');
+      return { type: 'pass', entry: argument };
+    case 'prompt':
+      return argument ? { type: 'prompt', email: argument } : { type: 'prompt' };
+    default:
+      throw new Error(
+        `Unknown credential provider "${type}" (expected one of: ${CREDENTIAL_PROVIDER_TYPES.join(', ')})`
+      );
+  }
+}
+
+export function createCredentialProvider(config: CredentialProviderConfig): CredentialProvider {
+  switch (config.type) {
+    case '1password':
+      return onePasswordProvider(config);
+    case 'env':
+      return envProvider(config);
+    case 'command':
+      return commandProvider(config);
+    case 'pass':
+      return passProvider(config);
+    case 'prompt':
+      return promptProvider(config);
+  }
+}
+
+export function readCredentialConfig(stateDir: string): CredentialProviderConfig | null {
+  const filePath = path.join(stateDir, CREDENTIALS_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
 
   try {
-    const email = stripTrailingNewline(
-      execSync(`op read "${emailRef}"`, {
-        encoding: 'utf-8',
-      })
-    );
-    const password = stripTrailingNewline(
-      execSync(`op read "${passwordRef}"`, {
-        encoding: 'utf-8',
-      })
-    );
-
-    if (!email || !password) {
-      throw new Error('Email or password is empty from 1Password');
+    const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if ((CREDENTIAL_PROVIDER_TYPES as readonly string[]).includes(config?.type)) {
+      return config as CredentialProviderConfig;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error(`Invalid credential provider config in ${filePath}`);
+}
+
+export function writeCredentialConfig(stateDir: string, config: CredentialProviderConfig): void {
+  fs.mkdirSync(stateDir, { recursive: true });
+  writePrivateFile(path.join(stateDir, CREDENTIALS_CONFIG_FILE), JSON.stringify(config, null, 2));
+}
+
+/**
+ * The provider saved for the profile, else the one named by
+ * `GPT5_CREDENTIALS`, else 1Password.
+ */
+export function resolveCredentialProvider(stateDir: string): CredentialProvider {
+  const config =
+    readCredentialConfig(stateDir) ??
+    (process.env.GPT5_CREDENTIALS ? parseCredentialSpec(process.env.GPT5_CREDENTIALS) : { type: '1password' as const });
+  return createCredentialProvider(config);
+}
+
+function onePasswordProvider(config: Extract<CredentialProviderConfig, { type: '1password' }>): CredentialProvider {
+  const emailRef = config.emailRef ?? (process.env.ONEPASSWORD_EMAIL_REF || 'op://Private/OpenAI/username');
+  const passwordRef = config.passwordRef ?? (process.env.ONEPASSWORD_PASSWORD_REF || 'op://Private/OpenAI/password');
+  const totpRef = config.totpRef ?? (process.env.ONEPASSWORD_TOTP_REF || 'op://Private/OpenAI/one-time password');
+  const stateKeyRef = config.stateKeyRef ?? (process.env.ONEPASSWORD_STATE_KEY_REF || 'op://Private/OpenAI/session key');
+  const accountArgs = config.account ? ['--account', config.account] : [];
+  // References are passed as arguments, never through a shell.
+  const read = (ref: string) =>
+    stripTrailingNewline(execFileSync('op', ['read', ...accountArgs, ref], { encoding: 'utf-8' }));
+
+  return {
+    name: '1Password',
+    async getCredentials() {
+      try {
+        return requireCredentials({ email: read(emailRef), password: read(passwordRef) }, '1Password');
+      } catch (error) {
+        throw new Error(
+          `Failed to read credentials from 1Password.\n` +
+          `Make sure:\n` +
+          `  1. 1Password CLI is installed (op)\n` +
+          `  2. You're signed in: op signin\n` +
+          `  3. Item exists at: ${emailRef}\n` +
+          `Error: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    },
+    async getTotpSecret() {
+      try {
+        return read(totpRef);
+      } catch (error) {
+        throw new Error(`Failed to read TOTP secret ${totpRef} from 1Password: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    async getStateKey() {
+      try {
+        return read(stateKeyRef);
+      } catch (error) {
+        throw new Error(`Failed to read session key ${stateKeyRef} from 1Password: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+  };
+}
+
+function envProvider(config: Extract<CredentialProviderConfig, { type: 'env' }>): CredentialProvider {
+  const emailVar = config.emailVar ?? 'GPT5_EMAIL';
+  const passwordVar = config.passwordVar ?? 'GPT5_PASSWORD';
+  const totpVar = config.totpVar ?? 'GPT5_TOTP_SECRET';
+  const stateKeyVar = config.stateKeyVar ?? 'GPT5_STATE_KEY';
+
+  return {
+    name: `environment (${emailVar}, ${passwordVar})`,
+    async getCredentials() {
+      return requireCredentials(
+        { email: process.env[emailVar] ?? '', password: process.env[passwordVar] ?? '' },
+        `environment variables ${emailVar} and ${passwordVar}`
+      );
+    },
+    async getTotpSecret() {
+      const secret = process.env[totpVar];
+      if (!secret) throw new Error(`${totpVar} is not set`);
+      return secret;
+    },
+    async getStateKey() {
+      const key = process.env[stateKeyVar];
+      if (!key) throw new Error(`${stateKeyVar} is not set`);
+      return key;
+    },
+  };
+}
+
+function commandProvider(config: Extract<CredentialProviderConfig, { type: 'command' }>): CredentialProvider {
+  const run = (): { email: string; password: string; totp?: string; stateKey?: string } => {
+    let output: string;
+    try {
+      // The command is written by the user, so it is run through their shell as given.
+      output = execSync(config.command, { encoding: 'utf-8', stdio: ['inherit', 'pipe', 'inherit'] });
+    } catch (error) {
+      throw new Error(`Credential command failed: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const trimmed = output.trim();
+    if (trimmed.startsWith('{')) {
+      let parsed: { email?: unknown; password?: unknown; totp?: unknown; stateKey?: unknown };
+      try {
+        parsed = JSON.parse(trimmed);
+      } catch (error) {
+        throw new Error(`Credential command printed invalid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+      return {
+        email: String(parsed.email ?? ''),
+        password: String(parsed.password ?? ''),
+        totp: typeof parsed.totp === 'string' ? parsed.totp : undefined,
+        stateKey: typeof parsed.stateKey === 'string' ? parsed.stateKey : undefined,
+      };
     }
+    const [email = '', password = ''] = trimmed.split(/\r?\n/);
+    return { email: email.trim(), password };
+  };
+
+  return {
+    name: `command (${config.command})`,
+    async getCredentials() {
+      const { email, password } = run();
+      return requireCredentials({ email, password }, 'credential command');
+    },
+    async getTotpSecret() {
+      const { totp } = run();
+      if (!totp) throw new Error('Credential command did not print a "totp" field');
+      return totp;
+    },
+    async getStateKey() {
+      const { stateKey } = run();
+      if (!stateKey) throw new Error('Credential command did not print a "stateKey" field');
+      return stateKey;
+    },
+  };
+}
+
+function passProvider(config: Extract<CredentialProviderConfig, { type: 'pass' }>): CredentialProvider {
+  const show = (entry: string) => {
+    try {
+      return execFileSync('pass', ['show', entry], { encoding: 'utf-8', stdio: ['inherit', 'pipe', 'pipe'] });
+    } catch (error) {
+      throw new Error(`Failed to read "${entry}" from pass: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return {
+    name: `pass (${config.entry})`,
+    async getCredentials() {
+      const [password = '', ...rest] = show(config.entry).split(/\r?\n/);
+      let email = config.emailEntry ? show(config.emailEntry).split(/\r?\n/)[0] : '';
+      if (!email) {
+        const field = rest.map((line) => line.match(/^(?:login|email|user(?:name)?)\s*:\s*(.+)$/i)).find(Boolean);
+        email = field?.[1] ?? '';
+      }
+      return requireCredentials({ email: email.trim(), password }, `pass entry ${config.entry} (needs a login: line)`);
+    },
+    async getTotpSecret() {
+      // pass-otp convention: an otpauth:// URI on its own line.
+      const uri = show(config.entry)
+        .split(/\r?\n/)
+        .find((line) => line.trim().startsWith('otpauth://'));
+      if (!uri) throw new Error(`pass entry ${config.entry} has no otpauth:// line`);
+      return uri.trim();
+    },
+    async getStateKey() {
+      const field = show(config.entry)
+        .split(/\r?\n/)
+        .map((line) => line.match(/^session[ _-]?key\s*:\s*(.+)$/i))
+        .find(Boolean);
+      if (!field) throw new Error(`pass entry ${config.entry} has no "session-key:" line`);
+      return field[1].trim();
+    },
+  };
+}
+
+function promptProvider(config: Extract<CredentialProviderConfig, { type: 'prompt' }>): CredentialProvider {
+  return {
+    name: 'terminal prompt',
+    interactive: true,
+    async getCredentials() {
+      if (!process.stdin.isTTY) {
+        throw new Error('Cannot prompt for credentials: stdin is not a terminal');
+      }
+      const email = config.email ?? (await promptLine('ChatGPT email: '));
+      const password = await promptLine('ChatGPT password: ', true);
+      return requireCredentials({ email: email.trim(), password }, 'terminal prompt');
+    },
+  };
+}
+
+/** Reads one line from the terminal; with `hidden`, typed characters are not echoed. */
+export function promptLine(question: string, hidden: boolean = false): Promise<string> {
+  return new Promise((resolve) => {
+    // Readline echoes through its output stream, so hiding input means
+    // dropping writes once the question has been shown.
+    let muted = false;
+    const output = new Writable({
+      write(chunk, encoding, callback) {
+        if (!muted) process.stderr.write(chunk, encoding);
+        callback();
+      },
+    });
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: true });
+    rl.question(question, (answer) => {
+      rl.close();
+      if (hidden) process.stderr.write('\n');
+      resolve(answer);
+    });
+    muted = hidden;
+  });
+}
 
-    return { email, password };
-  } catch (error) {
-    throw new Error(
-      `Failed to read credentials from 1Password.\n` +
-      `Make sure:\n` +
-      `  1. 1Password CLI is installed (op)\n` +
-      `  2. You're signed in: op signin\n` +
-      `  3. Item exists at: ${emailRef}\n` +
-      `Error: ${error}`
-    );
+function requireCredentials(credentials: Credentials, source: string): Credentials {
+  if (!credentials.email || !credentials.password) {
+    throw new Error(`Email or password is empty from ${source}`);
   }
+  return credentials;
 }
 
 function stripTrailingNewline(value: string): string {
@@ -0,0 +1,449 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as readline from 'readline';
+import { spawn } from 'child_process';
+import { ChatGPT, type ChatGPTOptions, type QueryResult, type ResponseStreamEvent } from './chatgpt.js';
+import { ChatGPTError, classifyError, type ChatGPTErrorType } from './errors.js';
+import { getProfileDir } from './paths.js';
+import type { CacheMode } from './cache.js';
+import type { SplitPlan } from './split.js';
+import { PagePool } from './pool.js';
+
+const SOCKET_FILE = 'daemon.sock';
+const PID_FILE = 'daemon.pid';
+const LOG_FILE = 'daemon.log';
+const START_TIMEOUT_MS = 120_000;
+const STOP_TIMEOUT_MS = 15_000;
+// Failures that a logged-out page also produces, e.g. a composer that never appears.
+const SESSION_CHECK_TYPES = new Set<ChatGPTErrorType>(['session-expired', 'navigation', 'timeout']);
+
+export interface DaemonQueryParams {
+  prompt: string;
+  model?: string;
+  /** Conversation id or URL to continue; a new chat is used when omitted. */
+  conversation?: string;
+  /** Absolute paths of files to upload with the prompt. */
+  attachments?: string[];
+  cache?: CacheMode;
+  /** Overrides the daemon's strict-model setting (see `ChatGPTOptions.strictModel`). */
+  strictModel?: boolean;
+  /** Send `split.parts` first and answer `split.final` (see `planSplit`); `prompt` is ignored. */
+  split?: SplitPlan;
+  /** Whether to forward progress events while the answer is written. */
+  stream?: boolean;
+  /** Override the daemon's settings for this query (see `QueryOptions`). */
+  timeout?: number;
+  retries?: number;
+  maxPromptChars?: number;
+  maxPromptTokens?: number;
+  /** Log in again when the session has expired; defaults to the daemon's `--auto-login`. */
+  autoLogin?: boolean;
+}
+
+export interface DaemonStatus {
+  pid: number;
+  profile: string;
+  model: string;
+  startedAt: string;
+  uptimeMs: number;
+  queriesServed: number;
+  activeQueries: number;
+  concurrency: number;
+}
+
+export interface DaemonStartOptions {
+  profile: string;
+  model?: string;
+  timeout?: number;
+  retries?: number;
+  maxPromptChars?: number;
+  maxPromptTokens?: number;
+  strictModel?: boolean;
+  autoLogin?: boolean;
+  visible?: boolean;
+  verbose?: boolean;
+  concurrency?: number;
+}
+
+type DaemonRequest =
+  | { id: number; method: 'status' }
+  | { id: number; method: 'shutdown' }
+  | { id: number; method: 'query'; params: DaemonQueryParams };
+
+type DaemonMessage =
+  | { id: number; event: ResponseStreamEvent }
+  | { id: number; result: unknown }
+  | { id: number; error: { type: ChatGPTErrorType; message: string; response?: string; answeredBy?: string } };
+
+export function getDaemonPaths(profile: string) {
+  const dir = getProfileDir(profile);
+  return {
+    socket: path.join(dir, SOCKET_FILE),
+    pid: path.join(dir, PID_FILE),
+    log: path.join(dir, LOG_FILE),
+  };
+}
+
+/**
+ * Runs the daemon in the current process: one logged-in browser that takes
+ * queries over a Unix domain socket (newline-delimited JSON) until shut down.
+ * Up to `concurrency` queries run at once, each in its own tab.
+ */
+export async function runDaemon(
+  options: ChatGPTOptions & { profile: string; concurrency?: number; autoLogin?: boolean }
+): Promise<void> {
+  const paths = getDaemonPaths(options.profile);
+  const chatgpt = new ChatGPT({ ...options, logToStderr: true });
+  const startedAt = new Date();
+  const model = options.model ?? 'gpt-5-pro';
+  const pool = new PagePool(chatgpt, { concurrency: options.concurrency ?? 1 });
+  let queriesServed = 0;
+
+  if (await getDaemonStatus(options.profile)) {
+    throw new Error(`A daemon is already running for profile "${options.profile}"`);
+  }
+  removeStaleFiles(paths);
+
+  await chatgpt.initialize();
+  if (!(await chatgpt.checkSession())) {
+    if (!options.autoLogin) {
+      await chatgpt.close();
+      throw new Error(`Not logged in. Please run: gpt5 login --profile ${options.profile}`);
+    }
+    try {
+      await chatgpt.autoLogin();
+    } catch (error) {
+      await chatgpt.close();
+      throw error;
+    }
+  }
+
+  const sendQuery = async (tab: ChatGPT, params: DaemonQueryParams, onEvent?: (event: ResponseStreamEvent) => void) => {
+    if (params.conversation) {
+      await tab.openConversation(params.conversation);
+    } else {
+      await tab.newChat();
+    }
+    const queryOptions = {
+      model: params.model,
+      onProgress: onEvent,
+      attachments: params.attachments,
+      cache: params.cache,
+      strictModel: params.strictModel,
+      timeout: params.timeout,
+      retries: params.retries,
+      maxPromptChars: params.maxPromptChars,
+      maxPromptTokens: params.maxPromptTokens,
+    };
+    return params.split
+      ? await tab.querySplit(params.split, queryOptions)
+      : await tab.queryDetailed(params.prompt, queryOptions);
+  };
+
+  // The session is shared by every tab and can run out while the daemon is up.
+  // After a failure that a logged-out page would also cause, check the session
+  // again; when it is gone, log in (autoLogin's lock lets other tabs pick up the
+  // new session) and send the query once more, or report the expired session.
+  const runQuery = (params: DaemonQueryParams, onEvent?: (event: ResponseStreamEvent) => void) =>
+    pool.run(async (tab) => {
+      try {
+        try {
+          return await sendQuery(tab, params, onEvent);
+        } catch (error) {
+          const failure = classifyError(error);
+          const loggedIn = SESSION_CHECK_TYPES.has(failure.type) ? await tab.checkSession().catch(() => null) : null;
+          if (loggedIn !== false) {
+            throw failure;
+          }
+          if (!(params.autoLogin ?? options.autoLogin)) {
+            throw new ChatGPTError(
+              `Session expired. Please run: gpt5 login --profile ${options.profile} ` +
+                '(or pass --auto-login to log in with the saved credentials and OTP source)',
+              'session-expired',
+              { cause: error }
+            );
+          }
+          await tab.autoLogin();
+          return await sendQuery(tab, params, onEvent);
+        }
+      } finally {
+        queriesServed++;
+      }
+    });
+
+  const server = net.createServer((socket) => {
+    const send = (message: DaemonMessage) => {
+      if (!socket.destroyed) socket.write(`${JSON.stringify(message)}\n`);
+    };
+
+    const lines = readline.createInterface({ input: socket });
+    lines.on('line', async (line) => {
+      let request: DaemonRequest;
+      try {
+        request = JSON.parse(line);
+      } catch {
+        send({ id: -1, error: { type: 'unknown', message: 'Malformed request' } });
+        return;
+      }
+
+      try {
+        switch (request.method) {
+          case 'status': {
+            const status: DaemonStatus = {
+              pid: process.pid,
+              profile: options.profile,
+              model,
+              startedAt: startedAt.toISOString(),
+              uptimeMs: Date.now() - startedAt.getTime(),
+              queriesServed,
+              activeQueries: pool.stats.active,
+              concurrency: pool.stats.concurrency,
+            };
+            send({ id: request.id, result: status });
+            break;
+          }
+          case 'shutdown':
+            send({ id: request.id, result: { ok: true } });
+            await shutdown();
+            break;
+          case 'query': {
+            const onEvent = request.params.stream
+              ? (event: ResponseStreamEvent) => send({ id: request.id, event })
+              : undefined;
+            const result = await runQuery(request.params, onEvent);
+            send({ id: request.id, result });
+            break;
+          }
+          default:
+            throw new Error(`Unknown method ${(request as { method: string }).method}`);
+        }
+      } catch (error) {
+        const failure = classifyError(error);
+        const { type, message, response, answeredBy } = failure;
+        send({ id: request.id, error: { type, message, response, answeredBy } });
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  let shuttingDown = false;
+  const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error('Daemon shutting down');
+    server.close();
+    removeStaleFiles(paths);
+    await pool.close();
+    await chatgpt.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(paths.socket, () => {
+      fs.chmodSync(paths.socket, 0o600);
+      resolve();
+    });
+  });
+  fs.writeFileSync(paths.pid, String(process.pid));
+  console.error(`Daemon ready on ${paths.socket} (pid ${process.pid})`);
+}
+
+/** Starts `gpt5 daemon run` in the background and waits until it answers. */
+export async function startDaemon(options: DaemonStartOptions): Promise<DaemonStatus> {
+  const existing = await getDaemonStatus(options.profile);
+  if (existing) {
+    return existing;
+  }
+
+  const paths = getDaemonPaths(options.profile);
+  fs.mkdirSync(path.dirname(paths.log), { recursive: true });
+  const logFd = fs.openSync(paths.log, 'a');
+
+  const args = [...process.execArgv, process.argv[1], 'daemon', 'run', '--profile', options.profile];
+  if (options.model) args.push('--model', options.model);
+  if (options.timeout !== undefined) args.push('--timeout', String(options.timeout));
+  if (options.retries !== undefined) args.push('--retries', String(options.retries));
+  if (options.maxPromptChars !== undefined) args.push('--max-prompt-chars', String(options.maxPromptChars));
+  if (options.maxPromptTokens !== undefined) args.push('--max-prompt-tokens', String(options.maxPromptTokens));
+  if (options.strictModel !== undefined) args.push(options.strictModel ? '--strict-model' : '--no-strict-model');
+  if (options.autoLogin !== undefined) args.push(options.autoLogin ? '--auto-login' : '--no-auto-login');
+  if (options.visible) args.push('--visible');
+  if (options.verbose) args.push('--verbose');
+  if (options.concurrency !== undefined) args.push('--concurrency', String(options.concurrency));
+
+  const child = spawn(process.execPath, args, { detached: true, stdio: ['ignore', logFd, logFd] });
+  let exitCode: number | null = null;
+  child.on('exit', (code) => {
+    exitCode = code ?? 1;
+  });
+  child.unref();
+  fs.closeSync(logFd);
+
+  const deadline = Date.now() + START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (exitCode !== null) {
+      throw new Error(`Daemon exited with code ${exitCode} during startup; see ${paths.log}`);
+    }
+    const status = await getDaemonStatus(options.profile);
+    if (status) {
+      return status;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 500));
+  }
+
+  throw new Error(`Daemon did not become ready within ${START_TIMEOUT_MS / 1000}s; see ${paths.log}`);
+}
+
+export async function stopDaemon(profile: string): Promise<boolean> {
+  const paths = getDaemonPaths(profile);
+  const status = await getDaemonStatus(profile);
+
+  if (status) {
+    await request(profile, { method: 'shutdown' }).catch(() => undefined);
+  } else {
+    const pid = readPid(paths.pid);
+    if (pid === null || !isProcessAlive(pid)) {
+      removeStaleFiles(paths);
+      return false;
+    }
+    process.kill(pid, 'SIGTERM');
+  }
+
+  const pid = status?.pid ?? readPid(paths.pid);
+  const deadline = Date.now() + STOP_TIMEOUT_MS;
+  while (pid !== null && isProcessAlive(pid) && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+  if (pid !== null && isProcessAlive(pid)) {
+    throw new Error(`Daemon (pid ${pid}) did not stop within ${STOP_TIMEOUT_MS / 1000}s`);
+  }
+
+  removeStaleFiles(paths);
+  return true;
+}
+
+/** Returns the daemon status, or null when no daemon is listening. */
+export async function getDaemonStatus(profile: string): Promise<DaemonStatus | null> {
+  try {
+    return (await request(profile, { method: 'status' }, undefined, 2000)) as DaemonStatus;
+  } catch (error) {
+    if (error instanceof DaemonUnavailableError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+export async function queryDaemon(
+  profile: string,
+  params: DaemonQueryParams,
+  onEvent?: (event: ResponseStreamEvent) => void
+): Promise<QueryResult> {
+  return (await request(profile, { method: 'query', params: { ...params, stream: Boolean(onEvent) } }, onEvent)) as QueryResult;
+}
+
+class DaemonUnavailableError extends Error {}
+
+let nextRequestId = 1;
+
+function request(
+  profile: string,
+  payload: { method: 'status' } | { method: 'shutdown' } | { method: 'query'; params: DaemonQueryParams },
+  onEvent?: (event: ResponseStreamEvent) => void,
+  timeoutMs?: number
+): Promise<unknown> {
+  const { socket: socketPath } = getDaemonPaths(profile);
+  const id = nextRequestId++;
+
+  return new Promise((resolve, reject) => {
+    if (!fs.existsSync(socketPath)) {
+      reject(new DaemonUnavailableError('Daemon socket not found'));
+      return;
+    }
+
+    const socket = net.createConnection(socketPath);
+    let connected = false;
+    let settled = false;
+    const finish = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      socket.end();
+      fn();
+    };
+
+    const timeoutTimer = timeoutMs
+      ? setTimeout(() => {
+          finish(() => reject(new DaemonUnavailableError('Timed out waiting for daemon')));
+          socket.destroy();
+        }, timeoutMs)
+      : null;
+
+    socket.on('connect', () => {
+      connected = true;
+      socket.write(`${JSON.stringify({ id, ...payload })}\n`);
+    });
+
+    readline.createInterface({ input: socket }).on('line', (line) => {
+      let message: DaemonMessage;
+      try {
+        message = JSON.parse(line);
+      } catch {
+        return;
+      }
+      if (message.id !== id) return;
+
+      if ('event' in message) {
+        onEvent?.(message.event);
+      } else if ('result' in message) {
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+        finish(() => resolve(message.result));
+      } else if ('error' in message) {
+        if (timeoutTimer) clearTimeout(timeoutTimer);
+        const { type, response, answeredBy } = message.error;
+        finish(() => reject(new ChatGPTError(message.error.message, type, { response, answeredBy })));
+      }
+    });
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      if (!connected && (error.code === 'ENOENT' || error.code === 'ECONNREFUSED')) {
+        finish(() => reject(new DaemonUnavailableError(error.message)));
+      } else {
+        finish(() => reject(error));
+      }
+    });
+
+    socket.on('close', () => {
+      if (timeoutTimer) clearTimeout(timeoutTimer);
+      finish(() => reject(new Error('Daemon closed the connection before replying')));
+    });
+  });
+}
+
+function readPid(pidPath: string): number | null {
+  try {
+    const pid = parseInt(fs.readFileSync(pidPath, 'utf-8').trim(), 10);
+    return Number.isFinite(pid) ? pid : null;
+  } catch {
+    return null;
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function removeStaleFiles(paths: ReturnType<typeof getDaemonPaths>) {
+  for (const file of [paths.socket, paths.pid]) {
+    fs.rmSync(file, { force: true });
+  }
+}
@@ -0,0 +1,67 @@
+export type ChatGPTErrorType =
+  | 'navigation'
+  | 'timeout'
+  | 'composer'
+  | 'attachment'
+  | 'empty-response'
+  | 'session-expired'
+  | 'usage-cap'
+  | 'model-mismatch'
+  | 'unknown';
+
+const RETRYABLE_TYPES = new Set<ChatGPTErrorType>(['navigation', 'timeout', 'composer', 'empty-response']);
+
+export interface ChatGPTErrorOptions {
+  /** Overrides the default retry policy for the error type. */
+  retryable?: boolean;
+  cause?: unknown;
+  /** An answer that arrived but was rejected, e.g. one written by another model. */
+  response?: string;
+  /** Model slug recorded on the turn that wrote `response`. */
+  answeredBy?: string;
+}
+
+export class ChatGPTError extends Error {
+  readonly type: ChatGPTErrorType;
+  readonly retryable: boolean;
+  readonly response?: string;
+  readonly answeredBy?: string;
+
+  constructor(message: string, type: ChatGPTErrorType, options: ChatGPTErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'ChatGPTError';
+    this.type = type;
+    this.retryable = options.retryable ?? RETRYABLE_TYPES.has(type);
+    this.response = options.response;
+    this.answeredBy = options.answeredBy;
+  }
+}
+
+/**
+ * Maps anything thrown during a query onto a ChatGPTError. Playwright errors
+ * are recognised by name and message since the library does not export stable
+ * error classes for navigation failures.
+ */
+export function classifyError(error: unknown): ChatGPTError {
+  if (error instanceof ChatGPTError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+
+  if (/Target (?:page, context or browser )?(?:has been )?closed|browser has been closed/i.test(message)) {
+    return new ChatGPTError(message, 'unknown', { cause: error });
+  }
+  if (/net::ERR_|NS_ERROR_|page\.goto|navigation|frame was detached/i.test(message)) {
+    return new ChatGPTError(message, 'navigation', { cause: error });
+  }
+  if (name === 'TimeoutError' || /timeout/i.test(message)) {
+    return new ChatGPTError(message, 'timeout', { cause: error });
+  }
+  if (/not logged in|log ?in again|session (?:has )?expired/i.test(message)) {
+    return new ChatGPTError(message, 'session-expired', { cause: error });
+  }
+
+  return new ChatGPTError(message, 'unknown', { cause: error });
+}
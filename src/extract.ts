@@ -0,0 +1,268 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+const EXTENSION_BY_LANGUAGE: Record<string, string> = {
+  ts: 'ts',
+  typescript: 'ts',
+  tsx: 'tsx',
+  js: 'js',
+  javascript: 'js',
+  jsx: 'jsx',
+  json: 'json',
+  markdown: 'md',
+  md: 'md',
+  python: 'py',
+  py: 'py',
+  ruby: 'rb',
+  rust: 'rs',
+  go: 'go',
+  java: 'java',
+  kotlin: 'kt',
+  swift: 'swift',
+  c: 'c',
+  cpp: 'cpp',
+  'c++': 'cpp',
+  csharp: 'cs',
+  cs: 'cs',
+  bash: 'sh',
+  sh: 'sh',
+  shell: 'sh',
+  zsh: 'zsh',
+  nix: 'nix',
+  yaml: 'yml',
+  yml: 'yml',
+  toml: 'toml',
+  sql: 'sql',
+  html: 'html',
+  css: 'css',
+  scss: 'scss',
+  xml: 'xml',
+  diff: 'diff',
+  patch: 'diff',
+};
+
+const FILENAME_ATTRIBUTE = /\b(?:title|file(?:name)?|path)=["']?([^"'\s]+)["']?/i;
+const PATH_LIKE = /^(?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)*\.[\w-]+$|^(?:\.{0,2}\/)?[\w@.-]+(?:\/[\w@.-]+)+$/;
+const HEADING_LOOKBACK_LINES = 3;
+
+export interface CodeBlock {
+  /** First word of the fence info string, lower-cased ('' when absent). */
+  language: string;
+  info: string;
+  content: string;
+  /** File name suggested by the info string or the line(s) before the fence. */
+  filename: string | null;
+  filenameSource: 'info' | 'heading' | null;
+  isDiff: boolean;
+}
+
+export interface ExtractedFile {
+  path: string;
+  kind: 'code' | 'patch';
+  language: string;
+  bytes: number;
+  /**
+   * Where the file name came from: a hint in the response, `requested` for a
+   * path passed by the caller, or `generated` when there was no hint.
+   */
+  nameSource: 'info' | 'heading' | 'requested' | 'generated';
+  /** Result of `git apply --check`, for patches when checking was requested. */
+  check?: { ok: boolean; message: string };
+}
+
+export interface ExtractOptions {
+  /** Run `git apply --check` on every patch (from `cwd`). */
+  checkPatches?: boolean;
+  cwd?: string;
+}
+
+/**
+ * Finds fenced code blocks (``` or ~~~, any fence length) in response
+ * markdown. Unterminated fences run to the end of the text, as in CommonMark.
+ */
+export function parseCodeBlocks(markdown: string): CodeBlock[] {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: CodeBlock[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = lines[i].match(/^ {0,3}(`{3,}|~{3,})\s*([^`]*)$/);
+    if (!open) continue;
+
+    const fence = open[1];
+    const info = open[2].trim();
+    const body: string[] = [];
+    let j = i + 1;
+    for (; j < lines.length; j++) {
+      const close = lines[j].match(/^ {0,3}(`{3,}|~{3,})\s*$/);
+      if (close && close[1][0] === fence[0] && close[1].length >= fence.length) break;
+      body.push(lines[j]);
+    }
+
+    const content = body.length > 0 ? `${body.join('\n')}\n` : '';
+    const language = (info.split(/\s+/)[0] ?? '').split(/[:{]/)[0].toLowerCase();
+    const fromInfo = filenameFromInfo(info);
+    const fromHeading = fromInfo ? null : filenameFromHeading(lines.slice(Math.max(0, i - HEADING_LOOKBACK_LINES), i));
+
+    blocks.push({
+      language,
+      info,
+      content,
+      filename: fromInfo ?? fromHeading,
+      filenameSource: fromInfo ? 'info' : fromHeading ? 'heading' : null,
+      isDiff: language === 'diff' || language === 'patch' || looksLikeUnifiedDiff(content),
+    });
+    i = j;
+  }
+
+  return blocks;
+}
+
+export function looksLikeUnifiedDiff(content: string): boolean {
+  return /^diff --git /m.test(content) || (/^--- \S/m.test(content) && /^\+\+\+ \S/m.test(content) && /^@@ /m.test(content));
+}
+
+function filenameFromInfo(info: string): string | null {
+  const attribute = info.match(FILENAME_ATTRIBUTE);
+  if (attribute) return attribute[1];
+
+  // `ts:src/index.ts` or `ts src/index.ts`
+  const [first, second] = info.split(/\s+/);
+  const afterColon = first?.includes(':') ? first.slice(first.indexOf(':') + 1) : '';
+  for (const candidate of [afterColon, second, first]) {
+    if (candidate && PATH_LIKE.test(candidate) && !(candidate.toLowerCase() in EXTENSION_BY_LANGUAGE)) {
+      return candidate;
+    }
+  }
+  return null;
+}
+
+/**
+ * Looks at the lines right above a fence for a path on its own, such as
+ * `### src/index.ts`, `**src/index.ts**`, `` `src/index.ts`: `` or
+ * `File: src/index.ts`.
+ */
+function filenameFromHeading(previous: string[]): string | null {
+  for (const line of [...previous].reverse()) {
+    const text = line.trim();
+    if (!text) continue;
+
+    const cleaned = text
+      .replace(/^#{1,6}\s+/, '')
+      .replace(/^(?:[-*]\s+)?(?:\d+\.\s+)?/, '')
+      .replace(/^(?:file(?:name)?|path)\s*:\s*/i, '')
+      .replace(/[:.]$/, '')
+      .replace(/^[*_`]+|[*_`]+$/g, '')
+      .replace(/:$/, '')
+      .trim();
+    return PATH_LIKE.test(cleaned) ? cleaned : null;
+  }
+  return null;
+}
+
+/**
+ * Writes code blocks into `dir`. Named blocks keep their (relative) path;
+ * unnamed ones become `block-<n>.<ext>` and unnamed diffs `patch-<n>.diff`.
+ * Paths that would escape `dir` fall back to a generated name.
+ */
+export function writeCodeBlocks(blocks: CodeBlock[], dir: string, options: ExtractOptions = {}): ExtractedFile[] {
+  const root = path.resolve(options.cwd ?? process.cwd(), dir);
+  const used = new Set<string>();
+  const written: ExtractedFile[] = [];
+
+  blocks.forEach((block, index) => {
+    let target = block.filename ? path.resolve(root, block.filename) : null;
+    if (target && !target.startsWith(`${root}${path.sep}`)) {
+      target = null;
+    }
+    const nameSource: ExtractedFile['nameSource'] = target ? block.filenameSource ?? 'info' : 'generated';
+    target ??= path.join(root, generatedName(block, index));
+    target = uniquePath(target, used);
+
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, block.content);
+
+    const file: ExtractedFile = {
+      path: path.relative(options.cwd ?? process.cwd(), target) || target,
+      kind: block.isDiff ? 'patch' : 'code',
+      language: block.language,
+      bytes: Buffer.byteLength(block.content),
+      nameSource,
+    };
+    if (block.isDiff && options.checkPatches) {
+      file.check = checkPatch(target, options.cwd);
+    }
+    written.push(file);
+  });
+
+  return written;
+}
+
+/**
+ * Concatenates every unified diff in the response into one patch file, so it
+ * can be applied with a single `git apply`.
+ */
+export function writePatch(blocks: CodeBlock[], file: string, options: ExtractOptions = {}): ExtractedFile | null {
+  const diffs = blocks.filter((block) => block.isDiff && block.content.trim().length > 0);
+  if (diffs.length === 0) {
+    return null;
+  }
+
+  const target = path.resolve(options.cwd ?? process.cwd(), file);
+  const content = diffs.map((block) => block.content).join('');
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, content);
+
+  const written: ExtractedFile = {
+    path: path.relative(options.cwd ?? process.cwd(), target) || target,
+    kind: 'patch',
+    language: 'diff',
+    bytes: Buffer.byteLength(content),
+    nameSource: 'requested',
+  };
+  if (options.checkPatches) {
+    written.check = checkPatch(target, options.cwd);
+  }
+  return written;
+}
+
+export function checkPatch(file: string, cwd: string = process.cwd()): { ok: boolean; message: string } {
+  const result = spawnSync('git', ['apply', '--check', file], { cwd, encoding: 'utf-8' });
+  if (result.error) {
+    return { ok: false, message: `could not run git: ${result.error.message}` };
+  }
+  const output = `${result.stderr ?? ''}${result.stdout ?? ''}`.trim();
+  return result.status === 0 ? { ok: true, message: 'applies cleanly' } : { ok: false, message: output || `git exited with ${result.status}` };
+}
+
+export function formatManifest(files: ExtractedFile[]): string {
+  if (files.length === 0) {
+    return 'Extracted: no code blocks found in the response';
+  }
+
+  const width = Math.max(...files.map((file) => file.bytes.toLocaleString().length));
+  const lines = files.map((file) => {
+    const check = file.check ? `  [${file.check.ok ? 'ok' : 'FAILS'}: ${file.check.message.split('\n')[0]}]` : '';
+    const source = file.nameSource === 'generated' ? '  (unnamed)' : '';
+    return `  ${file.bytes.toLocaleString().padStart(width)} bytes  ${file.kind.padEnd(5)}  ${file.path}${source}${check}`;
+  });
+  return [`Extracted ${files.length} file${files.length === 1 ? '' : 's'}:`, ...lines].join('\n');
+}
+
+function generatedName(block: CodeBlock, index: number): string {
+  if (block.isDiff) {
+    return `patch-${index + 1}.diff`;
+  }
+  return `block-${index + 1}.${EXTENSION_BY_LANGUAGE[block.language] ?? 'txt'}`;
+}
+
+function uniquePath(target: string, used: Set<string>): string {
+  let candidate = target;
+  const extension = path.extname(target);
+  const base = target.slice(0, target.length - extension.length);
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${base}-${n}${extension}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import type { QueryResult, RunTimings } from './chatgpt.js';
+import type { ChatGPTErrorType } from './errors.js';
+import { withFileLock } from './lock.js';
+import { writePrivateFile } from './state.js';
+
+const HISTORY_FILE = 'history.jsonl';
+const HISTORY_LOCK_FILE = 'history.lock';
+
+export const DEFAULT_HISTORY_MAX_ENTRIES = 1000;
+export const DEFAULT_HISTORY_MAX_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  status: 'ok' | 'error';
+  exitCode: number;
+  prompt: string;
+  response: string | null;
+  error: { type: ChatGPTErrorType; message: string } | null;
+  model: string;
+  conversationUrl: string | null;
+  attachments: string[];
+  cached: boolean;
+  attempts: number | null;
+  durationMs: number;
+  timings: RunTimings;
+}
+
+export interface HistoryRetention {
+  maxEntries?: number;
+  maxAgeMs?: number;
+}
+
+export function getHistoryPath(stateDir: string): string {
+  return path.join(stateDir, HISTORY_FILE);
+}
+
+export function createHistoryEntry(fields: {
+  prompt: string;
+  model: string;
+  startedAt: number;
+  exitCode: number;
+  attachments?: string[];
+  result?: QueryResult;
+  error?: { type: ChatGPTErrorType; message: string };
+}): HistoryEntry {
+  const { result } = fields;
+  return {
+    id: randomBytes(4).toString('hex'),
+    createdAt: new Date(fields.startedAt).toISOString(),
+    status: fields.error ? 'error' : 'ok',
+    exitCode: fields.exitCode,
+    prompt: fields.prompt,
+    response: result?.response ?? null,
+    error: fields.error ?? null,
+    model: result?.model.displayName ?? result?.model.requested ?? fields.model,
+    conversationUrl: result?.conversation?.url ?? null,
+    attachments: (fields.attachments ?? []).map((file) => path.basename(file)),
+    cached: result?.cached ?? false,
+    attempts: result?.attempts ?? null,
+    durationMs: Date.now() - fields.startedAt,
+    timings: result?.timings ?? {},
+  };
+}
+
+/**
+ * Appends an entry and then drops entries beyond the retention limits. The
+ * file holds prompts and answers, so it is only readable by the owner. Both
+ * steps hold `history.lock`, so a prune in one process cannot drop an entry
+ * another process appends meanwhile.
+ */
+export async function appendHistory(
+  stateDir: string,
+  entry: HistoryEntry,
+  retention: HistoryRetention = {}
+): Promise<void> {
+  fs.mkdirSync(stateDir, { recursive: true });
+  await withHistoryLock(stateDir, () => {
+    fs.appendFileSync(getHistoryPath(stateDir), `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+    removeOldEntries(stateDir, retention);
+  });
+}
+
+/** All readable entries, oldest first. */
+export function readHistory(stateDir: string): HistoryEntry[] {
+  const filePath = getHistoryPath(stateDir);
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as HistoryEntry);
+    } catch {
+      // Skip a line left half-written by an interrupted run.
+    }
+  }
+  return entries;
+}
+
+export function findHistoryEntry(stateDir: string, idPrefix: string): HistoryEntry {
+  const prefix = idPrefix.trim().toLowerCase();
+  const matches = readHistory(stateDir).filter((entry) => entry.id.startsWith(prefix));
+  if (!prefix || matches.length === 0) {
+    throw new Error(`No history entry matches ${idPrefix}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`History id ${idPrefix} is ambiguous (${matches.length} entries)`);
+  }
+  return matches[0];
+}
+
+/** Case-insensitive substring search over prompts, answers and errors, newest first. */
+export function searchHistory(stateDir: string, text: string): HistoryEntry[] {
+  const needle = text.toLowerCase();
+  return readHistory(stateDir)
+    .filter((entry) =>
+      [entry.prompt, entry.response ?? '', entry.error?.message ?? ''].some((field) =>
+        field.toLowerCase().includes(needle)
+      )
+    )
+    .reverse();
+}
+
+/** Rewrites the store without entries over the age or count limit. Returns the number removed. */
+export function pruneHistory(stateDir: string, retention: HistoryRetention = {}): Promise<number> {
+  return withHistoryLock(stateDir, () => removeOldEntries(stateDir, retention));
+}
+
+/** Deletes the store under the history lock, so an entry being appended is not half-kept. */
+export async function clearHistory(stateDir: string): Promise<void> {
+  if (!fs.existsSync(getHistoryPath(stateDir))) {
+    return;
+  }
+  await withHistoryLock(stateDir, () => fs.rmSync(getHistoryPath(stateDir), { force: true }));
+}
+
+function withHistoryLock<T>(stateDir: string, task: () => T): Promise<T> {
+  // Holders only append or rewrite one file, so a minute-old lock is abandoned.
+  return withFileLock(path.join(stateDir, HISTORY_LOCK_FILE), async () => task(), {
+    timeoutMs: 30_000,
+    staleMs: 60_000,
+  });
+}
+
+// Callers hold the history lock.
+function removeOldEntries(stateDir: string, retention: HistoryRetention): number {
+  const maxEntries = retention.maxEntries ?? DEFAULT_HISTORY_MAX_ENTRIES;
+  const maxAgeMs = retention.maxAgeMs ?? DEFAULT_HISTORY_MAX_AGE_MS;
+  const entries = readHistory(stateDir);
+  const cutoff = Date.now() - maxAgeMs;
+
+  const kept = entries.filter((entry) => new Date(entry.createdAt).getTime() >= cutoff).slice(-maxEntries);
+  if (kept.length === entries.length) {
+    return 0;
+  }
+
+  writePrivateFile(getHistoryPath(stateDir), kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''));
+  return entries.length - kept.length;
+}
+
+export function formatHistoryLine(entry: HistoryEntry): string {
+  const status = entry.status === 'ok' ? (entry.cached ? 'cached' : 'ok') : `error:${entry.error?.type ?? 'unknown'}`;
+  const seconds = `${Math.round(entry.durationMs / 1000)}s`;
+  const preview = entry.prompt.replace(/\s+/g, ' ').trim().slice(0, 60);
+  return `${entry.id}  ${entry.createdAt}  ${status.padEnd(8)}  ${seconds.padStart(6)}  ${entry.model}  ${preview}`;
+}
+
+export function formatHistoryMarkdown(entries: HistoryEntry[]): string {
+  return entries
+    .map((entry) => {
+      const lines = [`## ${entry.createdAt} (${entry.id})`, '', `- model: ${entry.model}`, `- status: ${entry.status}`];
+      if (entry.conversationUrl) lines.push(`- conversation: ${entry.conversationUrl}`);
+      if (entry.attachments.length > 0) lines.push(`- attachments: ${entry.attachments.join(', ')}`);
+      lines.push('', '### Prompt', '', entry.prompt, '', '### Response', '');
+      lines.push(entry.response ?? `_Failed: ${entry.error?.message ?? 'unknown error'}_`);
+      return lines.join('\n');
+    })
+    .join('\n\n');
+}
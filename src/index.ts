@@ -1,7 +1,91 @@
 #!/usr/bin/env node
 
+import * as fs from 'fs';
 import { Command } from 'commander';
-import { ChatGPT, ChatGPTOptions } from './chatgpt.js';
+import { ChatGPT, ChatGPTOptions, type QueryResult } from './chatgpt.js';
+import { assemblePrompt, formatTokenBudget } from './prompt.js';
+import { resolveAttachments } from './attachments.js';
+import {
+  clearCache,
+  findCacheEntry,
+  isExpired,
+  listCacheEntries,
+  parseDuration,
+  type CacheMode,
+} from './cache.js';
+import { getProfileDir, validateProfileName } from './paths.js';
+import {
+  createCredentialProvider,
+  parseCredentialSpec,
+  promptLine,
+  readCredentialConfig,
+  writeCredentialConfig,
+  type CredentialProvider,
+} from './credentials.js';
+import { parseOtpSpec, readOtpConfig, writeOtpConfig } from './otp.js';
+import {
+  formatRelative,
+  listProfiles,
+  profileExists,
+  readAccountInfo,
+  removeProfile,
+  renameProfile,
+  summarizeSession,
+} from './profiles.js';
+import {
+  createProfileBundle,
+  getBundleCommands,
+  importProfileBundle,
+  isBundleEncrypted,
+  readProfileBundle,
+  writeProfileBundle,
+} from './bundle.js';
+import { migrateBrowserState, parseStateKeySource, readEncryptionConfig } from './state.js';
+import { readLastConversation } from './conversation.js';
+import { createResultPrinter, parseOutputFormat, printQueryError, type OutputFormat } from './output.js';
+import { createChatGPTBackend, createOpenAIServer } from './server.js';
+import { PagePool } from './pool.js';
+import { runMcpServer } from './mcp.js';
+import { formatManifest, parseCodeBlocks, writeCodeBlocks, writePatch, type ExtractedFile } from './extract.js';
+import {
+  appendHistory,
+  clearHistory,
+  createHistoryEntry,
+  findHistoryEntry,
+  formatHistoryLine,
+  formatHistoryMarkdown,
+  readHistory,
+  searchHistory,
+  type HistoryRetention,
+} from './history.js';
+import { classifyError } from './errors.js';
+import {
+  aliasesByModel,
+  getModelsConfigPath,
+  loadModelRegistry,
+  matchesDiscoveredOption,
+  type DiscoveredModelOption,
+  type ModelRegistry,
+} from './models.js';
+import { planSplit, type SplitPlan } from './split.js';
+import {
+  getSelectorsConfigPath,
+  loadSelectorRegistry,
+  type SelectorCheck,
+  type SelectorRegistry,
+} from './selectors.js';
+import {
+  getGlobalConfigPath,
+  getProfileConfigPath,
+  isConfigKey,
+  parseConfigValue,
+  resolveConfig,
+  writeConfigValue,
+  CONFIG_KEYS,
+  CONFIG_SCHEMA,
+  type ConfigKey,
+} from './config.js';
+import { getDaemonPaths, getDaemonStatus, queryDaemon, runDaemon, startDaemon, stopDaemon } from './daemon.js';
 
 const program = new Command();
 
@@ -12,17 +96,85 @@ program
   .description('CLI tool to interact with ChatGPT-5 Pro')
   .version('1.0.0');
 
+// Config files and GPT5_* variables fill in options that were not given on
+// the command line (see config.ts for the keys and their layering).
+program.hook('preAction', (_program, command) => {
+  const profile = command.opts().profile;
+  try {
+    if (typeof profile === 'string') validateProfileName(profile);
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const names = new Set(command.options.map((option) => option.attributeName()));
+  const keys = CONFIG_KEYS.filter((key) => names.has(key));
+  if (keys.length === 0) return;
+
+  let config;
+  try {
+    config = resolveConfig(command.opts().profile ?? 'default');
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+  for (const key of keys) {
+    const value = config.values[key];
+    if (value === undefined || command.getOptionValueSource(key) === 'cli') continue;
+    // Options are parsed from strings by the actions, as if typed on the command line.
+    command.setOptionValueWithSource(key, typeof value === 'boolean' ? value : String(value), 'config');
+  }
+});
+
+// A malformed models.json or selectors.json (or a bad profile name) makes the
+// constructor throw; report it like any other configuration error.
+function createChatGPT(options: ChatGPTOptions): ChatGPT {
+  try {
+    return new ChatGPT(options);
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+}
+
 program
   .command('login')
   .description('Login to ChatGPT and save session')
   .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .option(
+    '--credentials <provider>',
+    'Where to read the login from, saved for the profile: 1password[:op://Vault/Item], env[:EMAIL_VAR,PASSWORD_VAR], ' +
+      'command:<cmd>, pass:<entry> or prompt'
+  )
+  .option(
+    '--otp <source>',
+    'Where to read verification codes from, saved for the profile: totp, maildir:<path>, ' +
+      'imaps://user@host[:port][/mailbox], command:<cmd> or prompt'
+  )
   .option('-v, --visible', 'Show browser window (not headless)', false)
   .option('--verbose', 'Enable verbose logging', false)
-  .action(async (options: { profile?: string; visible?: boolean; verbose?: boolean }) => {
-    const chatgpt = new ChatGPT({
+  .action(async (options: { profile?: string; credentials?: string; otp?: string; visible?: boolean; verbose?: boolean }) => {
+    const stateDir = getProfileDir(options.profile ?? 'default');
+    let credentials: CredentialProvider | undefined;
+    try {
+      if (options.credentials) {
+        const config = parseCredentialSpec(options.credentials);
+        writeCredentialConfig(stateDir, config);
+        credentials = createCredentialProvider(config);
+      }
+      if (options.otp) {
+        writeOtpConfig(stateDir, parseOtpSpec(options.otp));
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const chatgpt = createChatGPT({
       headless: !options.visible,
       profile: options.profile,
       verbose: options.verbose,
+      credentials,
     });
 
     try {
@@ -43,12 +195,1103 @@ program
   });
 
 program
-  .argument('[prompt]', 'The prompt to send to ChatGPT')
+  .command('serve')
+  .description('Serve an OpenAI-compatible Chat Completions API backed by the browser session')
+  .option('--port <n>', 'Port to listen on', '8787')
+  .option('--host <host>', 'Interface to bind', '127.0.0.1')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .option('-m, --model <name>', 'Model used when a request omits "model"', 'GPT-5 Pro')
+  .option('-t, --timeout <ms>', 'Timeout in milliseconds', '60000')
+  .option('-r, --retries <n>', 'Number of retries', '2')
+  .option('--base-url <url>', 'ChatGPT web app origin (for a local stand-in)')
+  .option('-j, --concurrency <n>', 'Requests to run at once, each in its own tab', '1')
+  .option('--max-prompt-chars <n>', 'Reject prompts longer than this many characters')
+  .option('--max-prompt-tokens <n>', 'Reject prompts longer than this many tokens')
+  .option('--strict-model', 'Fail unless the requested model is confirmed (default for GPT-5 Pro)')
+  .option('--no-strict-model', 'Only warn when the requested model cannot be confirmed')
+  .option('-v, --visible', 'Show browser window (not headless)', false)
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options: {
+    port: string;
+    host: string;
+    concurrency: string;
+    profile?: string;
+    model: string;
+    timeout?: string;
+    retries?: string;
+    baseUrl?: string;
+    maxPromptChars?: string;
+    maxPromptTokens?: string;
+    strictModel?: boolean;
+    visible?: boolean;
+    verbose?: boolean;
+  }) => {
+    const chatgpt = createChatGPT({
+      headless: !options.visible,
+      profile: options.profile,
+      model: options.model,
+      timeout: options.timeout ? parseInt(options.timeout, 10) : 60000,
+      retries: options.retries ? parseInt(options.retries, 10) : 2,
+      verbose: options.verbose,
+      baseUrl: options.baseUrl,
+      maxPromptChars: options.maxPromptChars ? parseInt(options.maxPromptChars, 10) : undefined,
+      maxPromptTokens: options.maxPromptTokens ? parseInt(options.maxPromptTokens, 10) : undefined,
+      strictModel: options.strictModel,
+      logToStderr: true,
+    });
+
+    try {
+      await chatgpt.initialize();
+      if (!(await chatgpt.checkSession())) {
+        console.error('❌ Not logged in. Please run: gpt5 login');
+        await chatgpt.close();
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await chatgpt.close();
+      process.exit(1);
+    }
+
+    let pool: PagePool;
+    try {
+      pool = new PagePool(chatgpt, { concurrency: parseInt(options.concurrency, 10) });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await chatgpt.close();
+      process.exit(1);
+    }
+
+    const backend = createChatGPTBackend(chatgpt, pool);
+    const server = createOpenAIServer(backend, {
+      defaultModel: options.model,
+      log: options.verbose ? (message) => console.error(`[serve] ${message}`) : undefined,
+    });
+
+    const shutdown = async () => {
+      server.close();
+      await pool.close();
+      await chatgpt.close();
+      process.exit(0);
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    server.listen(parseInt(options.port, 10), options.host, () => {
+      console.error(`Serving OpenAI-compatible API on http://${options.host}:${options.port}/v1`);
+    });
+  });
+
+program
+  .command('mcp')
+  .description('Run a Model Context Protocol server over stdio with "ask" and "continue" tools')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .option('-m, --model <name>', 'Default model for tool calls', 'GPT-5 Pro')
+  .option('-t, --timeout <ms>', 'Timeout in milliseconds', '60000')
+  .option('-r, --retries <n>', 'Number of retries', '2')
+  .option('-j, --concurrency <n>', 'Tool calls to run at once, each in its own tab', '1')
+  .option('--max-prompt-chars <n>', 'Reject prompts longer than this many characters')
+  .option('--max-prompt-tokens <n>', 'Reject prompts longer than this many tokens')
+  .option('--strict-model', 'Fail unless the requested model is confirmed (default for GPT-5 Pro)')
+  .option('--no-strict-model', 'Only warn when the requested model cannot be confirmed')
+  .option('-v, --visible', 'Show browser window (not headless)', false)
+  .option('--verbose', 'Enable verbose logging (to stderr)', false)
+  .action(async (options: {
+    profile?: string;
+    concurrency: string;
+    model: string;
+    timeout?: string;
+    retries?: string;
+    maxPromptChars?: string;
+    maxPromptTokens?: string;
+    strictModel?: boolean;
+    visible?: boolean;
+    verbose?: boolean;
+  }) => {
+    try {
+      await runMcpServer({
+        version: program.version() ?? '1.0.0',
+        concurrency: parseInt(options.concurrency, 10),
+        chatgpt: {
+          headless: !options.visible,
+          profile: options.profile,
+          model: options.model,
+          timeout: options.timeout ? parseInt(options.timeout, 10) : 60000,
+          retries: options.retries ? parseInt(options.retries, 10) : 2,
+          maxPromptChars: options.maxPromptChars ? parseInt(options.maxPromptChars, 10) : undefined,
+          maxPromptTokens: options.maxPromptTokens ? parseInt(options.maxPromptTokens, 10) : undefined,
+          strictModel: options.strictModel,
+          verbose: options.verbose,
+        },
+      });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const daemon = program
+  .command('daemon')
+  .description('Manage a background browser that keeps the session warm between queries');
+
+interface DaemonCommandOptions {
+  profile: string;
+  model?: string;
+  timeout?: string;
+  retries?: string;
+  concurrency: string;
+  maxPromptChars?: string;
+  maxPromptTokens?: string;
+  strictModel?: boolean;
+  autoLogin?: boolean;
+  visible?: boolean;
+  verbose?: boolean;
+}
+
+function addDaemonBrowserOptions(command: Command): Command {
+  return command
+    .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+    .option('-m, --model <name>', 'Default model', 'GPT-5 Pro')
+    .option('-t, --timeout <ms>', 'Timeout in milliseconds', '60000')
+    .option('-r, --retries <n>', 'Number of retries', '2')
+    .option('-j, --concurrency <n>', 'Queries to run at once, each in its own tab', '1')
+    .option('--max-prompt-chars <n>', 'Reject prompts longer than this many characters')
+    .option('--max-prompt-tokens <n>', 'Reject prompts longer than this many tokens')
+    .option('--strict-model', 'Fail unless the requested model is confirmed (default for GPT-5 Pro)')
+    .option('--no-strict-model', 'Only warn when the requested model cannot be confirmed')
+    .option('--auto-login', 'Log in again without prompting when the session has expired')
+    .option('--no-auto-login', 'Stop when the session has expired even if GPT5_AUTO_LOGIN or the config enables it')
+    .option('-v, --visible', 'Show browser window (not headless)', false)
+    .option('--verbose', 'Enable verbose logging', false);
+}
+
+addDaemonBrowserOptions(daemon.command('start').description('Start the daemon for a profile'))
+  .action(async (options: DaemonCommandOptions) => {
+    try {
+      const status = await startDaemon({
+        profile: options.profile,
+        model: options.model,
+        timeout: options.timeout ? parseInt(options.timeout, 10) : undefined,
+        retries: options.retries ? parseInt(options.retries, 10) : undefined,
+        maxPromptChars: options.maxPromptChars ? parseInt(options.maxPromptChars, 10) : undefined,
+        maxPromptTokens: options.maxPromptTokens ? parseInt(options.maxPromptTokens, 10) : undefined,
+        strictModel: options.strictModel,
+        autoLogin: options.autoLogin,
+        visible: options.visible,
+        verbose: options.verbose,
+        concurrency: parseInt(options.concurrency, 10),
+      });
+      console.log(`Daemon running for profile "${status.profile}" (pid ${status.pid}).`);
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+addDaemonBrowserOptions(daemon.command('run', { hidden: true }).description('Run the daemon in the foreground'))
+  .action(async (options: DaemonCommandOptions) => {
+    try {
+      await runDaemon({
+        headless: !options.visible,
+        profile: options.profile,
+        model: options.model,
+        timeout: options.timeout ? parseInt(options.timeout, 10) : 60000,
+        retries: options.retries ? parseInt(options.retries, 10) : 2,
+        maxPromptChars: options.maxPromptChars ? parseInt(options.maxPromptChars, 10) : undefined,
+        maxPromptTokens: options.maxPromptTokens ? parseInt(options.maxPromptTokens, 10) : undefined,
+        strictModel: options.strictModel,
+        autoLogin: options.autoLogin,
+        verbose: options.verbose,
+        concurrency: parseInt(options.concurrency, 10),
+      });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+daemon
+  .command('stop')
+  .description('Stop the daemon for a profile')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .action(async (options: { profile: string }) => {
+    try {
+      const stopped = await stopDaemon(options.profile);
+      console.log(stopped ? 'Daemon stopped.' : `No daemon running for profile "${options.profile}".`);
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+daemon
+  .command('status')
+  .description('Show whether a daemon is running for a profile')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .action(async (options: { profile: string }) => {
+    const status = await getDaemonStatus(options.profile).catch(() => null);
+    if (!status) {
+      console.log(`No daemon running for profile "${options.profile}".`);
+      process.exit(1);
+    }
+    console.log(`Daemon running for profile "${status.profile}"`);
+    console.log(`  pid:      ${status.pid}`);
+    console.log(`  model:    ${status.model}`);
+    console.log(`  uptime:   ${Math.round(status.uptimeMs / 1000)}s (since ${status.startedAt})`);
+    console.log(`  queries:  ${status.queriesServed} served, ${status.activeQueries}/${status.concurrency} running`);
+    console.log(`  socket:   ${getDaemonPaths(options.profile).socket}`);
+    process.exit(0);
+  });
+
+program
+  .command('models')
+  .description('List the models the CLI knows, and the options the live model picker offers')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .option('--known', 'Only list the configured definitions; do not open a browser', false)
+  .option('--json', 'Print JSON', false)
+  .option('-v, --visible', 'Show browser window (not headless)', false)
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options: {
+    profile: string;
+    known?: boolean;
+    json?: boolean;
+    visible?: boolean;
+    verbose?: boolean;
+  }) => {
+    let registry: ModelRegistry;
+    try {
+      registry = loadModelRegistry();
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    const definitions = Object.values(registry.definitions);
+    const aliases = aliasesByModel(registry);
+
+    if (options.known) {
+      if (options.json) {
+        const listed = definitions.map((definition) => ({ ...definition, aliases: aliases[definition.key] ?? [] }));
+        console.log(JSON.stringify(listed, null, 2));
+        return;
+      }
+      console.log(`Model definitions (user file: ${getModelsConfigPath()})`);
+      for (const definition of definitions) {
+        const aliasText = aliases[definition.key]?.length ? `  aliases: ${aliases[definition.key].join(', ')}` : '';
+        const name = `${definition.key.padEnd(18)} ${definition.displayName.padEnd(16)}`;
+        console.log(`  ${name} ${`[${definition.source}]`.padEnd(10)}${aliasText}`);
+      }
+      return;
+    }
+
+    const chatgpt = createChatGPT({
+      headless: !options.visible,
+      profile: options.profile,
+      verbose: options.verbose,
+      logToStderr: true,
+      models: registry,
+    });
+    try {
+      await chatgpt.initialize();
+      if (!(await chatgpt.checkSession())) {
+        throw new Error(`Not logged in. Please run: gpt5 login --profile ${options.profile}`);
+      }
+      const found = await chatgpt.discoverModelOptions();
+      const matchedBy = (option: DiscoveredModelOption) =>
+        definitions
+          .filter((definition) => matchesDiscoveredOption(definition, [option]))
+          .map((definition) => definition.key);
+      const stale = definitions.filter((definition) => !matchesDiscoveredOption(definition, found));
+
+      if (options.json) {
+        console.log(
+          JSON.stringify(
+            {
+              options: found.map((option) => ({ ...option, models: matchedBy(option) })),
+              unmatched: stale.map((definition) => definition.key),
+            },
+            null,
+            2
+          )
+        );
+      } else {
+        console.log('Options in the model picker:');
+        for (const option of found) {
+          const models = matchedBy(option);
+          const where = option.submenu ? ` (in ${option.submenu})` : '';
+          const target = models.length ? `  -> ${models.join(', ')}` : '';
+          console.log(`  ${option.testId.padEnd(36)} ${option.label}${where}${target}`);
+        }
+        if (stale.length > 0) {
+          console.log(`\nDefinitions that match no option (update them in ${getModelsConfigPath()}):`);
+          for (const definition of stale) {
+            console.log(
+              `  ⚠️ ${definition.key} [${definition.source}]: test ids ${definition.optionTestIds.join(', ')}; ` +
+                `texts ${definition.fallbackTexts.join(', ')}`
+            );
+          }
+        }
+      }
+      await chatgpt.close();
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await chatgpt.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('doctor')
+  .description('Check the browser install and which DOM selectors still match the ChatGPT UI')
+  .option('-p, --profile <name>', 'Profile name for session storage', 'default')
+  .option('--html <file>', 'Check a saved HTML snapshot of a page instead of loading ChatGPT')
+  .option('--json', 'Print JSON', false)
+  .option('-v, --visible', 'Show browser window (not headless)', false)
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options: { profile: string; html?: string; json?: boolean; visible?: boolean; verbose?: boolean }) => {
+    let selectors: SelectorRegistry;
+    let html: string | undefined;
+    try {
+      selectors = loadSelectorRegistry();
+      html = options.html ? fs.readFileSync(options.html, 'utf-8') : undefined;
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const chatgpt = createChatGPT({
+      headless: !options.visible,
+      profile: options.profile,
+      verbose: options.verbose,
+      logToStderr: true,
+      selectors,
+    });
+    const registry = {
+      version: selectors.version,
+      overrides: selectors.overridesVersion !== null ? getSelectorsConfigPath() : null,
+      overridesVersion: selectors.overridesVersion,
+    };
+    const browser = await chatgpt.getBrowserInstallStatus();
+    const staleOverrides = registry.overridesVersion !== null && registry.overridesVersion !== registry.version;
+
+    if (!options.json) {
+      console.log(
+        `Selector registry v${registry.version}` +
+          (registry.overrides ? ` (overrides: ${registry.overrides}, written for v${registry.overridesVersion})` : '')
+      );
+      if (staleOverrides) {
+        console.log(`  ⚠️ Overrides were written for another registry version; check they are still needed`);
+      }
+      console.log(
+        browser.installed
+          ? `Browser: Chromium installed at ${browser.executablePath}`
+          : `Browser: ❌ Chromium not installed in ${browser.cacheDir}; run: npm run install-browser`
+      );
+    }
+    if (!browser.installed) {
+      if (options.json) console.log(JSON.stringify({ registry, browser, page: null, checks: [] }, null, 2));
+      process.exit(1);
+    }
+
+    try {
+      await chatgpt.initialize();
+      const result = await chatgpt.checkSelectors({ html });
+      // Only entries that belong on the page that was loaded can fail.
+      const failed = (check: SelectorCheck) => check.status === 'missing' && check.page === result.page;
+      const failures = result.checks.filter(failed);
+
+      if (options.json) {
+        const checks = result.checks.map((check) => ({ ...check, failed: failed(check) }));
+        console.log(JSON.stringify({ registry, browser, page: result.page, url: result.url, checks }, null, 2));
+      } else {
+        console.log(`Page: ${result.page} (${result.url})`);
+        for (const check of result.checks) {
+          const name = check.name.padEnd(20);
+          const source = check.source === 'user' ? ' [user]' : '';
+          if (check.status === 'matched') {
+            console.log(`  ✓ ${name} ${check.candidate}${source}`);
+          } else if (check.status === 'fallback') {
+            console.log(`  ↪ ${name} fallback #${(check.index ?? 0) + 1}: ${check.candidate}${source}`);
+          } else if (failed(check)) {
+            const tried = selectors.entries[check.name].candidates.length;
+            console.log(`  ✗ ${name} no match (${tried} tried)${source} - ${check.description}`);
+          } else {
+            console.log(`  - ${name} not on this page${source} - ${check.description}`);
+          }
+        }
+        if (result.page === 'unknown') {
+          console.log('\n❌ Neither the chat page nor the login page was recognised');
+        } else if (failures.length > 0) {
+          console.log(`\n❌ ${failures.length} selector(s) failed; override them in ${getSelectorsConfigPath()}`);
+        } else {
+          console.log('\n✓ All selectors for this page matched');
+        }
+      }
+      await chatgpt.close();
+      process.exit(failures.length > 0 || result.page === 'unknown' ? 1 : 0);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await chatgpt.close();
+      process.exit(1);
+    }
+  });
+
+const cache = program.command('cache').description('Inspect or clear the local response cache');
+
+cache
+  .command('ls')
+  .description('List cached answers, newest first')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('--cache-ttl <duration>', 'Mark entries older than this as expired', process.env.GPT5_CACHE_TTL ?? '7d')
+  .action((options: { profile: string; cacheTtl: string }) => {
+    let ttlMs: number;
+    try {
+      ttlMs = parseDuration(options.cacheTtl);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    const entries = listCacheEntries(getProfileDir(options.profile));
+    if (entries.length === 0) {
+      console.log(`No cached answers for profile "${options.profile}".`);
+      return;
+    }
+    for (const entry of entries) {
+      const preview = entry.prompt.replace(/\s+/g, ' ').trim().slice(0, 60);
+      const expired = isExpired(entry, ttlMs) ? '  (expired)' : '';
+      const files = entry.attachments.length > 0 ? `  +${entry.attachments.length} file(s)` : '';
+      console.log(`${entry.key.slice(0, 12)}  ${entry.createdAt}  ${entry.model}  ${preview}${files}${expired}`);
+    }
+  });
+
+cache
+  .command('show')
+  .description('Print a cached answer')
+  .argument('<key>', 'Cache key or unambiguous prefix (from "gpt5 cache ls")')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('--json', 'Print the whole entry, including prompt and run metadata', false)
+  .action((key: string, options: { profile: string; json?: boolean }) => {
+    try {
+      const entry = findCacheEntry(getProfileDir(options.profile), key);
+      if (options.json) {
+        console.log(JSON.stringify(entry, null, 2));
+      } else {
+        console.error(`${entry.key}  ${entry.createdAt}  ${entry.model}`);
+        if (entry.result.conversation) {
+          console.error(`Conversation: ${entry.result.conversation.url}`);
+        }
+        console.log(entry.result.response);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+cache
+  .command('clear')
+  .description('Delete cached answers')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('--expired', 'Only delete entries older than --cache-ttl', false)
+  .option('--cache-ttl <duration>', 'Maximum age kept by --expired', process.env.GPT5_CACHE_TTL ?? '7d')
+  .action((options: { profile: string; expired?: boolean; cacheTtl: string }) => {
+    try {
+      const removed = clearCache(
+        getProfileDir(options.profile),
+        options.expired ? parseDuration(options.cacheTtl) : undefined
+      );
+      console.log(`Removed ${removed} cache ${removed === 1 ? 'entry' : 'entries'}.`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const history = program.command('history').description('Browse past queries of a profile');
+
+history
+  .command('list')
+  .description('List recent queries, newest first')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('-n, --limit <n>', 'Number of entries to show', '20')
+  .action((options: { profile: string; limit: string }) => {
+    let limit: number;
+    try {
+      limit = parseLimit(options.limit);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    const entries = readHistory(getProfileDir(options.profile)).reverse().slice(0, limit);
+    if (entries.length === 0) {
+      console.log(`No history for profile "${options.profile}".`);
+      return;
+    }
+    entries.forEach((entry) => console.log(formatHistoryLine(entry)));
+  });
+
+history
+  .command('show')
+  .description('Print the prompt and answer of one query')
+  .argument('<id>', 'History id or unambiguous prefix (from "gpt5 history list")')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('--json', 'Print the whole entry as JSON', false)
+  .action((id: string, options: { profile: string; json?: boolean }) => {
+    try {
+      const entry = findHistoryEntry(getProfileDir(options.profile), id);
+      console.log(options.json ? JSON.stringify(entry, null, 2) : formatHistoryMarkdown([entry]));
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+history
+  .command('search')
+  .description('Find queries whose prompt, answer or error contains text')
+  .argument('<text>', 'Text to search for (case-insensitive)')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('-n, --limit <n>', 'Maximum number of matches', '20')
+  .action((text: string, options: { profile: string; limit: string }) => {
+    let limit: number;
+    try {
+      limit = parseLimit(options.limit);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+    const matches = searchHistory(getProfileDir(options.profile), text).slice(0, limit);
+    if (matches.length === 0) {
+      console.log(`No history entries match "${text}".`);
+      return;
+    }
+    matches.forEach((entry) => console.log(formatHistoryLine(entry)));
+  });
+
+history
+  .command('export')
+  .description('Write the whole history to stdout or a file')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('-f, --format <format>', 'jsonl, json or markdown', 'jsonl')
+  .option('--out <file>', 'Write to a file instead of stdout')
+  .action((options: { profile: string; format: string; out?: string }) => {
+    const entries = readHistory(getProfileDir(options.profile));
+    let output: string;
+    switch (options.format) {
+      case 'jsonl':
+        output = entries.map((entry) => JSON.stringify(entry)).join('\n');
+        break;
+      case 'json':
+        output = JSON.stringify(entries, null, 2);
+        break;
+      case 'markdown':
+        output = formatHistoryMarkdown(entries);
+        break;
+      default:
+        console.error(`❌ Error: Unknown export format "${options.format}" (expected jsonl, json or markdown)`);
+        process.exit(1);
+    }
+
+    if (options.out) {
+      fs.writeFileSync(options.out, `${output}\n`, { mode: 0o600 });
+      console.error(`Exported ${entries.length} entries to ${options.out}`);
+    } else {
+      console.log(output);
+    }
+  });
+
+history
+  .command('clear')
+  .description('Delete the history of a profile')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .action(async (options: { profile: string }) => {
+    try {
+      await clearHistory(getProfileDir(options.profile));
+      console.log(`Cleared history for profile "${options.profile}".`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+const profiles = program
+  .command('profiles')
+  .alias('profile')
+  .description('List and manage profiles under ~/.gpt5-pro-cli');
+
+async function describeProfile(name: string): Promise<string> {
+  const stateDir = getProfileDir(name);
+  const session = await summarizeSession(stateDir);
+  const account = readAccountInfo(stateDir)?.email ?? '-';
+  const expiry = session.expiresAt
+    ? ` (${session.state === 'expired' ? 'expired' : 'expires'} ${formatRelative(session.expiresAt)})`
+    : '';
+  return `${name.padEnd(16)}  ${account.padEnd(28)}  ${session.state}${expiry}`;
+}
+
+profiles
+  .command('list')
+  .description('List profiles with their account and session state')
+  .action(async () => {
+    const names = listProfiles();
+    if (names.length === 0) {
+      console.log('No profiles yet. Run: gpt5 login');
+      return;
+    }
+    for (const name of names) {
+      console.log(await describeProfile(name));
+    }
+  });
+
+profiles
+  .command('show')
+  .description('Show the account, login sources and stored data of a profile')
+  .argument('[name]', 'Profile name', 'default')
+  .action(async (name: string) => {
+    const stateDir = getProfileDir(name);
+    if (!profileExists(name)) {
+      console.error(`❌ Error: Profile "${name}" does not exist`);
+      process.exit(1);
+    }
+
+    try {
+      const account = readAccountInfo(stateDir);
+      const session = await summarizeSession(stateDir);
+      const daemonStatus = await getDaemonStatus(name).catch(() => null);
+      console.log(`Profile "${name}"`);
+      console.log(`  directory:    ${stateDir}`);
+      console.log(`  account:      ${account ? `${account.email} (seen ${account.updatedAt})` : 'unknown'}`);
+      console.log(`  session:      ${session.state}${session.expiresAt ? `, expires ${session.expiresAt.toISOString()}` : ''}`);
+      console.log(`  encryption:   ${session.encrypted ? readEncryptionConfig(stateDir)?.source ?? 'env' : 'off'}`);
+      console.log(`  credentials:  ${readCredentialConfig(stateDir)?.type ?? 'default (GPT5_CREDENTIALS or 1password)'}`);
+      console.log(`  otp:          ${readOtpConfig(stateDir)?.type ?? 'default (GPT5_OTP or prompt)'}`);
+      console.log(`  history:      ${readHistory(stateDir).length} entries`);
+      console.log(`  cache:        ${listCacheEntries(stateDir).length} entries`);
+      console.log(`  daemon:       ${daemonStatus ? `running (pid ${daemonStatus.pid})` : 'not running'}`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profiles
+  .command('rm')
+  .description('Delete a profile with its session, history and cache')
+  .argument('<name>', 'Profile name')
+  .option('-y, --yes', 'Do not ask for confirmation', false)
+  .action(async (name: string, options: { yes?: boolean }) => {
+    try {
+      if (!profileExists(name)) {
+        throw new Error(`Profile "${name}" does not exist`);
+      }
+      if (await getDaemonStatus(name).catch(() => null)) {
+        throw new Error(`A daemon is running for profile "${name}"; stop it first with: gpt5 daemon stop -p ${name}`);
+      }
+      if (!options.yes) {
+        if (!process.stdin.isTTY) {
+          throw new Error('Refusing to delete without confirmation; pass --yes');
+        }
+        const answer = await promptLine(`Delete profile "${name}" and everything in ${getProfileDir(name)}? [y/N] `);
+        if (!/^y(es)?$/i.test(answer.trim())) {
+          console.log('Aborted.');
+          return;
+        }
+      }
+      removeProfile(name);
+      console.log(`Deleted profile "${name}".`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profiles
+  .command('rename')
+  .description('Rename a profile')
+  .argument('<from>', 'Current profile name')
+  .argument('<to>', 'New profile name')
+  .action(async (from: string, to: string) => {
+    try {
+      if (await getDaemonStatus(from).catch(() => null)) {
+        throw new Error(`A daemon is running for profile "${from}"; stop it first with: gpt5 daemon stop -p ${from}`);
+      }
+      renameProfile(from, to);
+      console.log(`Renamed profile "${from}" to "${to}".`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profiles
+  .command('encrypt')
+  .description('Encrypt the saved browser session of a profile (also re-keys an encrypted one)')
+  .argument('[name]', 'Profile name', 'default')
+  .option(
+    '-k, --key-source <source>',
+    'Where the key comes from: credentials, env[:VAR] (default GPT5_STATE_KEY) or passphrase',
+    'env'
+  )
+  .action(async (name: string, options: { keySource: string }) => {
+    try {
+      if (!profileExists(name)) {
+        throw new Error(`Profile "${name}" does not exist`);
+      }
+      const source = parseStateKeySource(options.keySource);
+      await migrateBrowserState(getProfileDir(name), source);
+      console.log(`Session of profile "${name}" is now encrypted (key from ${source.source}).`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+profiles
+  .command('decrypt')
+  .description('Store the saved browser session of a profile as plaintext again')
+  .argument('[name]', 'Profile name', 'default')
+  .action(async (name: string) => {
+    try {
+      if (!profileExists(name)) {
+        throw new Error(`Profile "${name}" does not exist`);
+      }
+      await migrateBrowserState(getProfileDir(name), null);
+      console.log(`Session of profile "${name}" is stored unencrypted (readable only by you).`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Bundle passphrases come from GPT5_BUNDLE_KEY, else the terminal.
+async function readBundlePassphrase(question: string): Promise<string> {
+  if (process.env.GPT5_BUNDLE_KEY) {
+    return process.env.GPT5_BUNDLE_KEY;
+  }
+  if (!process.stdin.isTTY) {
+    throw new Error('Set GPT5_BUNDLE_KEY to the bundle passphrase (no terminal to ask on)');
+  }
+  const passphrase = await promptLine(question, true);
+  if (!passphrase) {
+    throw new Error('Passphrase is empty');
+  }
+  return passphrase;
+}
+
+profiles
+  .command('export')
+  .description('Bundle the session, login settings and account of a profile into one file')
+  .argument('<name>', 'Profile name')
+  .argument('<file>', 'Bundle file to write')
+  .option('-e, --encrypt', 'Encrypt the bundle with a passphrase (GPT5_BUNDLE_KEY or asked for)', false)
+  .action(async (name: string, file: string, options: { encrypt?: boolean }) => {
+    try {
+      const bundle = await createProfileBundle(name);
+      const passphrase = options.encrypt ? await readBundlePassphrase('Bundle passphrase: ') : undefined;
+      writeProfileBundle(file, bundle, passphrase);
+      console.log(`Exported profile "${name}"${bundle.account ? ` (${bundle.account})` : ''} to ${file}.`);
+      if (!passphrase) {
+        console.error('⚠️ The bundle holds live session tokens in plaintext; pass --encrypt before copying it around.');
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+interface ImportCommandOptions {
+  as?: string;
+  force?: boolean;
+  allowCommands?: boolean;
+  check?: boolean;
+  verbose?: boolean;
+}
+
+profiles
+  .command('import')
+  .description('Create a profile from a bundle written by "profiles export", then check its session')
+  .argument('<file>', 'Bundle file')
+  .option('--as <name>', 'Profile name to import as (default: the exported name)')
+  .option('-f, --force', 'Import over an existing profile', false)
+  .option('--allow-commands', 'Accept credential or OTP settings that run shell commands', false)
+  .option('--no-check', 'Skip the session check in a headless browser')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (file: string, options: ImportCommandOptions) => {
+    let name: string;
+    try {
+      const passphrase = isBundleEncrypted(file) ? await readBundlePassphrase('Bundle passphrase: ') : undefined;
+      const bundle = readProfileBundle(file, passphrase);
+      name = options.as ?? bundle.profile;
+      await importProfileBundle(bundle, name, { overwrite: options.force, allowCommands: options.allowCommands });
+      for (const command of getBundleCommands(bundle)) {
+        console.error(`⚠️ The profile runs this command at login: ${command}`);
+      }
+      console.log(
+        `Imported profile "${name}"${bundle.account ? ` (${bundle.account})` : ''}, exported ${bundle.exportedAt}.`
+      );
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    if (options.check === false) {
+      process.exit(0);
+    }
+
+    const chatgpt = createChatGPT({ headless: true, profile: name, verbose: options.verbose, logToStderr: true });
+    try {
+      await chatgpt.initialize();
+      const live = await chatgpt.inspectSession();
+      if (!live.loggedIn) {
+        console.error(`❌ The imported session is not logged in; run: gpt5 login --profile ${name}`);
+        await chatgpt.close();
+        process.exit(1);
+      }
+      console.log(`✓ Session works${live.email ? ` for ${live.email}` : ''}.`);
+      await chatgpt.close();
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await chatgpt.close();
+      process.exit(1);
+    }
+  });
+
+program
+  .command('status')
+  .description('Show when the saved session of a profile expires')
+  .option('-p, --profile <name>', 'Profile name', 'default')
+  .option('--live', 'Also open a headless browser and check the session with ChatGPT', false)
+  .option('--warn-within <duration>', 'Warn when the session expires within this time', '3d')
+  .option('--verbose', 'Enable verbose logging', false)
+  .action(async (options: { profile: string; live?: boolean; warnWithin: string; verbose?: boolean }) => {
+    const stateDir = getProfileDir(options.profile);
+    let session;
+    try {
+      session = await summarizeSession(stateDir, { warnWithinMs: parseDuration(options.warnWithin), interactive: true });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    const account = readAccountInfo(stateDir);
+    console.log(`Profile "${options.profile}"`);
+    console.log(`  account:  ${account?.email ?? 'unknown'}`);
+    console.log(`  saved:    ${session.savedAt ? session.savedAt.toISOString() : 'never'}`);
+    if (session.error) {
+      console.log(`  cookies:  unreadable (${session.error})`);
+    } else if (session.cookies.length === 0) {
+      console.log('  cookies:  no session cookies in the saved state');
+    }
+    for (const cookie of session.cookies) {
+      const expiry = cookie.expiresAt
+        ? `${cookie.expiresAt.toISOString()} (${formatRelative(cookie.expiresAt)})`
+        : 'end of browser session';
+      console.log(`  cookie:   ${cookie.name} @ ${cookie.domain}, expires ${expiry}`);
+    }
+
+    let ok = session.state === 'valid' || session.state === 'expiring';
+    if (session.state === 'expiring' && session.expiresAt) {
+      console.error(`⚠️ Session expires ${formatRelative(session.expiresAt)}; run: gpt5 login --profile ${options.profile}`);
+    } else if (!ok) {
+      console.error(`❌ Session ${session.state}; run: gpt5 login --profile ${options.profile}`);
+    }
+
+    if (options.live) {
+      const chatgpt = createChatGPT({ headless: true, profile: options.profile, verbose: options.verbose, logToStderr: true });
+      try {
+        await chatgpt.initialize();
+        const live = await chatgpt.inspectSession();
+        console.log(`  live:     ${live.loggedIn ? 'logged in' : 'not logged in'}${live.email ? ` as ${live.email}` : ''}`);
+        if (live.expiresAt) {
+          console.log(`  server:   session valid until ${live.expiresAt}`);
+        }
+        ok = live.loggedIn;
+      } catch (error) {
+        console.error('❌ Error:', error instanceof Error ? error.message : error);
+        ok = false;
+      } finally {
+        await chatgpt.close();
+      }
+    }
+
+    process.exit(ok ? 0 : 1);
+  });
+
+const config = program
+  .command('config')
+  .description('Show and change defaults in ~/.gpt5-pro-cli/config.json and per-profile config.json');
+
+function configFileFor(profile: string | undefined): string {
+  if (profile && !profileExists(profile)) {
+    throw new Error(`Profile "${profile}" does not exist`);
+  }
+  return profile ? getProfileConfigPath(profile) : getGlobalConfigPath();
+}
+
+function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+function requireConfigKey(key: string): ConfigKey {
+  if (!isConfigKey(key)) {
+    throw new Error(`Unknown config key "${key}" (known keys: ${CONFIG_KEYS.join(', ')})`);
+  }
+  return key;
+}
+
+config
+  .command('list')
+  .description('List every setting with its value and where the value comes from')
+  .option('-p, --profile <name>', 'Profile to resolve the settings for', 'default')
+  .option('--json', 'Print JSON', false)
+  .action((options: { profile: string; json?: boolean }) => {
+    try {
+      const resolved = resolveConfig(options.profile);
+      if (options.json) {
+        console.log(JSON.stringify(resolved, null, 2));
+        return;
+      }
+      for (const key of CONFIG_KEYS) {
+        const value = resolved.values[key];
+        const origin = resolved.origins[key];
+        const detail = value === undefined ? CONFIG_SCHEMA[key].description : `${resolved.sources[key]}: ${origin}`;
+        console.log(`${key.padEnd(16)}  ${(value === undefined ? '-' : formatConfigValue(value)).padEnd(12)}  ${detail}`);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+config
+  .command('get')
+  .description('Print the value of a setting, after config files and environment variables')
+  .argument('<key>', `One of: ${CONFIG_KEYS.join(', ')}`)
+  .option('-p, --profile <name>', 'Profile to resolve the setting for', 'default')
+  .action((key: string, options: { profile: string }) => {
+    try {
+      const value = resolveConfig(options.profile).values[requireConfigKey(key)];
+      if (value === undefined) {
+        process.exit(1);
+      }
+      console.log(formatConfigValue(value));
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+config
+  .command('set')
+  .description('Save a default in the global config, or in a profile\'s config with --profile')
+  .argument('<key>', `One of: ${CONFIG_KEYS.join(', ')}`)
+  .argument('<value>', 'New value')
+  .option('-p, --profile <name>', 'Write to this profile\'s config instead of the global one')
+  .action((key: string, value: string, options: { profile?: string }) => {
+    try {
+      const configKey = requireConfigKey(key);
+      const parsed = parseConfigValue(configKey, value);
+      const filePath = configFileFor(options.profile);
+      writeConfigValue(filePath, configKey, parsed);
+      console.log(`Set ${configKey} = ${formatConfigValue(parsed)} in ${filePath}`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+config
+  .command('unset')
+  .description('Remove a default from the global config, or from a profile\'s config with --profile')
+  .argument('<key>', 'Setting to remove')
+  .option('-p, --profile <name>', 'Remove from this profile\'s config instead of the global one')
+  .action((key: string, options: { profile?: string }) => {
+    try {
+      const filePath = configFileFor(options.profile);
+      if (writeConfigValue(filePath, key, undefined)) {
+        console.log(`Removed ${key} from ${filePath}`);
+      } else {
+        console.log(`${key} is not set in ${filePath}`);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+function historyRetention(): HistoryRetention {
+  return {
+    maxEntries: process.env.GPT5_HISTORY_MAX_ENTRIES ? parseInt(process.env.GPT5_HISTORY_MAX_ENTRIES, 10) : undefined,
+    maxAgeMs: process.env.GPT5_HISTORY_MAX_AGE ? parseDuration(process.env.GPT5_HISTORY_MAX_AGE) : undefined,
+  };
+}
+
+function parseLimit(value: string): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new Error(`--limit must be a whole number of at least 1 (got "${value}")`);
+  }
+  return limit;
+}
+
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+interface ExtractCommandOptions {
+  extractCode?: string;
+  extractPatch?: string | boolean;
+  checkPatch?: boolean;
+}
+
+function extractResponse(response: string, options: ExtractCommandOptions): ExtractedFile[] | null {
+  if (!options.extractCode && !options.extractPatch) {
+    return null;
+  }
+
+  const blocks = parseCodeBlocks(response);
+  const extractOptions = { checkPatches: options.checkPatch };
+  const files = options.extractCode ? writeCodeBlocks(blocks, options.extractCode, extractOptions) : [];
+  if (options.extractPatch) {
+    const patchFile = typeof options.extractPatch === 'string' ? options.extractPatch : 'response.patch';
+    const patch = writePatch(blocks, patchFile, extractOptions);
+    if (patch) files.push(patch);
+  }
+  return files;
+}
+
+program
+  .argument('[prompt]', 'The prompt to send to ChatGPT ("-" reads from stdin)')
+  .option('-f, --prompt-file <path>', 'Read the prompt from a file')
+  .option('-c, --context <glob>', 'Add matching files as fenced context (repeatable)', collect, [])
+  .option('-a, --attach <path>', 'Upload a file (image, PDF, log...) with the prompt (repeatable)', collect, [])
   .option('-v, --visible', 'Show browser window (not headless)', false)
   .option('-p, --profile <name>', 'Profile name for session storage', 'default')
   .option('-m, --model <name>', 'Model to use (e.g., "GPT-5 Pro", "GPT-4")', 'GPT-5 Pro')
   .option('-t, --timeout <ms>', 'Timeout in milliseconds', '60000')
   .option('-r, --retries <n>', 'Number of retries', '2')
+  .option('--continue <id|url>', 'Send the prompt as a follow-up in an existing conversation')
+  .option('--last', 'Continue the most recent conversation of this profile', false)
+  .option('-s, --stream', 'Write the response to stdout as it is generated', false)
+  .option('-o, --output <format>', 'Output format: text, json or jsonl', 'text')
+  .option('--extract-code <dir>', 'Write fenced code blocks from the response into a directory')
+  .option('--extract-patch [file]', 'Write unified diffs from the response into one patch file (default: response.patch)')
+  .option('--check-patch', 'Run "git apply --check" on extracted patches', false)
+  .option('--no-cache', 'Do not read or write the local response cache')
+  .option('--refresh', 'Ask again even if a cached answer exists, and cache the new one', false)
+  .option('--cache-ttl <duration>', 'Maximum age of cached answers, e.g. 12h or 7d', '7d')
+  .option('--no-history', 'Do not record this query in the history store or the response cache')
+  .option('--split', 'Send a prompt over the composer limit in parts, then ask the question', false)
+  .option('--no-daemon', 'Always launch a browser even if a daemon is running')
+  .option('--max-prompt-chars <n>', 'Reject prompts longer than this many characters')
+  .option('--max-prompt-tokens <n>', 'Reject prompts longer than this many tokens')
+  .option('--auto-login', 'Log in again without prompting when the session has expired', false)
+  .option('--no-auto-login', 'Exit when the session has expired even if GPT5_AUTO_LOGIN or the config enables it')
+  .option('--strict-model', 'Fail unless the requested model is confirmed (default for GPT-5 Pro)')
+  .option('--no-strict-model', 'Only warn when the requested model cannot be confirmed')
   .option('--verbose', 'Enable verbose logging', false)
   .action(async (prompt: string | undefined, options: {
     visible?: boolean;
@@ -57,21 +1300,79 @@ program
     timeout?: string;
     retries?: string;
     verbose?: boolean;
-  }) => {
-    if (!prompt) {
+    promptFile?: string;
+    context?: string[];
+    attach?: string[];
+    continue?: string;
+    last?: boolean;
+    stream?: boolean;
+    output?: string;
+    daemon?: boolean;
+    cache?: boolean;
+    refresh?: boolean;
+    cacheTtl: string;
+    history?: boolean;
+    split?: boolean;
+    autoLogin?: boolean;
+    strictModel?: boolean;
+    maxPromptChars?: string;
+    maxPromptTokens?: string;
+  } & ExtractCommandOptions, command: Command) => {
+    let format: OutputFormat;
+    let cacheTtlMs: number;
+    try {
+      format = parseOutputFormat(options.output);
+      cacheTtlMs = parseDuration(options.cacheTtl);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    let assembled;
+    let attachments: string[];
+    try {
+      attachments = resolveAttachments(options.attach ?? []).map((attachment) => attachment.path);
+      assembled = await assemblePrompt({
+        prompt,
+        promptFile: options.promptFile,
+        contextGlobs: options.context,
+      });
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+
+    if (!assembled) {
       console.error('❌ Error: prompt is required\n');
       console.log('Usage: gpt5 "your prompt here"');
+      console.log('   or: cat prompt.md | gpt5 -');
       console.log('   or: gpt5 login  (to login first)\n');
       console.log('Options:');
+      console.log('  -f, --prompt-file    Read the prompt from a file');
+      console.log('  -c, --context <glob> Attach matching files as context (repeatable)');
+      console.log('  -a, --attach <path>  Upload a file with the prompt (repeatable)');
       console.log('  -v, --visible        Show browser window');
       console.log('  -p, --profile <name> Use specific profile (default: "default")');
       console.log('  -m, --model <name>   Specify model (default: "GPT-5 Pro")');
       console.log('  -t, --timeout <ms>   Set timeout (default: 60000)');
       console.log('  -r, --retries <n>    Set retry count (default: 2)');
+      console.log('  --continue <id|url>  Continue an existing conversation');
+      console.log('  --last               Continue the most recent conversation');
+      console.log('  -s, --stream         Print the response while it is generated');
+      console.log('  -o, --output <fmt>   Output format: text, json or jsonl (default: text)');
+      console.log('  --extract-code <dir> Write fenced code blocks from the response into <dir>');
+      console.log('  --extract-patch      Write unified diffs to a patch file (--check-patch to verify)');
+      console.log('  --split              Send an oversized prompt in parts');
       console.log('  --verbose            Enable debug logging');
       process.exit(1);
     }
 
+    // Without history nothing about the query is kept, so no answer is cached either.
+    const historyEnabled = options.history !== false && !process.env.GPT5_NO_HISTORY;
+    let cacheMode: CacheMode = options.cache === false ? 'off' : options.refresh ? 'refresh' : 'use';
+    if (!historyEnabled) {
+      cacheMode = cacheMode === 'use' ? 'read' : 'off';
+    }
     const chatgptOptions: ChatGPTOptions = {
       headless: !options.visible,
       profile: options.profile,
@@ -79,36 +1380,178 @@ program
       timeout: options.timeout ? parseInt(options.timeout, 10) : 60000,
       retries: options.retries ? parseInt(options.retries, 10) : 2,
       verbose: options.verbose,
+      logToStderr: format !== 'text',
+      cache: cacheMode,
+      cacheTtlMs,
+      strictModel: options.strictModel,
+      maxPromptChars: options.maxPromptChars ? parseInt(options.maxPromptChars, 10) : undefined,
+      maxPromptTokens: options.maxPromptTokens ? parseInt(options.maxPromptTokens, 10) : undefined,
+    };
+
+    const chatgpt = createChatGPT(chatgptOptions);
+
+    if (options.continue && options.last) {
+      console.error('❌ Error: use either --continue or --last, not both');
+      process.exit(1);
+    }
+
+    let conversationRef = options.continue;
+    if (options.last) {
+      const last = readLastConversation(chatgpt.getStateDir());
+      if (!last) {
+        console.error(`❌ Error: no previous conversation recorded for profile "${options.profile}"`);
+        process.exit(1);
+      }
+      conversationRef = last.url;
+    }
+
+    const hasContext = assembled.sections.some((section) => section.kind === 'context');
+    let splitPlan: SplitPlan | null = null;
+    try {
+      chatgpt.validatePromptLength(assembled.text);
+      if (options.verbose && hasContext) {
+        console.error(formatTokenBudget(assembled, chatgpt.getPromptLimits()));
+      }
+    } catch (error) {
+      console.error(formatTokenBudget(assembled, chatgpt.getPromptLimits()));
+      if (!options.split) {
+        console.error('❌ Error:', error instanceof Error ? error.message : error);
+        console.error('   (pass --split to send it in several parts)');
+        process.exit(1);
+      }
+      splitPlan = planSplit(assembled, chatgpt.getPromptLimits());
+      console.error(`Prompt is over the composer limit; sending it in ${splitPlan.parts.length} parts.`);
+    }
+
+    const printer = createResultPrinter(format, { stream: options.stream, verbose: options.verbose });
+
+    const queryStartedAt = Date.now();
+    const record = async (exitCode: number, outcome: { result?: QueryResult; error?: unknown }) => {
+      if (!historyEnabled) return;
+      try {
+        const failure = outcome.error !== undefined ? classifyError(outcome.error) : undefined;
+        const entry = createHistoryEntry({
+          prompt: assembled.text,
+          model: options.model ?? 'GPT-5 Pro',
+          startedAt: queryStartedAt,
+          exitCode,
+          attachments,
+          result: outcome.result,
+          error: failure && { type: failure.type, message: failure.message },
+        });
+        await appendHistory(chatgpt.getStateDir(), entry, historyRetention());
+      } catch (error) {
+        console.error('⚠️ Could not write history:', error instanceof Error ? error.message : error);
+      }
     };
 
-    const chatgpt = new ChatGPT(chatgptOptions);
+    // Prints the result, writes extracted files and records the run; returns the exit code.
+    const finish = async (result: QueryResult): Promise<number> => {
+      if (result.cached && format === 'text') {
+        console.error(`(cached answer from ${result.completedAt}; use --refresh to ask again)`);
+      }
+      const extracted = extractResponse(result.response, options);
+      printer.print(result, extracted ? { extracted } : undefined);
+      if (extracted && format === 'text') {
+        console.error(formatManifest(extracted));
+      }
+      const exitCode = extracted?.some((file) => file.check && !file.check.ok) ? 1 : 0;
+      await record(exitCode, { result });
+      return exitCode;
+    };
+
+    if (!conversationRef) {
+      const cached = chatgpt.getCachedResult(assembled.text, { attachments });
+      if (cached) {
+        process.exit(await finish(cached));
+      }
+    }
+
+    const profile = options.profile ?? 'default';
+    const daemonStatus =
+      options.daemon !== false && !options.visible ? await getDaemonStatus(profile).catch(() => null) : null;
+    if (daemonStatus) {
+      if (options.verbose) {
+        console.error(`Using daemon (pid ${daemonStatus.pid}) for profile "${profile}"`);
+      }
+      try {
+        // The cache was already checked above with this run's TTL, so the
+        // daemon only needs to store the new answer.
+        const daemonCache: CacheMode = cacheMode === 'use' ? 'refresh' : cacheMode === 'read' ? 'off' : cacheMode;
+        // Settings left at their defaults fall back to the ones the daemon was started with.
+        const explicit = <T>(key: string, value: T) =>
+          command.getOptionValueSource(key) === 'default' ? undefined : value;
+        const result = await queryDaemon(
+          profile,
+          {
+            prompt: assembled.text,
+            model: options.model,
+            conversation: conversationRef,
+            attachments,
+            cache: daemonCache,
+            strictModel: options.strictModel,
+            split: splitPlan ?? undefined,
+            timeout: explicit('timeout', chatgptOptions.timeout),
+            retries: explicit('retries', chatgptOptions.retries),
+            maxPromptChars: chatgptOptions.maxPromptChars,
+            maxPromptTokens: chatgptOptions.maxPromptTokens,
+            autoLogin: explicit('autoLogin', options.autoLogin),
+          },
+          printer.onProgress
+        );
+        process.exit(await finish(result));
+      } catch (error) {
+        await record(1, { error });
+        printQueryError(error, format);
+        process.exit(1);
+      }
+    }
 
     try {
       await chatgpt.initialize();
 
       const isLoggedIn = await chatgpt.checkSession();
       if (!isLoggedIn) {
-        console.error('❌ Not logged in. Please run: gpt5 login');
-        if (options.profile && options.profile !== 'default') {
-          console.error(`   (with profile: gpt5 login --profile ${options.profile})`);
+        if (!options.autoLogin) {
+          await record(1, { error: new Error('Not logged in') });
+          console.error('❌ Not logged in. Please run: gpt5 login');
+          if (options.profile && options.profile !== 'default') {
+            console.error(`   (with profile: gpt5 login --profile ${options.profile})`);
+          }
+          console.error('   (or pass --auto-login to log in with the saved credentials and OTP source)');
+          process.exit(1);
         }
-        process.exit(1);
+        await chatgpt.autoLogin();
       }
 
-      const response = await chatgpt.query(prompt);
+      const runQuery = async () => {
+        if (conversationRef) {
+          await chatgpt.openConversation(conversationRef);
+        }
+        const queryOptions = { onProgress: printer.onProgress, attachments };
+        return splitPlan
+          ? await chatgpt.querySplit(splitPlan, queryOptions)
+          : await chatgpt.queryDetailed(assembled.text, queryOptions);
+      };
 
-      if (options.verbose) {
-        console.log('\n--- Response ---\n');
-        console.log(response);
-        console.log('\n');
-      } else {
-        console.log(response);
+      let result: QueryResult;
+      try {
+        result = await runQuery();
+      } catch (error) {
+        // The session can also run out between the check and the answer.
+        if (!options.autoLogin || classifyError(error).type !== 'session-expired') {
+          throw error;
+        }
+        await chatgpt.autoLogin();
+        result = await runQuery();
       }
+      const exitCode = await finish(result);
 
       await chatgpt.close();
-      process.exit(0);
+      process.exit(exitCode);
     } catch (error) {
-      console.error('❌ Error:', error instanceof Error ? error.message : error);
+      await record(1, { error });
+      printQueryError(error, format);
       await chatgpt.close();
       process.exit(1);
     }
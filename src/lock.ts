@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+
+/** Runs tasks one at a time in the order they were submitted. */
+export class AsyncLock {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.tail.then(task);
+    this.tail = run.catch(() => undefined);
+    return run;
+  }
+}
+
+export interface FileLockOptions {
+  /** Give up waiting after this long. */
+  timeoutMs?: number;
+  /** A lock older than this is assumed abandoned even if its pid is reused. */
+  staleMs?: number;
+}
+
+/**
+ * Runs `task` while holding an exclusive lock file, so that separate processes
+ * take turns. The file holds the owner's pid; a lock whose owner has exited is
+ * taken over.
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  task: () => Promise<T>,
+  options: FileLockOptions = {}
+): Promise<T> {
+  const timeoutMs = options.timeoutMs ?? 10 * 60 * 1000;
+  const staleMs = options.staleMs ?? 15 * 60 * 1000;
+  const deadline = Date.now() + timeoutMs;
+
+  while (true) {
+    try {
+      fs.writeFileSync(filePath, String(process.pid), { flag: 'wx', mode: 0o600 });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+    }
+
+    if (isStale(filePath, staleMs)) {
+      fs.rmSync(filePath, { force: true });
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new Error(`Timed out waiting for lock ${filePath}`);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+
+  try {
+    return await task();
+  } finally {
+    fs.rmSync(filePath, { force: true });
+  }
+}
+
+function isStale(filePath: string, staleMs: number): boolean {
+  try {
+    const stats = fs.statSync(filePath);
+    if (Date.now() - stats.mtimeMs > staleMs) return true;
+    const pid = parseInt(fs.readFileSync(filePath, 'utf-8'), 10);
+    if (!Number.isFinite(pid)) return false;
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    // ENOENT: released meanwhile; ESRCH: the owner is gone.
+    return (error as NodeJS.ErrnoException).code === 'ESRCH' || (error as NodeJS.ErrnoException).code === 'ENOENT';
+  }
+}
@@ -0,0 +1,309 @@
+import * as fs from 'fs';
+import * as net from 'net';
+import * as path from 'path';
+import * as tls from 'tls';
+
+export interface EmailMessage {
+  /** The Date header, as written by the sender. */
+  date: Date | null;
+  /** When the mailbox received the message: IMAP INTERNALDATE or maildir delivery time. */
+  receivedAt: Date | null;
+  from: string;
+  subject: string;
+  /** Decoded text of all text/plain and text/html parts, tags stripped. */
+  text: string;
+}
+
+export interface ImapOptions {
+  host: string;
+  port?: number;
+  /** Use implicit TLS (imaps). Defaults to true unless the port is 143. */
+  secure?: boolean;
+  user: string;
+  password: string;
+  mailbox?: string;
+}
+
+/**
+ * Parses an RFC 5322 message far enough to read a verification code: headers,
+ * multipart bodies, and base64 or quoted-printable transfer encodings.
+ */
+export function parseEmail(raw: string): EmailMessage {
+  const { headers, body } = splitHeaders(raw);
+  const date = headers.date ? new Date(headers.date) : null;
+  return {
+    date: date && !Number.isNaN(date.getTime()) ? date : null,
+    receivedAt: null,
+    from: decodeHeader(headers.from ?? ''),
+    subject: decodeHeader(headers.subject ?? ''),
+    text: collectText(headers, body).replace(/\s+/g, ' ').trim(),
+  };
+}
+
+/** Finds a 6–8 digit code, preferring one that follows the word "code". */
+export function extractVerificationCode(text: string): string | null {
+  const nearWord = text.match(/code[^0-9]{0,80}?\b(\d{6,8})\b/i);
+  if (nearWord) return nearWord[1];
+  const standalone = text.match(/\b(\d{6})\b/);
+  return standalone ? standalone[1] : null;
+}
+
+/** Messages delivered to a maildir's `new` and `cur` folders at or after `since`, newest first. */
+export function readMaildir(dir: string, since: Date): EmailMessage[] {
+  const files: Array<{ path: string; mtime: number }> = [];
+  for (const folder of ['new', 'cur']) {
+    const folderPath = path.join(dir, folder);
+    if (!fs.existsSync(folderPath)) continue;
+    for (const name of fs.readdirSync(folderPath)) {
+      const filePath = path.join(folderPath, name);
+      const stats = fs.statSync(filePath);
+      if (stats.isFile() && stats.mtimeMs >= since.getTime()) {
+        files.push({ path: filePath, mtime: stats.mtimeMs });
+      }
+    }
+  }
+
+  if (files.length === 0 && !fs.existsSync(path.join(dir, 'new')) && !fs.existsSync(path.join(dir, 'cur'))) {
+    throw new Error(`Not a maildir (no new/ or cur/ folder): ${dir}`);
+  }
+
+  return files
+    .sort((a, b) => b.mtime - a.mtime)
+    .map((file) => ({ ...parseEmail(fs.readFileSync(file.path, 'latin1')), receivedAt: new Date(file.mtime) }));
+}
+
+/**
+ * Fetches messages the server received at or after `since` (by INTERNALDATE,
+ * not the sender's Date header) from an IMAP mailbox, newest first, without
+ * marking them as read. Speaks just enough IMAP4rev1 for LOGIN, EXAMINE,
+ * UID SEARCH and UID FETCH.
+ */
+export async function fetchImapMessages(options: ImapOptions, since: Date, limit: number = 5): Promise<EmailMessage[]> {
+  const connection = await ImapConnection.open(options);
+  try {
+    await connection.command(`LOGIN ${quote(options.user)} ${quote(options.password)}`);
+    await connection.command(`EXAMINE ${quote(options.mailbox ?? 'INBOX')}`);
+
+    // SINCE has day granularity, so the exact time is checked on the messages.
+    const day = new Date(since.getTime() - 24 * 60 * 60 * 1000);
+    const search = await connection.command(`UID SEARCH SINCE ${imapDate(day)}`);
+    const uids = (search.lines.find((line) => line.startsWith('* SEARCH')) ?? '')
+      .replace('* SEARCH', '')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(Number)
+      .sort((a, b) => b - a)
+      .slice(0, limit);
+
+    const messages: EmailMessage[] = [];
+    for (const uid of uids) {
+      const fetched = await connection.command(`UID FETCH ${uid} (INTERNALDATE BODY.PEEK[])`);
+      const raw = fetched.literals[0];
+      if (!raw) continue;
+      const internalDate = fetched.lines.join(' ').match(/INTERNALDATE "([^"]+)"/)?.[1];
+      const receivedAt = internalDate ? parseImapDateTime(internalDate) : null;
+      if (receivedAt && receivedAt.getTime() >= since.getTime()) {
+        messages.push({ ...parseEmail(raw), receivedAt });
+      }
+    }
+    return messages.sort((a, b) => b.receivedAt!.getTime() - a.receivedAt!.getTime());
+  } finally {
+    await connection.command('LOGOUT').catch(() => undefined);
+    connection.close();
+  }
+}
+
+class ImapConnection {
+  private buffer = '';
+  private nextTag = 1;
+  private waiter: (() => void) | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.setEncoding('latin1');
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.waiter?.();
+    });
+    socket.on('error', (error) => {
+      this.failure = error;
+      this.waiter?.();
+    });
+    socket.on('close', () => {
+      this.failure ??= new Error('IMAP server closed the connection');
+      this.waiter?.();
+    });
+  }
+
+  static async open(options: ImapOptions): Promise<ImapConnection> {
+    const port = options.port ?? (options.secure === false ? 143 : 993);
+    const secure = options.secure ?? port !== 143;
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onError = (error: Error) => reject(new Error(`IMAP connection to ${options.host}:${port} failed: ${error.message}`));
+      const connected = secure
+        ? tls.connect({ host: options.host, port, servername: options.host }, () => resolve(connected))
+        : net.connect({ host: options.host, port }, () => resolve(connected));
+      connected.once('error', onError);
+      connected.setTimeout(30_000, () => connected.destroy(new Error('IMAP connection timed out')));
+    });
+
+    const connection = new ImapConnection(socket);
+    const greeting = await connection.readLine();
+    if (!/^\* (OK|PREAUTH)/i.test(greeting)) {
+      connection.close();
+      throw new Error(`Unexpected IMAP greeting: ${greeting}`);
+    }
+    return connection;
+  }
+
+  /** Sends a tagged command and collects untagged lines and literals until its completion. */
+  async command(text: string): Promise<{ lines: string[]; literals: string[] }> {
+    const tag = `A${this.nextTag++}`;
+    this.socket.write(`${tag} ${text}\r\n`);
+
+    const lines: string[] = [];
+    const literals: string[] = [];
+    while (true) {
+      let line = await this.readLine();
+      // A line ending in {n} is followed by n bytes of literal data, then the rest of the line.
+      let literal = line.match(/\{(\d+)\}$/);
+      while (literal) {
+        literals.push(await this.readBytes(Number(literal[1])));
+        const rest = await this.readLine();
+        line += ` ${rest}`;
+        literal = rest.match(/\{(\d+)\}$/);
+      }
+
+      if (line.startsWith(`${tag} `)) {
+        if (!/^\S+ OK/i.test(line)) {
+          throw new Error(`IMAP ${text.split(' ')[0]} failed: ${line.slice(tag.length + 1)}`);
+        }
+        return { lines, literals };
+      }
+      lines.push(line);
+    }
+  }
+
+  close() {
+    this.socket.destroy();
+  }
+
+  private async readLine(): Promise<string> {
+    while (true) {
+      const end = this.buffer.indexOf('\r\n');
+      if (end !== -1) {
+        const line = this.buffer.slice(0, end);
+        this.buffer = this.buffer.slice(end + 2);
+        return line;
+      }
+      await this.waitForData();
+    }
+  }
+
+  private async readBytes(count: number): Promise<string> {
+    while (this.buffer.length < count) {
+      await this.waitForData();
+    }
+    const data = this.buffer.slice(0, count);
+    this.buffer = this.buffer.slice(count);
+    return data;
+  }
+
+  private waitForData(): Promise<void> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = () => {
+        this.waiter = null;
+        if (this.failure) reject(this.failure);
+        else resolve();
+      };
+    });
+  }
+}
+
+function splitHeaders(raw: string): { headers: Record<string, string>; body: string } {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const head = separator === -1 ? normalized : normalized.slice(0, separator);
+  const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+  const headers: Record<string, string> = {};
+  for (const line of head.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+  }
+  return { headers, body };
+}
+
+function collectText(headers: Record<string, string>, body: string): string {
+  const contentType = headers['content-type'] ?? 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    return body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter((part) => !part.startsWith('--'))
+      .map((part) => {
+        const parsed = splitHeaders(part.replace(/^\n/, ''));
+        return collectText(parsed.headers, parsed.body);
+      })
+      .join('\n');
+  }
+  if (!/^text\//i.test(contentType)) {
+    return '';
+  }
+
+  const encoding = (headers['content-transfer-encoding'] ?? '').toLowerCase();
+  let text = body;
+  if (encoding === 'base64') {
+    text = Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+  } else if (encoding === 'quoted-printable') {
+    text = Buffer.from(
+      body.replace(/=\n/g, '').replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+      'latin1'
+    ).toString('utf-8');
+  }
+  return /^text\/html/i.test(contentType) ? text.replace(/<style[\s\S]*?<\/style>|<[^>]+>/gi, ' ') : text;
+}
+
+/** Decodes RFC 2047 encoded words such as `=?UTF-8?B?...?=`. */
+function decodeHeader(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, _charset, kind: string, data: string) =>
+    kind.toUpperCase() === 'B'
+      ? Buffer.from(data, 'base64').toString('utf-8')
+      : Buffer.from(
+          data.replace(/_/g, ' ').replace(/=([0-9A-F]{2})/gi, (_match, hex) => String.fromCharCode(parseInt(hex, 16))),
+          'latin1'
+        ).toString('utf-8')
+  );
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function imapDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+/** Parses an INTERNALDATE such as `17-Jul-2026 02:44:25 -0700`. */
+function parseImapDateTime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{1,2})-([A-Za-z]{3})-(\d{4}) (\d{2}):(\d{2}):(\d{2}) ([+-])(\d{2})(\d{2})$/);
+  const month = match ? MONTHS.findIndex((name) => name.toLowerCase() === match[2].toLowerCase()) : -1;
+  if (!match || month === -1) {
+    return null;
+  }
+  const [, day, , year, hours, minutes, seconds, sign, zoneHours, zoneMinutes] = match;
+  const offsetMs = (sign === '-' ? -1 : 1) * (Number(zoneHours) * 60 + Number(zoneMinutes)) * 60_000;
+  return new Date(
+    Date.UTC(Number(year), month, Number(day), Number(hours), Number(minutes), Number(seconds)) - offsetMs
+  );
+}
@@ -0,0 +1,183 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { ChatGPT, type ChatGPTOptions, type QueryResult, type ResponseStreamEvent } from './chatgpt.js';
+import { assemblePrompt } from './prompt.js';
+import { PagePool } from './pool.js';
+
+const PROGRESS_INTERVAL_MS = 10_000;
+
+export interface McpServerOptions {
+  chatgpt: ChatGPTOptions;
+  version: string;
+  /** Number of tool calls that may run at once, each in its own tab. */
+  concurrency?: number;
+}
+
+/**
+ * Runs an MCP server over stdio. The browser is launched on the first tool
+ * call and reused afterwards; tool calls run in a pool of tabs.
+ */
+export async function runMcpServer(options: McpServerOptions): Promise<void> {
+  const chatgpt = new ChatGPT({ ...options.chatgpt, logToStderr: true });
+  const { server, pool } = createMcpServer(chatgpt, options);
+
+  const shutdown = async () => {
+    await server.close().catch(() => {});
+    await pool.close();
+    await chatgpt.close();
+    process.exit(0);
+  };
+  process.once('SIGINT', shutdown);
+  process.once('SIGTERM', shutdown);
+  process.stdin.once('close', shutdown);
+
+  await server.connect(new StdioServerTransport());
+}
+
+/**
+ * Registers the tools on a server that is not yet connected. `chatgpt` is
+ * initialized on the first tool call; closing it is left to the caller.
+ */
+export function createMcpServer(
+  chatgpt: ChatGPT,
+  options: Pick<McpServerOptions, 'version' | 'concurrency'>
+): { server: McpServer; pool: PagePool } {
+  const pool = new PagePool(chatgpt, { concurrency: options.concurrency ?? 1 });
+  let ready: Promise<void> | null = null;
+
+  const ensureReady = () => {
+    ready ??= (async () => {
+      await chatgpt.initialize();
+      if (!(await chatgpt.checkSession())) {
+        throw new Error('Not logged in. Run "gpt5 login" for this profile first.');
+      }
+    })().catch((error) => {
+      ready = null;
+      throw error;
+    });
+    return ready;
+  };
+
+  const server = new McpServer({ name: 'gpt5-pro', version: options.version });
+
+  server.registerTool(
+    'ask',
+    {
+      title: 'Ask GPT-5 Pro',
+      description:
+        'Ask ChatGPT a question in a new conversation. Slow (Pro answers can take up to 30 minutes) but thorough; ' +
+        'use it when stuck. Returns the answer and the conversation id for follow-ups.',
+      inputSchema: {
+        prompt: z.string().min(1).describe('The question, with all context needed to answer it'),
+        model: z.string().optional().describe('Model name, e.g. "gpt-5-pro" (default) or "gpt-5-thinking"'),
+        files: z
+          .array(z.string())
+          .optional()
+          .describe('File paths or globs to include in the prompt as fenced context'),
+      },
+    },
+    async ({ prompt, model, files }, extra) => {
+      const assembled = await assemblePrompt({ prompt, contextGlobs: files, allowStdin: false });
+      if (!assembled) {
+        throw new Error('prompt is empty');
+      }
+
+      const result = await withProgress(extra, async (onProgress) => {
+        await ensureReady();
+        return pool.run(async (tab) => {
+          await tab.newChat();
+          return tab.queryDetailed(assembled.text, { model, onProgress });
+        });
+      });
+      return toolResult(result);
+    }
+  );
+
+  server.registerTool(
+    'continue',
+    {
+      title: 'Continue a GPT-5 Pro conversation',
+      description: 'Send a follow-up message to a conversation started by "ask".',
+      inputSchema: {
+        conversation: z.string().min(1).describe('Conversation id or URL returned by a previous call'),
+        prompt: z.string().min(1).describe('The follow-up message'),
+        model: z.string().optional().describe('Model to switch to for this turn'),
+      },
+    },
+    async ({ conversation, prompt, model }, extra) => {
+      const result = await withProgress(extra, async (onProgress) => {
+        await ensureReady();
+        return pool.run(async (tab) => {
+          await tab.openConversation(conversation);
+          return tab.queryDetailed(prompt, { model, onProgress });
+        });
+      });
+      return toolResult(result);
+    }
+  );
+
+  return { server, pool };
+}
+
+/**
+ * Sends an MCP progress notification every few seconds while a call is queued
+ * or waiting on the answer, so clients that reset their timeout on progress do
+ * not give up during long Pro runs.
+ */
+async function withProgress(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  run: (onProgress: (event: ResponseStreamEvent) => void) => Promise<QueryResult>
+): Promise<QueryResult> {
+  const progressToken = extra._meta?.progressToken;
+  const startedAt = Date.now();
+  let progress = 0;
+  let receivedChars = 0;
+
+  const notify = (message: string) => {
+    if (progressToken === undefined) return;
+    progress++;
+    extra
+      .sendNotification({
+        method: 'notifications/progress',
+        params: { progressToken, progress, message },
+      })
+      .catch(() => {});
+  };
+
+  const timer = setInterval(() => {
+    const elapsed = Math.round((Date.now() - startedAt) / 1000);
+    notify(
+      receivedChars > 0
+        ? `Receiving answer (${receivedChars} characters, ${elapsed}s elapsed)`
+        : `Waiting for answer (${elapsed}s elapsed)`
+    );
+  }, PROGRESS_INTERVAL_MS);
+
+  try {
+    return await run((event) => {
+      if (event.type === 'delta') {
+        receivedChars = event.text.length;
+      }
+    });
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+function toolResult(result: QueryResult) {
+  const footer = result.conversation ? `\n\n---\nconversation: ${result.conversation.id}` : '';
+  return {
+    content: [{ type: 'text' as const, text: `${result.response}${footer}` }],
+    structuredContent: {
+      response: result.response,
+      conversationId: result.conversation?.id ?? null,
+      conversationUrl: result.conversation?.url ?? null,
+      model: result.model.displayName ?? result.model.requested,
+      modelConfirmed: result.model.confirmed,
+      answeredBy: result.model.answeredBy ?? null,
+    },
+  };
+}
@@ -0,0 +1,279 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getRootDir } from './paths.js';
+
+const MODELS_CONFIG_FILE = 'models.json';
+
+export interface ModelPreStep {
+  testId?: string;
+  text?: string;
+}
+
+export interface ModelDefinition {
+  key: string;
+  displayName: string;
+  verifyTokens: string[];
+  optionTestIds: string[];
+  fallbackTexts: string[];
+  preSteps?: ModelPreStep[];
+  /** Model slugs ChatGPT records on assistant turns answered by this model (default: the key). */
+  slugs?: string[];
+  /** Fail instead of warning when the switch or the answering model cannot be confirmed. */
+  strict?: boolean;
+  /** Where the definition came from; user entries replace built-in fields. */
+  source?: 'built-in' | 'user';
+}
+
+export interface ModelRegistry {
+  definitions: Record<string, ModelDefinition>;
+  /** Normalized alias -> definition key. */
+  aliases: Record<string, string>;
+}
+
+/** A model option found in the live picker by `discoverModelOptions`. */
+export interface DiscoveredModelOption {
+  testId: string;
+  label: string;
+  /** Test id of the submenu the option sits in, if any. */
+  submenu: string | null;
+}
+
+const BUILTIN_MODELS: ModelDefinition[] = [
+  {
+    key: 'gpt-5',
+    displayName: 'GPT-5 Auto',
+    verifyTokens: ['chatgpt 5', 'gpt-5'],
+    optionTestIds: ['model-switcher-gpt-5'],
+    fallbackTexts: ['GPT-5', 'Auto'],
+    // Auto routes each turn to one of these.
+    slugs: ['gpt-5', 'gpt-5-instant', 'gpt-5-thinking']
+  },
+  {
+    key: 'gpt-5-auto',
+    displayName: 'GPT-5 Auto',
+    verifyTokens: ['chatgpt 5', 'gpt-5'],
+    optionTestIds: ['model-switcher-gpt-5'],
+    fallbackTexts: ['GPT-5', 'Auto'],
+    slugs: ['gpt-5', 'gpt-5-instant', 'gpt-5-thinking']
+  },
+  {
+    key: 'gpt-5-instant',
+    displayName: 'GPT-5 Instant',
+    verifyTokens: ['instant'],
+    optionTestIds: ['model-switcher-gpt-5-instant'],
+    fallbackTexts: ['Instant']
+  },
+  {
+    key: 'gpt-5-thinking',
+    displayName: 'GPT-5 Thinking',
+    verifyTokens: ['thinking'],
+    optionTestIds: ['model-switcher-gpt-5-thinking'],
+    fallbackTexts: ['Thinking']
+  },
+  {
+    key: 'gpt-5-pro',
+    displayName: 'GPT-5 Pro',
+    verifyTokens: ['pro'],
+    optionTestIds: ['model-switcher-gpt-5-pro'],
+    fallbackTexts: ['Pro'],
+    strict: true
+  },
+  {
+    key: 'gpt-4o',
+    displayName: 'GPT-4o',
+    verifyTokens: ['gpt-4o'],
+    optionTestIds: ['model-switcher-gpt-4o'],
+    fallbackTexts: ['GPT-4o'],
+    preSteps: [{ testId: 'Legacy models-submenu' }]
+  },
+  {
+    key: 'gpt-4o-mini',
+    displayName: 'GPT-4o mini',
+    verifyTokens: ['gpt-4o mini', 'mini'],
+    optionTestIds: ['model-switcher-gpt-4o-mini'],
+    fallbackTexts: ['GPT-4o mini'],
+    preSteps: [{ testId: 'Legacy models-submenu' }]
+  }
+];
+
+const BUILTIN_ALIASES: Record<string, string> = {
+  'chatgpt-5': 'gpt-5',
+  'gpt5': 'gpt-5',
+  'gpt5-auto': 'gpt-5',
+  'gpt5-pro': 'gpt-5-pro',
+  'gpt5-instant': 'gpt-5-instant',
+  'gpt5-thinking': 'gpt-5-thinking',
+  'gpt-5auto': 'gpt-5',
+  'gpt-5pro': 'gpt-5-pro',
+  'gpt-5instant': 'gpt-5-instant',
+  'gpt-5thinking': 'gpt-5-thinking',
+  'gpt-4': 'gpt-4o',
+  'gpt4': 'gpt-4o',
+  'gpt4o': 'gpt-4o',
+  'gpt4omini': 'gpt-4o-mini',
+  'gpt-4omini': 'gpt-4o-mini',
+  'gpt-4o-mini': 'gpt-4o-mini',
+  'gpt-4o-mini-high': 'gpt-4o-mini'
+};
+
+/** The user models file: `GPT5_MODELS_FILE`, else `~/.gpt5-pro-cli/models.json`. */
+export function getModelsConfigPath(): string {
+  return process.env.GPT5_MODELS_FILE ?? path.join(getRootDir(), MODELS_CONFIG_FILE);
+}
+
+export function normalizeModelName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, '-');
+}
+
+/**
+ * Built-in definitions merged with the user's models file. The file looks like
+ *
+ *   {
+ *     "models": {
+ *       "gpt-5-pro": { "optionTestIds": ["model-switcher-gpt-5-pro", "model-switcher-pro"] },
+ *       "o3": { "displayName": "o3", "verifyTokens": ["o3"], "aliases": ["o-3"],
+ *               "preSteps": [{ "testId": "Legacy models-submenu" }] }
+ *     },
+ *     "aliases": { "pro": "gpt-5-pro" }
+ *   }
+ *
+ * Fields given for a built-in model replace the built-in ones; new models
+ * default to their key for the label, test id, fallback text and turn slug.
+ * `slugs` and `strict` are optional too.
+ */
+export function loadModelRegistry(configPath: string = getModelsConfigPath()): ModelRegistry {
+  const definitions: Record<string, ModelDefinition> = {};
+  for (const definition of BUILTIN_MODELS) {
+    definitions[definition.key] = { ...definition, source: 'built-in' };
+  }
+  const aliases: Record<string, string> = { ...BUILTIN_ALIASES };
+
+  if (!fs.existsSync(configPath)) {
+    return { definitions, aliases };
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isObject(config)) {
+    throw new Error(`${configPath}: expected a JSON object`);
+  }
+
+  const models = config.models ?? {};
+  if (!isObject(models)) {
+    throw new Error(`${configPath}: "models" must be an object keyed by model name`);
+  }
+  for (const [rawKey, entry] of Object.entries(models)) {
+    const key = normalizeModelName(rawKey);
+    const where = `${configPath}: models.${rawKey}`;
+    if (!isObject(entry)) {
+      throw new Error(`${where} must be an object`);
+    }
+
+    const base = definitions[key];
+    const displayName = optionalString(entry.displayName, `${where}.displayName`) ?? base?.displayName ?? rawKey;
+    definitions[key] = {
+      key,
+      displayName,
+      verifyTokens:
+        stringList(entry.verifyTokens, `${where}.verifyTokens`)?.map((token) => token.toLowerCase()) ??
+        base?.verifyTokens ??
+        [displayName.toLowerCase()],
+      optionTestIds:
+        stringList(entry.optionTestIds, `${where}.optionTestIds`) ?? base?.optionTestIds ?? [`model-switcher-${key}`],
+      fallbackTexts: stringList(entry.fallbackTexts, `${where}.fallbackTexts`) ?? base?.fallbackTexts ?? [displayName],
+      preSteps: preStepList(entry.preSteps, `${where}.preSteps`) ?? base?.preSteps,
+      slugs: stringList(entry.slugs, `${where}.slugs`) ?? base?.slugs,
+      strict: optionalBoolean(entry.strict, `${where}.strict`) ?? base?.strict,
+      source: 'user',
+    };
+
+    for (const alias of stringList(entry.aliases, `${where}.aliases`) ?? []) {
+      aliases[normalizeModelName(alias)] = key;
+    }
+  }
+
+  const extraAliases = config.aliases ?? {};
+  if (!isObject(extraAliases)) {
+    throw new Error(`${configPath}: "aliases" must map alias names to model keys`);
+  }
+  for (const [alias, target] of Object.entries(extraAliases)) {
+    if (typeof target !== 'string' || !definitions[normalizeModelName(target)]) {
+      throw new Error(`${configPath}: alias "${alias}" points at unknown model "${String(target)}"`);
+    }
+    aliases[normalizeModelName(alias)] = normalizeModelName(target);
+  }
+
+  return { definitions, aliases };
+}
+
+export function resolveModel(registry: ModelRegistry, modelName: string): ModelDefinition | null {
+  const normalized = normalizeModelName(modelName);
+  const key = registry.aliases[normalized] ?? normalized;
+  return registry.definitions[key] ?? null;
+}
+
+/** Aliases pointing at each model key. */
+export function aliasesByModel(registry: ModelRegistry): Record<string, string[]> {
+  const byModel: Record<string, string[]> = {};
+  for (const [alias, key] of Object.entries(registry.aliases)) {
+    (byModel[key] ??= []).push(alias);
+  }
+  return byModel;
+}
+
+/** Whether the slug recorded on an assistant turn belongs to this model. */
+export function matchesTurnSlug(definition: ModelDefinition, slug: string): boolean {
+  return (definition.slugs ?? [definition.key]).some((candidate) => candidate.toLowerCase() === slug.toLowerCase());
+}
+
+/** Whether a definition would find an option in the picker as it was discovered. */
+export function matchesDiscoveredOption(definition: ModelDefinition, options: DiscoveredModelOption[]): boolean {
+  return options.some(
+    (option) =>
+      definition.optionTestIds.includes(option.testId) ||
+      definition.fallbackTexts.some((text) => option.label.toLowerCase().includes(text.toLowerCase()))
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, where: string): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${where} must be a non-empty string`);
+  }
+  return value;
+}
+
+function optionalBoolean(value: unknown, where: string): boolean | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new Error(`${where} must be true or false`);
+  }
+  return value;
+}
+
+function stringList(value: unknown, where: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string')) {
+    throw new Error(`${where} must be an array of strings`);
+  }
+  return value as string[];
+}
+
+function preStepList(value: unknown, where: string): ModelPreStep[] | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !Array.isArray(value) ||
+    value.some((step) => !isObject(step) || (typeof step.testId !== 'string' && typeof step.text !== 'string'))
+  ) {
+    throw new Error(`${where} must be an array of { "testId" } or { "text" } steps`);
+  }
+  return value as ModelPreStep[];
+}
@@ -0,0 +1,265 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHmac } from 'crypto';
+import { execSync } from 'child_process';
+import type { CredentialProvider } from './credentials.js';
+import { extractVerificationCode, fetchImapMessages, readMaildir, type EmailMessage } from './mail.js';
+import { writePrivateFile } from './state.js';
+
+const OTP_CONFIG_FILE = 'otp.json';
+const DEFAULT_MAIL_TIMEOUT_MS = 180_000;
+const MAIL_POLL_INTERVAL_MS = 5000;
+const DEFAULT_SENDER_PATTERN = 'openai|chatgpt';
+
+export interface OtpRequest {
+  /** When the code was requested; older emails are ignored. */
+  requestedAt: Date;
+}
+
+export interface OtpSource {
+  readonly name: string;
+  getCode(request: OtpRequest): Promise<string>;
+}
+
+export type OtpSourceConfig =
+  | { type: 'totp' }
+  | { type: 'maildir'; path: string; from?: string; timeoutMs?: number }
+  | {
+      type: 'imap';
+      host: string;
+      port?: number;
+      secure?: boolean;
+      user: string;
+      /** Environment variable holding the IMAP password. */
+      passwordVar?: string;
+      mailbox?: string;
+      from?: string;
+      timeoutMs?: number;
+    }
+  | { type: 'command'; command: string }
+  | { type: 'prompt' };
+
+export const OTP_SOURCE_TYPES = ['totp', 'maildir', 'imap', 'command', 'prompt'] as const;
+
+/**
+ * Parses the `--otp` value:
+ *
+ *   totp                               secret from the credential provider
+ *   maildir:<path>                     newest OpenAI mail in a local maildir
+ *   imap[s]://user@host[:port][/box]   password from GPT5_IMAP_PASSWORD
+ *   command:<shell command>            prints the code
+ *   prompt                             asks on the terminal
+ */
+export function parseOtpSpec(spec: string): OtpSourceConfig {
+  const trimmed = spec.trim();
+
+  if (/^imaps?:\/\//i.test(trimmed)) {
+    const url = new URL(trimmed);
+    if (!url.username || !url.hostname) {
+      throw new Error('Expected --otp imaps://user@host[:port][/mailbox]');
+    }
+    return {
+      type: 'imap',
+      host: url.hostname,
+      port: url.port ? Number(url.port) : undefined,
+      secure: url.protocol === 'imaps:',
+      user: decodeURIComponent(url.username),
+      mailbox: url.pathname.length > 1 ? decodeURIComponent(url.pathname.slice(1)) : undefined,
+    };
+  }
+
+  const separator = trimmed.indexOf(':');
+  const type = (separator === -1 ? trimmed : trimmed.slice(0, separator)).toLowerCase();
+  const argument = separator === -1 ? '' : trimmed.slice(separator + 1).trim();
+
+  switch (type) {
+    case 'totp':
+      return { type: 'totp' };
+    case 'maildir':
+      if (!argument) throw new Error('Expected --otp maildir:<path>');
+      return { type: 'maildir', path: path.resolve(argument.replace(/^~(?=\/|$)/, process.env.HOME ?? '~')) };
+    case 'command':
+      if (!argument) throw new Error('Expected --otp command:<command>');
+      return { type: 'command', command: argument };
+    case 'prompt':
+      return { type: 'prompt' };
+    default:
+      throw new Error(`Unknown OTP source "${type}" (expected one of: ${OTP_SOURCE_TYPES.join(', ')})`);
+  }
+}
+
+export function readOtpConfig(stateDir: string): OtpSourceConfig | null {
+  const filePath = path.join(stateDir, OTP_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if ((OTP_SOURCE_TYPES as readonly string[]).includes(config?.type)) {
+      return config as OtpSourceConfig;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error(`Invalid OTP source config in ${filePath}`);
+}
+
+export function writeOtpConfig(stateDir: string, config: OtpSourceConfig): void {
+  fs.mkdirSync(stateDir, { recursive: true });
+  writePrivateFile(path.join(stateDir, OTP_CONFIG_FILE), JSON.stringify(config, null, 2));
+}
+
+/**
+ * Builds the source configured for the profile (or via `GPT5_OTP`). Returns
+ * null when none is configured, in which case the caller prompts.
+ */
+export function resolveOtpSource(stateDir: string, credentials: CredentialProvider): OtpSource | null {
+  const config = readOtpConfig(stateDir) ?? (process.env.GPT5_OTP ? parseOtpSpec(process.env.GPT5_OTP) : null);
+  if (!config || config.type === 'prompt') {
+    return null;
+  }
+  return createOtpSource(config, credentials);
+}
+
+export function createOtpSource(config: Exclude<OtpSourceConfig, { type: 'prompt' }>, credentials: CredentialProvider): OtpSource {
+  switch (config.type) {
+    case 'totp':
+      return {
+        name: `TOTP (secret from ${credentials.name})`,
+        async getCode() {
+          if (!credentials.getTotpSecret) {
+            throw new Error(`Credential provider ${credentials.name} cannot supply a TOTP secret`);
+          }
+          return generateTotp(await credentials.getTotpSecret());
+        },
+      };
+    case 'maildir':
+      return mailSource(`maildir ${config.path}`, config, async (since) => readMaildir(config.path, since));
+    case 'imap': {
+      const passwordVar = config.passwordVar ?? 'GPT5_IMAP_PASSWORD';
+      return mailSource(`IMAP ${config.user}@${config.host}`, config, async (since) => {
+        const password = process.env[passwordVar];
+        if (!password) {
+          throw new Error(`${passwordVar} is not set`);
+        }
+        return fetchImapMessages({ ...config, password }, since);
+      });
+    }
+    case 'command':
+      return {
+        name: `command (${config.command})`,
+        async getCode() {
+          let output: string;
+          try {
+            output = execSync(config.command, { encoding: 'utf-8', stdio: ['inherit', 'pipe', 'inherit'] });
+          } catch (error) {
+            throw new Error(`OTP command failed: ${error instanceof Error ? error.message : error}`);
+          }
+          const code = output.replace(/\s+/g, '');
+          if (!/^\d{4,10}$/.test(code)) {
+            throw new Error(`OTP command printed no code (got "${output.trim().slice(0, 40)}")`);
+          }
+          return code;
+        },
+      };
+  }
+}
+
+// Codes already handed out, per mail source, so a second login in the same
+// process does not pick up the email of the first.
+const consumedCodes = new Map<string, Set<string>>();
+
+/**
+ * Polls a mailbox for the verification email. Only messages the mailbox
+ * received after the code was requested count (INTERNALDATE for IMAP, the
+ * delivery time for maildir), so the mail server and this machine need
+ * roughly synchronized clocks.
+ */
+function mailSource(
+  name: string,
+  config: { from?: string; timeoutMs?: number },
+  fetchMessages: (since: Date) => Promise<EmailMessage[]>
+): OtpSource {
+  const sender = new RegExp(config.from ?? DEFAULT_SENDER_PATTERN, 'i');
+  const timeoutMs = config.timeoutMs ?? DEFAULT_MAIL_TIMEOUT_MS;
+  const consumed = consumedCodes.get(name) ?? new Set<string>();
+  consumedCodes.set(name, consumed);
+
+  return {
+    name,
+    async getCode({ requestedAt }) {
+      // INTERNALDATE has whole seconds.
+      const since = new Date(Math.floor(requestedAt.getTime() / 1000) * 1000);
+      const deadline = Date.now() + timeoutMs;
+
+      while (true) {
+        for (const message of await fetchMessages(since)) {
+          if (!sender.test(message.from)) continue;
+          const code = extractVerificationCode(`${message.subject} ${message.text}`);
+          if (code && !consumed.has(code)) {
+            consumed.add(code);
+            return code;
+          }
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(`No verification email arrived in ${name} within ${Math.round(timeoutMs / 1000)}s`);
+        }
+        await new Promise((resolve) => setTimeout(resolve, MAIL_POLL_INTERVAL_MS));
+      }
+    },
+  };
+}
+
+/**
+ * RFC 6238 TOTP. Accepts a base32 secret or an `otpauth://totp/...` URI, whose
+ * digits, period and algorithm parameters are honoured.
+ */
+export function generateTotp(secretOrUri: string, now: number = Date.now()): string {
+  let secret = secretOrUri.trim();
+  let digits = 6;
+  let period = 30;
+  let algorithm = 'sha1';
+
+  if (secret.startsWith('otpauth://')) {
+    const params = new URL(secret).searchParams;
+    secret = params.get('secret') ?? '';
+    digits = Number(params.get('digits') ?? digits);
+    period = Number(params.get('period') ?? period);
+    algorithm = (params.get('algorithm') ?? algorithm).toLowerCase();
+  }
+
+  const key = decodeBase32(secret);
+  if (key.length === 0) {
+    throw new Error('TOTP secret is empty');
+  }
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / period)));
+  const hmac = createHmac(algorithm, key).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, '0');
+}
+
+function decodeBase32(value: string): Buffer {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const clean = value.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let accumulator = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = alphabet.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character "${char}" in TOTP secret`);
+    }
+    accumulator = ((accumulator << 5) | index) & 0xffff;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((accumulator >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
@@ -0,0 +1,166 @@
+import * as readline from 'readline';
+import type { QueryResult, ResponseStreamEvent } from './chatgpt.js';
+import { ChatGPTError } from './errors.js';
+
+export type OutputFormat = 'text' | 'json' | 'jsonl';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'jsonl'];
+
+export function parseOutputFormat(value: string | undefined): OutputFormat {
+  const normalized = (value ?? 'text').trim().toLowerCase();
+  if ((OUTPUT_FORMATS as string[]).includes(normalized)) {
+    return normalized as OutputFormat;
+  }
+  throw new Error(`Unknown output format "${value}" (expected one of: ${OUTPUT_FORMATS.join(', ')})`);
+}
+
+/**
+ * `json` prints one pretty-printed object per run. `jsonl` prints one compact
+ * object per line, tagged with a `type` so stream deltas and the final result
+ * can share a single stream.
+ */
+export function formatResult(
+  result: QueryResult,
+  format: Exclude<OutputFormat, 'text'>,
+  extra: Record<string, unknown> = {}
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ ...result, ...extra }, null, 2);
+  }
+  return JSON.stringify({ type: 'result', ...result, ...extra });
+}
+
+export interface ResultPrinter {
+  onProgress?: (event: ResponseStreamEvent) => void;
+  /** `extra` fields are merged into JSON output and ignored for text. */
+  print(result: QueryResult, extra?: Record<string, unknown>): void;
+}
+
+/**
+ * Writes query output to stdout in the requested format. With `stream`, text
+ * output is previewed on the terminal as it arrives and `jsonl` emits `delta`
+ * lines before the final result; `json` always prints once at the end.
+ */
+export function createResultPrinter(
+  format: OutputFormat,
+  options: { stream?: boolean; verbose?: boolean } = {}
+): ResultPrinter {
+  if (format !== 'text') {
+    return {
+      onProgress:
+        options.stream && format === 'jsonl'
+          ? (event) => {
+              if (event.type === 'delta') console.log(formatStreamEvent(event));
+            }
+          : undefined,
+      print: (result, extra) => console.log(formatResult(result, format, extra)),
+    };
+  }
+
+  const printConversation = (result: QueryResult) => {
+    if (options.verbose) {
+      console.error(`Model: ${describeModel(result)}`);
+    }
+    if (result.conversation) {
+      console.error(`Conversation: ${result.conversation.url}`);
+    }
+  };
+
+  if (options.stream) {
+    // The streamed page text lacks markdown syntax, so it is only a preview:
+    // shown on whichever of stdout and stderr is a terminal, and never left in
+    // redirected output, which gets the final markdown alone.
+    const preview = process.stdout.isTTY ? process.stdout : process.stderr.isTTY ? process.stderr : null;
+    let printed = '';
+    return {
+      onProgress: (event) => {
+        // Rewrites of text that was already printed cannot be undone, so only
+        // text that extends the printed prefix is written.
+        if (preview && event.type === 'delta' && event.text.startsWith(printed)) {
+          preview.write(event.text.slice(printed.length));
+          printed = event.text;
+        }
+      },
+      print: (result) => {
+        if (preview === process.stdout && result.response.startsWith(printed)) {
+          process.stdout.write(`${result.response.slice(printed.length)}\n`);
+        } else {
+          if (preview) erasePreview(preview, printed);
+          process.stdout.write(`${result.response}\n`);
+        }
+        printConversation(result);
+      },
+    };
+  }
+
+  return {
+    print: (result) => {
+      if (options.verbose) {
+        console.log('\n--- Response ---\n');
+        console.log(result.response);
+        console.log('\n');
+      } else {
+        console.log(result.response);
+      }
+      printConversation(result);
+    },
+  };
+}
+
+/** Clears streamed text from the terminal, as much of it as is still on screen. */
+function erasePreview(stream: NodeJS.WriteStream, text: string) {
+  if (!text) return;
+  const columns = stream.columns || 80;
+  const rows = text.split('\n').reduce((total, line) => total + Math.max(1, Math.ceil(line.length / columns)), 0);
+  readline.moveCursor(stream, 0, 1 - Math.min(rows, stream.rows || rows));
+  readline.cursorTo(stream, 0);
+  readline.clearScreenDown(stream);
+}
+
+/** "GPT-5 Pro (answered by gpt-5-pro; confirmed by picker, turn)" */
+export function describeModel(result: QueryResult): string {
+  const { model } = result;
+  const details = [
+    model.answeredBy ? `answered by ${model.answeredBy}` : null,
+    model.confirmed ? `confirmed by ${model.confirmedBy?.join(', ') || 'picker'}` : 'unconfirmed',
+  ].filter(Boolean);
+  return `${model.displayName ?? model.requested} (${details.join('; ')})`;
+}
+
+export function formatStreamEvent(event: ResponseStreamEvent): string {
+  return JSON.stringify(event);
+}
+
+export function formatError(error: unknown, format: Exclude<OutputFormat, 'text'>): string {
+  const message = error instanceof Error ? error.message : String(error);
+  const type = error instanceof ChatGPTError ? error.type : 'unknown';
+  const payload = { error: { type, message, ...rejectedAnswer(error) } };
+  if (format === 'json') {
+    return JSON.stringify(payload, null, 2);
+  }
+  return JSON.stringify({ type: 'error', ...payload });
+}
+
+/**
+ * Reports a failed query: the error on stderr (and stdout for JSON formats),
+ * plus any answer that arrived but was rejected, so it is not lost.
+ */
+export function printQueryError(error: unknown, format: OutputFormat): void {
+  if (format !== 'text') {
+    console.log(formatError(error, format));
+  } else {
+    const rejected = rejectedAnswer(error);
+    if (rejected.response !== undefined) {
+      console.error(`--- Rejected answer${rejected.answeredBy ? ` from ${rejected.answeredBy}` : ''} ---`);
+      console.log(rejected.response);
+    }
+  }
+  console.error('❌ Error:', error instanceof Error ? error.message : error);
+}
+
+function rejectedAnswer(error: unknown): { response?: string; answeredBy?: string } {
+  if (!(error instanceof ChatGPTError) || error.response === undefined) {
+    return {};
+  }
+  return { response: error.response, answeredBy: error.answeredBy };
+}
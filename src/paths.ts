@@ -0,0 +1,24 @@
+import * as os from 'os';
+import * as path from 'path';
+
+export function getRootDir(): string {
+  return path.join(os.homedir(), '.gpt5-pro-cli');
+}
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+export function isValidProfileName(name: string): boolean {
+  return PROFILE_NAME_PATTERN.test(name);
+}
+
+export function validateProfileName(name: string): string {
+  if (!isValidProfileName(name)) {
+    throw new Error(`Invalid profile name "${name}" (use letters, digits, ".", "_" and "-")`);
+  }
+  return name;
+}
+
+/** Every profile path goes through here, so names like `..` or `a/b` cannot leave the root directory. */
+export function getProfileDir(profile: string): string {
+  return path.join(getRootDir(), validateProfileName(profile));
+}
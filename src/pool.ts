@@ -0,0 +1,79 @@
+import type { ChatGPT } from './chatgpt.js';
+
+export interface PagePoolOptions {
+  /** Maximum number of tabs running queries at the same time. */
+  concurrency: number;
+}
+
+/**
+ * Runs tasks concurrently in separate tabs of one browser context. The root
+ * instance's own page is the first tab; more are opened on demand up to the
+ * concurrency cap and kept for reuse. Tasks beyond the cap wait in FIFO order.
+ */
+export class PagePool {
+  private readonly concurrency: number;
+  private readonly idle: ChatGPT[];
+  private readonly opened: ChatGPT[] = [];
+  private readonly waiting: Array<(tab: ChatGPT) => void> = [];
+  private size = 1;
+  private active = 0;
+
+  constructor(private readonly root: ChatGPT, options: PagePoolOptions) {
+    if (!Number.isInteger(options.concurrency) || options.concurrency < 1) {
+      throw new Error(`Concurrency must be a positive integer (got ${options.concurrency})`);
+    }
+    this.concurrency = options.concurrency;
+    this.idle = [root];
+  }
+
+  get stats() {
+    return { size: this.size, active: this.active, waiting: this.waiting.length, concurrency: this.concurrency };
+  }
+
+  async run<T>(task: (tab: ChatGPT) => Promise<T>): Promise<T> {
+    const tab = await this.acquire();
+    this.active++;
+    try {
+      return await task(tab);
+    } finally {
+      this.active--;
+      this.release(tab);
+    }
+  }
+
+  /** Closes the extra tabs. The root instance is left to its owner. */
+  async close(): Promise<void> {
+    await Promise.all(this.opened.map((tab) => tab.close()));
+    this.opened.length = 0;
+  }
+
+  private async acquire(): Promise<ChatGPT> {
+    const idle = this.idle.shift();
+    if (idle) {
+      return idle;
+    }
+
+    if (this.size < this.concurrency) {
+      this.size++;
+      try {
+        const tab = await this.root.openTab();
+        this.opened.push(tab);
+        return tab;
+      } catch (error) {
+        this.size--;
+        throw error;
+      }
+    }
+
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(tab: ChatGPT) {
+    const next = this.waiting.shift();
+    if (next) {
+      next(tab);
+    } else {
+      this.idle.push(tab);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { getProfileDir, getRootDir, isValidProfileName } from './paths.js';
+import { getBrowserStatePath, isStateEncrypted, loadBrowserState, type StorageState } from './state.js';
+
+const ACCOUNT_FILE = 'account.json';
+
+/** Cookies whose presence means ChatGPT considers the browser signed in. */
+export const SESSION_COOKIE_NAMES = [
+  '__Secure-next-auth.session-token',
+  'next-auth.session-token',
+  '__Secure-openai-session-token',
+  'openai-session',
+];
+
+export const DEFAULT_EXPIRY_WARNING_MS = 3 * 24 * 60 * 60 * 1000;
+
+export interface SessionCookie {
+  name: string;
+  domain: string;
+  /** Null for a cookie that lasts only as long as the browser session. */
+  expiresAt: Date | null;
+}
+
+/** `locked`: the state is encrypted and no key was available to read it. */
+export type SessionState = 'missing' | 'locked' | 'expired' | 'expiring' | 'valid';
+
+export interface SessionSummary {
+  state: SessionState;
+  cookies: SessionCookie[];
+  /** Latest expiry among the session cookies. */
+  expiresAt: Date | null;
+  savedAt: Date | null;
+  encrypted: boolean;
+  /** Why a `locked` session could not be read. */
+  error?: string;
+}
+
+export interface AccountInfo {
+  email: string;
+  updatedAt: string;
+}
+
+/** Names of the profile directories under `~/.gpt5-pro-cli`, sorted. */
+export function listProfiles(): string[] {
+  const root = getRootDir();
+  if (!fs.existsSync(root)) {
+    return [];
+  }
+  return fs
+    .readdirSync(root, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && isValidProfileName(entry.name))
+    .map((entry) => entry.name)
+    .sort();
+}
+
+export function profileExists(name: string): boolean {
+  return fs.existsSync(getProfileDir(name));
+}
+
+export function getSessionCookies(state: StorageState): SessionCookie[] {
+  return state.cookies
+    .filter((cookie) => SESSION_COOKIE_NAMES.includes(cookie.name))
+    .map((cookie) => ({
+      name: cookie.name,
+      domain: cookie.domain,
+      // Playwright stores -1 for session cookies and seconds since the epoch otherwise.
+      expiresAt: cookie.expires > 0 ? new Date(cookie.expires * 1000) : null,
+    }));
+}
+
+/**
+ * Judges the saved session from its cookies alone, without opening a browser.
+ * An encrypted session whose key cannot be had without asking is reported as
+ * `locked` unless `interactive` is set.
+ */
+export async function summarizeSession(
+  stateDir: string,
+  options: { warnWithinMs?: number; interactive?: boolean; now?: number } = {}
+): Promise<SessionSummary> {
+  const warnWithinMs = options.warnWithinMs ?? DEFAULT_EXPIRY_WARNING_MS;
+  const now = options.now ?? Date.now();
+  const statePath = getBrowserStatePath(stateDir);
+  const savedAt = statePath ? fs.statSync(statePath).mtime : null;
+  const encrypted = isStateEncrypted(stateDir);
+
+  let saved: StorageState | null;
+  try {
+    saved = await loadBrowserState(stateDir, { interactive: options.interactive ?? false });
+  } catch (error) {
+    if (!encrypted) throw error;
+    const message = error instanceof Error ? error.message : String(error);
+    return { state: 'locked', cookies: [], expiresAt: null, savedAt, encrypted, error: message };
+  }
+
+  const cookies = saved ? getSessionCookies(saved) : [];
+  if (cookies.length === 0) {
+    return { state: 'missing', cookies, expiresAt: null, savedAt, encrypted };
+  }
+
+  const expiries = cookies.map((cookie) => cookie.expiresAt?.getTime() ?? Infinity);
+  const latest = Math.max(...expiries);
+  const expiresAt = Number.isFinite(latest) ? new Date(latest) : null;
+
+  let state: SessionState = 'valid';
+  if (latest <= now) {
+    state = 'expired';
+  } else if (latest - now <= warnWithinMs) {
+    state = 'expiring';
+  }
+  return { state, cookies, expiresAt, savedAt, encrypted };
+}
+
+export function readAccountInfo(stateDir: string): AccountInfo | null {
+  try {
+    return JSON.parse(fs.readFileSync(path.join(stateDir, ACCOUNT_FILE), 'utf-8')) as AccountInfo;
+  } catch {
+    return null;
+  }
+}
+
+export function writeAccountInfo(stateDir: string, email: string): void {
+  const info: AccountInfo = { email, updatedAt: new Date().toISOString() };
+  fs.mkdirSync(stateDir, { recursive: true });
+  fs.writeFileSync(path.join(stateDir, ACCOUNT_FILE), JSON.stringify(info, null, 2), { mode: 0o600 });
+}
+
+export function removeProfile(name: string): void {
+  const dir = getProfileDir(name);
+  if (!fs.existsSync(dir)) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+  fs.rmSync(dir, { recursive: true, force: true });
+}
+
+export function renameProfile(from: string, to: string): void {
+  const source = getProfileDir(from);
+  const target = getProfileDir(to);
+  if (!fs.existsSync(source)) {
+    throw new Error(`Profile "${from}" does not exist`);
+  }
+  if (fs.existsSync(target)) {
+    throw new Error(`Profile "${to}" already exists`);
+  }
+  fs.renameSync(source, target);
+}
+
+/** "in 3d 4h" / "2h ago" style distance from now. */
+export function formatRelative(date: Date, now: number = Date.now()): string {
+  const diff = date.getTime() - now;
+  const abs = Math.abs(diff);
+  const units: Array<[string, number]> = [
+    ['d', 24 * 60 * 60 * 1000],
+    ['h', 60 * 60 * 1000],
+    ['m', 60 * 1000],
+  ];
+  const parts: string[] = [];
+  let rest = abs;
+  for (const [unit, size] of units) {
+    if (rest >= size && parts.length < 2) {
+      parts.push(`${Math.floor(rest / size)}${unit}`);
+      rest %= size;
+    }
+  }
+  const text = parts.join(' ') || '<1m';
+  return diff >= 0 ? `in ${text}` : `${text} ago`;
+}
@@ -0,0 +1,215 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import fg from 'fast-glob';
+import { countTokens } from './tokenizer.js';
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  '.ts': 'ts',
+  '.tsx': 'tsx',
+  '.js': 'js',
+  '.jsx': 'jsx',
+  '.mjs': 'js',
+  '.cjs': 'js',
+  '.json': 'json',
+  '.md': 'markdown',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.rs': 'rust',
+  '.go': 'go',
+  '.java': 'java',
+  '.kt': 'kotlin',
+  '.swift': 'swift',
+  '.c': 'c',
+  '.h': 'c',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.hpp': 'cpp',
+  '.cs': 'csharp',
+  '.sh': 'bash',
+  '.bash': 'bash',
+  '.zsh': 'zsh',
+  '.nix': 'nix',
+  '.yml': 'yaml',
+  '.yaml': 'yaml',
+  '.toml': 'toml',
+  '.sql': 'sql',
+  '.html': 'html',
+  '.css': 'css',
+  '.scss': 'scss',
+  '.xml': 'xml',
+  '.diff': 'diff',
+  '.patch': 'diff',
+};
+
+export interface PromptSource {
+  prompt?: string;
+  promptFile?: string;
+  contextGlobs?: string[];
+  cwd?: string;
+  /** Whether `-` reads the prompt from stdin (default true). */
+  allowStdin?: boolean;
+}
+
+export interface PromptSection {
+  label: string;
+  kind: 'prompt' | 'context';
+  text: string;
+  chars: number;
+  tokens: number;
+}
+
+export interface AssembledPrompt {
+  text: string;
+  sections: PromptSection[];
+  chars: number;
+  tokens: number;
+}
+
+export async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+/**
+ * Resolves the question text from the positional argument, stdin (`-`) or
+ * `--prompt-file`. Only one source may be used per invocation. Without any of
+ * them, and without context files, piped stdin is read as well; a terminal
+ * never is, so an interactive run without a prompt does not wait for input.
+ */
+export async function resolvePromptText(source: PromptSource): Promise<string | null> {
+  const allowStdin = source.allowStdin ?? true;
+  const fromArgument = source.prompt !== undefined && (source.prompt !== '-' || !allowStdin);
+  const piped =
+    source.prompt === undefined &&
+    !source.promptFile &&
+    (source.contextGlobs ?? []).length === 0 &&
+    !process.stdin.isTTY;
+  const fromStdin = allowStdin && (source.prompt === '-' || piped);
+
+  if (fromArgument && source.promptFile) {
+    throw new Error('Pass the prompt either as an argument or with --prompt-file, not both');
+  }
+  if (source.prompt === '-' && source.promptFile) {
+    throw new Error('Pass the prompt either on stdin or with --prompt-file, not both');
+  }
+
+  if (source.promptFile) {
+    const filePath = path.resolve(source.cwd ?? process.cwd(), source.promptFile);
+    try {
+      return fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      throw new Error(`Failed to read prompt file ${filePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  if (fromStdin) {
+    const text = await readStdin();
+    return text.length > 0 ? text : null;
+  }
+
+  return source.prompt ?? null;
+}
+
+export async function assemblePrompt(source: PromptSource): Promise<AssembledPrompt | null> {
+  const question = await resolvePromptText(source);
+  const sections: PromptSection[] = [];
+
+  for (const file of await expandContextGlobs(source.contextGlobs ?? [], source.cwd)) {
+    const contents = fs.readFileSync(file.absolutePath, 'utf-8');
+    sections.push(buildSection(file.displayPath, 'context', formatContextFile(file.displayPath, contents)));
+  }
+
+  if (question && question.trim().length > 0) {
+    sections.push(buildSection('(prompt)', 'prompt', question.trim()));
+  } else if (sections.length === 0) {
+    return null;
+  }
+
+  const text = sections.map((section) => section.text).join('\n\n');
+  return {
+    text,
+    sections,
+    chars: text.length,
+    tokens: countTokens(text),
+  };
+}
+
+async function expandContextGlobs(
+  patterns: string[],
+  cwd: string = process.cwd()
+): Promise<Array<{ absolutePath: string; displayPath: string }>> {
+  const seen = new Set<string>();
+  const files: Array<{ absolutePath: string; displayPath: string }> = [];
+
+  for (const pattern of patterns) {
+    const matches = await fg(pattern, {
+      cwd,
+      absolute: true,
+      onlyFiles: true,
+      dot: false,
+      followSymbolicLinks: true,
+      ignore: ['**/node_modules/**', '**/.git/**'],
+    });
+
+    if (matches.length === 0) {
+      throw new Error(`--context pattern matched no files: ${pattern}`);
+    }
+
+    for (const match of matches.sort()) {
+      const absolutePath = path.normalize(match);
+      if (seen.has(absolutePath)) continue;
+      seen.add(absolutePath);
+      files.push({ absolutePath, displayPath: path.relative(cwd, absolutePath) || path.basename(absolutePath) });
+    }
+  }
+
+  return files;
+}
+
+export function formatContextFile(displayPath: string, contents: string): string {
+  const language = LANGUAGE_BY_EXTENSION[path.extname(displayPath).toLowerCase()] ?? '';
+  const longestFence = Math.max(0, ...(contents.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(Math.max(3, longestFence + 1));
+  const body = contents.endsWith('\n') ? contents : `${contents}\n`;
+  return `### ${displayPath}\n${fence}${language}\n${body}${fence}`;
+}
+
+function buildSection(label: string, kind: PromptSection['kind'], text: string): PromptSection {
+  return {
+    label,
+    kind,
+    text,
+    chars: text.length,
+    tokens: countTokens(text),
+  };
+}
+
+/**
+ * Renders a per-section breakdown of the prompt, largest first, so it is clear
+ * which context files are eating the composer budget.
+ */
+export function formatTokenBudget(
+  assembled: AssembledPrompt,
+  limits: { maxPromptChars: number; maxPromptTokens: number }
+): string {
+  const rows = [...assembled.sections].sort((a, b) => b.tokens - a.tokens);
+  const tokenWidth = Math.max(...rows.map((row) => row.tokens.toLocaleString().length), 6);
+  const charWidth = Math.max(...rows.map((row) => row.chars.toLocaleString().length), 5);
+
+  const lines = rows.map((row) => {
+    const share = assembled.tokens > 0 ? ((row.tokens / assembled.tokens) * 100).toFixed(1) : '0.0';
+    return `  ${row.tokens.toLocaleString().padStart(tokenWidth)} tokens  ${row.chars
+      .toLocaleString()
+      .padStart(charWidth)} chars  ${share.padStart(5)}%  ${row.label}`;
+  });
+
+  lines.push(
+    `  total: ${assembled.tokens.toLocaleString()} / ~${limits.maxPromptTokens.toLocaleString()} tokens, ` +
+      `${assembled.chars.toLocaleString()} / ~${limits.maxPromptChars.toLocaleString()} characters`
+  );
+
+  return ['Prompt budget:', ...lines].join('\n');
+}
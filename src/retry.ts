@@ -0,0 +1,25 @@
+export interface BackoffOptions {
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  random?: () => number;
+}
+
+const DEFAULT_BASE_DELAY_MS = 2000;
+const DEFAULT_MAX_DELAY_MS = 60_000;
+
+/**
+ * Exponential backoff with jitter: the nth retry waits between 50% and 100% of
+ * `base * 2^n`, capped at `maxDelayMs`.
+ */
+export function computeBackoff(retryIndex: number, options: BackoffOptions = {}): number {
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+
+  const ceiling = Math.min(max, base * 2 ** retryIndex);
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,347 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Locator, Page } from 'playwright';
+import { getRootDir } from './paths.js';
+
+const SELECTORS_CONFIG_FILE = 'selectors.json';
+
+/**
+ * Bumped whenever built-in selectors change in a way that may make user
+ * overrides written against an older registry stale.
+ */
+export const SELECTOR_REGISTRY_VERSION = 1;
+
+/**
+ * Where an entry is expected to match: on the chat page, on the login pages,
+ * or only in some states (an open menu, an error, a finished answer).
+ */
+export type SelectorPage = 'chat' | 'login' | 'transient';
+
+export interface SelectorDefinition {
+  description: string;
+  /** Playwright selectors, tried in order. */
+  candidates: string[];
+  page: SelectorPage;
+  /** Also used inside page scripts, so every candidate must be plain CSS. */
+  css?: boolean;
+  source?: 'built-in' | 'user';
+}
+
+const BUILTIN_SELECTORS = {
+  composer: {
+    description: 'Composer container',
+    candidates: ['[data-testid="composer"]'],
+    page: 'chat',
+    css: true,
+  },
+  promptInput: {
+    description: 'Prompt text field',
+    candidates: [
+      'textarea#prompt-textarea',
+      'textarea[placeholder*="Ask anything" i]',
+      'textarea[placeholder*="Message" i]',
+      'div[contenteditable="true"]',
+    ],
+    page: 'chat',
+    css: true,
+  },
+  sendButton: {
+    description: 'Send button',
+    candidates: ['[data-testid="send-button"]', 'button[aria-label*="Send"]'],
+    page: 'transient',
+    css: true,
+  },
+  fileInput: {
+    description: 'Attachment file input',
+    candidates: ['input[type="file"]'],
+    page: 'chat',
+  },
+  uploadProgress: {
+    description: 'Attachment upload indicator',
+    candidates: ['[role="progressbar"]', '[aria-busy="true"]', '.animate-spin', '[data-testid*="upload-progress"]'],
+    page: 'transient',
+    css: true,
+  },
+  composerAlert: {
+    description: 'Composer error toast or alert',
+    candidates: [
+      '[role="alert"]',
+      '[data-testid*="toast"]',
+      '[data-theme="error"]',
+      '.text-destructive',
+      '[data-tooltip]',
+      '[data-state="error"]',
+      '[aria-live]',
+    ],
+    page: 'transient',
+    css: true,
+  },
+  tooltip: {
+    description: 'Tooltip over the composer',
+    candidates: ['[role="tooltip"]', '[data-state="delayed-open"]'],
+    page: 'transient',
+    css: true,
+  },
+  modelSwitcher: {
+    description: 'Model picker button',
+    candidates: ['button[data-testid="model-switcher-dropdown-button"]'],
+    page: 'chat',
+  },
+  modelMenu: {
+    description: 'Open model picker menu',
+    candidates: ['[role="menu"]', '[data-state="open"]'],
+    page: 'transient',
+  },
+  modelMenuOption: {
+    description: 'Model picker option with a test id',
+    candidates: ['[role="menu"] [data-testid]'],
+    page: 'transient',
+    css: true,
+  },
+  modelMenuItem: {
+    description: 'Model picker item matched by its text',
+    candidates: ['div.__menu-item'],
+    page: 'transient',
+  },
+  userMessage: {
+    description: 'User turn',
+    candidates: ['[data-message-author-role="user"]'],
+    page: 'transient',
+    css: true,
+  },
+  assistantMessage: {
+    description: 'Assistant turn',
+    candidates: ['[data-message-author-role="assistant"]'],
+    page: 'transient',
+    css: true,
+  },
+  copyButton: {
+    description: 'Copy button of an assistant turn',
+    candidates: ['[data-testid="copy-turn-action-button"]'],
+    page: 'transient',
+  },
+  loginButton: {
+    description: 'Log in button on the signed-out page',
+    candidates: ['[data-testid="login-button"]'],
+    page: 'login',
+  },
+  emailInput: {
+    description: 'Email field of the login form',
+    candidates: ['role=textbox[name="Email address"]', 'input[type="email"]'],
+    page: 'login',
+  },
+  passwordInput: {
+    description: 'Password field of the login form',
+    candidates: ['role=textbox[name="Password"]', 'input[type="password"]'],
+    page: 'login',
+  },
+  continueButton: {
+    description: 'Continue button of the login form',
+    candidates: ['role=button[name="Continue"s]', 'button[type="submit"]'],
+    page: 'login',
+  },
+  otpInput: {
+    description: 'Verification code inputs',
+    candidates: [
+      'input[autocomplete="one-time-code"]',
+      'input[data-testid*="otp" i]',
+      'input[data-testid*="code" i]',
+      'input[name*="code" i]',
+      'input[inputmode="numeric"]',
+      'input[type="tel"]',
+      'input[type="text"][maxlength="1"]',
+      'input[aria-label*="digit" i]',
+    ],
+    page: 'transient',
+  },
+  otpSubmit: {
+    description: 'Submit button of the verification form',
+    candidates: [
+      'button:has-text("Continue")',
+      'button:has-text("Verify")',
+      'button:has-text("Submit")',
+      'button:has-text("Next")',
+      'button:has-text("Confirm")',
+      'button[type="submit"]',
+    ],
+    page: 'transient',
+  },
+  verificationTrigger: {
+    description: 'Button that sends a verification code',
+    candidates: [
+      'button:has-text("Send code")',
+      'button:has-text("Send me a code")',
+      'button:has-text("Send verification code")',
+      'button:has-text("Email code")',
+      'button:has-text("Email me a code")',
+      'button:has-text("Use email")',
+      'button:has-text("Continue with email")',
+      'button:has-text("Verify")',
+      'button:has-text("Resend")',
+      'button[data-testid*="email" i]',
+    ],
+    page: 'transient',
+  },
+} satisfies Record<string, SelectorDefinition>;
+
+export type SelectorName = keyof typeof BUILTIN_SELECTORS;
+
+export interface SelectorRegistry {
+  version: number;
+  entries: Record<SelectorName, SelectorDefinition>;
+  /** Registry version the user overrides were written for, or null without overrides. */
+  overridesVersion: number | null;
+}
+
+export type SelectorStatus = 'matched' | 'fallback' | 'missing';
+
+export interface SelectorCheck {
+  name: SelectorName;
+  description: string;
+  page: SelectorPage;
+  status: SelectorStatus;
+  /** The first candidate that matched, and its position in the list. */
+  candidate: string | null;
+  index: number | null;
+  count: number;
+  source: 'built-in' | 'user';
+}
+
+export const SELECTOR_NAMES = Object.keys(BUILTIN_SELECTORS) as SelectorName[];
+
+/** The user selectors file: `GPT5_SELECTORS_FILE`, else `~/.gpt5-pro-cli/selectors.json`. */
+export function getSelectorsConfigPath(): string {
+  return process.env.GPT5_SELECTORS_FILE ?? path.join(getRootDir(), SELECTORS_CONFIG_FILE);
+}
+
+/**
+ * Built-in selectors merged with the user's selectors file:
+ *
+ *   {
+ *     "version": 1,
+ *     "selectors": {
+ *       "promptInput": ["div#prompt-textarea", "textarea#prompt-textarea"],
+ *       "copyButton": { "prepend": ["button[aria-label=\"Copy\"]"] }
+ *     }
+ *   }
+ *
+ * A list replaces the built-in candidates; `prepend` and `append` add to them.
+ */
+export function loadSelectorRegistry(configPath: string = getSelectorsConfigPath()): SelectorRegistry {
+  const entries = {} as Record<SelectorName, SelectorDefinition>;
+  for (const name of SELECTOR_NAMES) {
+    const definition: SelectorDefinition = BUILTIN_SELECTORS[name];
+    entries[name] = { ...definition, candidates: [...definition.candidates], source: 'built-in' };
+  }
+  const registry: SelectorRegistry = { version: SELECTOR_REGISTRY_VERSION, entries, overridesVersion: null };
+
+  if (!fs.existsSync(configPath)) {
+    return registry;
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Could not read ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (!isObject(config)) {
+    throw new Error(`${configPath}: expected a JSON object`);
+  }
+  if (config.version !== undefined && (typeof config.version !== 'number' || !Number.isInteger(config.version))) {
+    throw new Error(`${configPath}: "version" must be a registry version number`);
+  }
+  registry.overridesVersion = (config.version as number | undefined) ?? SELECTOR_REGISTRY_VERSION;
+
+  const overrides = config.selectors ?? {};
+  if (!isObject(overrides)) {
+    throw new Error(`${configPath}: "selectors" must be an object keyed by selector name`);
+  }
+  for (const [name, override] of Object.entries(overrides)) {
+    const where = `${configPath}: selectors.${name}`;
+    if (!isSelectorName(name)) {
+      throw new Error(`${where} is not a known selector (known: ${SELECTOR_NAMES.join(', ')})`);
+    }
+
+    const entry = entries[name];
+    if (Array.isArray(override)) {
+      entry.candidates = candidateList(override, where);
+    } else if (isObject(override)) {
+      const unknown = Object.keys(override).filter((key) => key !== 'prepend' && key !== 'append');
+      if (unknown.length > 0) {
+        throw new Error(`${where}: unknown field "${unknown[0]}" (expected "prepend" or "append")`);
+      }
+      entry.candidates = [
+        ...(override.prepend === undefined ? [] : candidateList(override.prepend, `${where}.prepend`)),
+        ...entry.candidates,
+        ...(override.append === undefined ? [] : candidateList(override.append, `${where}.append`)),
+      ];
+    } else {
+      throw new Error(`${where} must be a list of selectors or { "prepend", "append" }`);
+    }
+
+    if (entry.candidates.length === 0) {
+      throw new Error(`${where} must leave at least one selector`);
+    }
+    if (entry.css) {
+      const engine = entry.candidates.find((candidate) => /^[a-z-]+=/i.test(candidate.trim()));
+      if (engine) {
+        throw new Error(`${where}: "${engine}" is not plain CSS, which this selector needs inside the page`);
+      }
+    }
+    entry.source = 'user';
+  }
+
+  return registry;
+}
+
+export function isSelectorName(name: string): name is SelectorName {
+  return Object.prototype.hasOwnProperty.call(BUILTIN_SELECTORS, name);
+}
+
+/** All candidates as one CSS selector list, for `querySelectorAll` in page scripts. */
+export function cssSelector(registry: SelectorRegistry, name: SelectorName): string {
+  return registry.entries[name].candidates.join(', ');
+}
+
+/** Finds the first candidate with a match under `root`, without waiting. */
+export async function resolveSelector(
+  root: Page | Locator,
+  registry: SelectorRegistry,
+  name: SelectorName,
+  options: { visible?: boolean } = {}
+): Promise<SelectorCheck> {
+  const entry = registry.entries[name];
+  const check: SelectorCheck = {
+    name,
+    description: entry.description,
+    page: entry.page,
+    status: 'missing',
+    candidate: null,
+    index: null,
+    count: 0,
+    source: entry.source ?? 'built-in',
+  };
+
+  for (const [index, candidate] of entry.candidates.entries()) {
+    const count = await root
+      .locator(options.visible ? `${candidate} >> visible=true` : candidate)
+      .count()
+      .catch(() => 0);
+    if (count > 0) {
+      return { ...check, status: index === 0 ? 'matched' : 'fallback', candidate, index, count };
+    }
+  }
+  return check;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function candidateList(value: unknown, where: string): string[] {
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'string' || !item.trim())) {
+    throw new Error(`${where} must be an array of non-empty selector strings`);
+  }
+  return value as string[];
+}
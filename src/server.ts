@@ -0,0 +1,368 @@
+import * as http from 'http';
+import { randomUUID } from 'crypto';
+import type { ChatGPT, QueryResult } from './chatgpt.js';
+import { ChatGPTError, classifyError } from './errors.js';
+import { countTokens } from './tokenizer.js';
+import { PagePool } from './pool.js';
+
+const MAX_BODY_BYTES = 16 * 1024 * 1024;
+const SSE_HEARTBEAT_MS = 15_000;
+
+type MessageRole = 'system' | 'developer' | 'user' | 'assistant' | 'tool';
+
+interface ContentPart {
+  type: string;
+  text?: string;
+}
+
+export interface ChatMessage {
+  role: MessageRole;
+  content: string | ContentPart[] | null;
+  name?: string;
+}
+
+interface ChatCompletionRequest {
+  model?: string;
+  messages?: ChatMessage[];
+  stream?: boolean;
+  n?: number;
+}
+
+export interface ServedModel {
+  /** Identifier clients send in the `model` field. */
+  id: string;
+  name: string;
+}
+
+/**
+ * What the HTTP layer needs from the browser. `createChatGPTBackend` adapts a
+ * `ChatGPT` instance; tests can supply their own implementation.
+ */
+export interface CompletionBackend {
+  listModels(): ServedModel[];
+  /** Maps a requested model name to a served model id, or null if unknown. */
+  resolveModel(model: string): string | null;
+  complete(prompt: string, model: string): Promise<QueryResult>;
+}
+
+export interface OpenAIServerOptions {
+  /** Model used when a request omits `model`. */
+  defaultModel: string;
+  log?: (message: string) => void;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly type: string = 'invalid_request_error',
+    readonly code: string | null = null,
+    readonly param: string | null = null
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Requests run in tabs from the pool (one at a time unless the pool allows
+ * more) and each starts from an empty chat.
+ */
+export function createChatGPTBackend(
+  chatgpt: ChatGPT,
+  pool: PagePool = new PagePool(chatgpt, { concurrency: 1 })
+): CompletionBackend {
+  return {
+    listModels: () =>
+      chatgpt.listModelDefinitions().map((definition) => ({ id: definition.key, name: definition.displayName })),
+    resolveModel: (model) => chatgpt.resolveModelDefinition(model)?.key ?? null,
+    complete: (prompt, model) =>
+      pool.run(async (tab) => {
+        await tab.newChat();
+        return tab.queryDetailed(prompt, { model });
+      }),
+  };
+}
+
+/**
+ * Turns a Chat Completions message list into a single composer prompt.
+ *
+ * A lone user message is sent verbatim. Anything else is rendered as a
+ * transcript: a one-line preamble, then each message as a `[role]` header
+ * followed by its text, separated by blank lines, in the original order.
+ */
+export function flattenMessages(messages: ChatMessage[]): string {
+  const rendered = messages.map((message, index) => ({
+    role: message.role,
+    name: message.name,
+    text: messageText(message, index),
+  }));
+
+  if (rendered.length === 1 && rendered[0].role === 'user') {
+    return rendered[0].text;
+  }
+
+  const transcript = rendered
+    .filter((message) => message.text.trim().length > 0)
+    .map((message) => {
+      const header = message.name ? `[${message.role}: ${message.name}]` : `[${message.role}]`;
+      return `${header}\n${message.text}`;
+    });
+
+  return [
+    'The following is a conversation transcript. Reply as the assistant to the final message.',
+    ...transcript,
+  ].join('\n\n');
+}
+
+function messageText(message: ChatMessage, index: number): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (message.content === null || message.content === undefined) {
+    return '';
+  }
+  if (!Array.isArray(message.content)) {
+    throw new HttpError(400, `messages[${index}].content must be a string or an array`, undefined, null, 'messages');
+  }
+
+  return message.content
+    .map((part, partIndex) => {
+      if (part.type === 'text' && typeof part.text === 'string') {
+        return part.text;
+      }
+      throw new HttpError(
+        400,
+        `messages[${index}].content[${partIndex}] has unsupported type "${part.type}"; only text parts are accepted`,
+        undefined,
+        'unsupported_content_type',
+        'messages'
+      );
+    })
+    .join('\n');
+}
+
+export function createOpenAIServer(backend: CompletionBackend, options: OpenAIServerOptions): http.Server {
+  const log = options.log ?? (() => {});
+
+  return http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    log(`${req.method} ${url.pathname}`);
+
+    try {
+      if (url.pathname === '/v1/models' && req.method === 'GET') {
+        const created = Math.floor(Date.now() / 1000);
+        sendJson(res, 200, {
+          object: 'list',
+          data: backend.listModels().map((model) => ({
+            id: model.id,
+            object: 'model',
+            created,
+            owned_by: 'openai',
+            name: model.name,
+          })),
+        });
+        return;
+      }
+
+      if (url.pathname === '/v1/chat/completions') {
+        if (req.method !== 'POST') {
+          throw new HttpError(405, `Method ${req.method} not allowed on ${url.pathname}`);
+        }
+        await handleChatCompletion(req, res, backend, options.defaultModel);
+        return;
+      }
+
+      throw new HttpError(404, `Unknown endpoint ${req.method} ${url.pathname}`, 'invalid_request_error', 'not_found');
+    } catch (error) {
+      const httpError = toHttpError(error);
+      log(`${httpError.status} ${httpError.message}`);
+      if (res.headersSent) {
+        if (!res.writableEnded) {
+          res.write(`data: ${JSON.stringify(errorBody(httpError))}\n\n`);
+          res.end();
+        }
+        return;
+      }
+      sendJson(res, httpError.status, errorBody(httpError));
+    }
+  });
+}
+
+async function handleChatCompletion(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  backend: CompletionBackend,
+  defaultModel: string
+): Promise<void> {
+  const body = parseRequest(await readBody(req));
+
+  if (!Array.isArray(body.messages) || body.messages.length === 0) {
+    throw new HttpError(400, '"messages" must be a non-empty array', undefined, null, 'messages');
+  }
+  if (body.n !== undefined && body.n !== 1) {
+    throw new HttpError(400, 'Only n=1 is supported', undefined, null, 'n');
+  }
+
+  const requestedModel = body.model ?? defaultModel;
+  const model = backend.resolveModel(requestedModel);
+  if (!model) {
+    throw new HttpError(404, `The model "${requestedModel}" does not exist`, 'invalid_request_error', 'model_not_found', 'model');
+  }
+
+  const prompt = flattenMessages(body.messages);
+  if (prompt.trim().length === 0) {
+    throw new HttpError(400, 'Messages contain no text', undefined, null, 'messages');
+  }
+
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  if (!body.stream) {
+    const result = await backend.complete(prompt, model);
+    sendJson(res, 200, {
+      id,
+      object: 'chat.completion',
+      created,
+      model,
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: result.response },
+          finish_reason: 'stop',
+        },
+      ],
+      usage: usageFor(result),
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+
+  const writeChunk = (delta: Record<string, string>, finishReason: string | null) => {
+    if (res.writableEnded) return;
+    res.write(
+      `data: ${JSON.stringify({
+        id,
+        object: 'chat.completion.chunk',
+        created,
+        model,
+        choices: [{ index: 0, delta, finish_reason: finishReason }],
+      })}\n\n`
+    );
+  };
+
+  // Pro answers can take many minutes to start; comments keep proxies and
+  // clients from timing out the idle connection.
+  const heartbeat = setInterval(() => {
+    if (!res.writableEnded) res.write(': keep-alive\n\n');
+  }, SSE_HEARTBEAT_MS);
+
+  writeChunk({ role: 'assistant' }, null);
+
+  try {
+    // The page text seen while the answer is written lacks markdown syntax and
+    // can be rewritten, and a chunk cannot be taken back once sent. So no page
+    // text is forwarded: the content is the final markdown, sent once.
+    const result = await backend.complete(prompt, model);
+    writeChunk({ content: result.response }, null);
+    writeChunk({}, 'stop');
+    res.write('data: [DONE]\n\n');
+    res.end();
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}
+
+function parseRequest(raw: string): ChatCompletionRequest {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('body is not an object');
+    }
+    return parsed as ChatCompletionRequest;
+  } catch (error) {
+    throw new HttpError(400, `Invalid JSON body: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function usageFor(result: QueryResult) {
+  const completionTokens = countTokens(result.response);
+  return {
+    prompt_tokens: result.prompt.tokens,
+    completion_tokens: completionTokens,
+    total_tokens: result.prompt.tokens + completionTokens,
+  };
+}
+
+function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+
+  const failure = error instanceof ChatGPTError ? error : classifyError(error);
+  switch (failure.type) {
+    case 'composer':
+      return failure.retryable
+        ? new HttpError(502, failure.message, 'api_error', 'composer_error')
+        : new HttpError(400, failure.message, 'invalid_request_error', 'context_length_exceeded', 'messages');
+    case 'attachment':
+      return new HttpError(400, failure.message, 'invalid_request_error', 'attachment_rejected');
+    case 'model-mismatch':
+      return new HttpError(502, failure.message, 'api_error', 'model_mismatch');
+    case 'usage-cap':
+      return new HttpError(429, failure.message, 'rate_limit_error', 'usage_cap_reached');
+    case 'session-expired':
+      return new HttpError(503, failure.message, 'api_error', 'session_expired');
+    case 'timeout':
+      return new HttpError(504, failure.message, 'api_error', 'timeout');
+    case 'navigation':
+      return new HttpError(502, failure.message, 'api_error', 'upstream_unavailable');
+    case 'empty-response':
+      return new HttpError(502, failure.message, 'api_error', 'empty_response');
+    default:
+      return new HttpError(500, failure.message, 'api_error');
+  }
+}
+
+function errorBody(error: HttpError) {
+  return {
+    error: {
+      message: error.message,
+      type: error.type,
+      param: error.param,
+      code: error.code,
+    },
+  };
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  const payload = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Content-Length': Buffer.byteLength(payload),
+  });
+  res.end(payload);
+}
@@ -0,0 +1,174 @@
+import { countTokens } from './tokenizer.js';
+import type { AssembledPrompt } from './prompt.js';
+
+// Room left in every part for the "part i of n" instructions.
+const PART_OVERHEAD_CHARS = 400;
+const PART_OVERHEAD_TOKENS = 100;
+const FENCED_FILE_PATTERN = /^(### .+)\n(`{3,})([^\n]*)\n([\s\S]*)\n\2$/;
+
+export interface SplitLimits {
+  maxPromptChars: number;
+  maxPromptTokens: number;
+}
+
+export interface SplitPlan {
+  /** The original prompt, used as the cache key for the whole run. */
+  prompt: string;
+  /** Messages to send first; each asks only for an acknowledgement. */
+  parts: string[];
+  /** Message sent after the last part; its answer is the result. */
+  final: string;
+}
+
+interface Budget {
+  chars: number;
+  tokens: number;
+}
+
+interface Unit {
+  text: string;
+  chars: number;
+  tokens: number;
+}
+
+/**
+ * Splits an oversized prompt into parts that each fit the composer. Context
+ * files stay whole where possible, and large ones are cut on line boundaries
+ * and re-fenced. When the question itself is small it is held back and sent
+ * only after the last part.
+ */
+export function planSplit(assembled: AssembledPrompt, limits: SplitLimits): SplitPlan {
+  const budget: Budget = {
+    chars: limits.maxPromptChars - PART_OVERHEAD_CHARS,
+    tokens: limits.maxPromptTokens - PART_OVERHEAD_TOKENS,
+  };
+  if (budget.chars <= 0 || budget.tokens <= 0) {
+    throw new Error('Prompt limits are too small to split the prompt');
+  }
+
+  const question = assembled.sections.find((section) => section.kind === 'prompt');
+  const holdBack =
+    question !== undefined &&
+    assembled.sections.length > 1 &&
+    question.chars <= budget.chars &&
+    question.tokens <= budget.tokens;
+
+  const sections = holdBack ? assembled.sections.filter((section) => section !== question) : assembled.sections;
+  const chunks = pack(
+    sections.flatMap((section) => splitSection(section.text, budget)),
+    budget
+  );
+  const total = chunks.length;
+
+  const parts = chunks.map((chunk, index) => formatPart(chunk, index + 1, total));
+  const final = holdBack
+    ? `All ${total} parts have been sent. Using everything in them, answer the following:\n\n${question.text}`
+    : `All ${total} parts have been sent. Treat parts 1-${total} as a single message and respond to it now.`;
+
+  return { prompt: assembled.text, parts, final };
+}
+
+function formatPart(chunk: string, index: number, total: number): string {
+  const next = index < total ? 'More parts follow.' : 'The request follows in the next message.';
+  return (
+    `[Part ${index} of ${total}] This is one part of a long message that is sent in pieces. ` +
+    `Do not act on it yet; reply only with "Received part ${index} of ${total}." ${next}\n\n${chunk}`
+  );
+}
+
+/** True when a reply to part `index` confirms that exact part, e.g. "Received part 2 of 5." */
+export function isPartAcknowledged(reply: string, index: number, total: number): boolean {
+  const match = reply.match(/\bpart\s+(\d+)\s*(?:of|\/)\s*(\d+)/i);
+  return match !== null && Number(match[1]) === index && Number(match[2]) === total;
+}
+
+/** Sent once when a part was not acknowledged as asked. */
+export function formatAckReminder(index: number, total: number): string {
+  return (
+    `Your last reply did not confirm part ${index} of ${total}. Do not act on the parts yet; ` +
+    `reply only with "Received part ${index} of ${total}."`
+  );
+}
+
+function splitSection(text: string, budget: Budget): Unit[] {
+  const unit = toUnit(text);
+  if (fits(unit, budget)) {
+    return [unit];
+  }
+
+  // A fenced context file: cut the body on line boundaries and fence each piece again.
+  const fenced = text.match(FENCED_FILE_PATTERN);
+  if (fenced) {
+    const [, heading, fence, language, body] = fenced;
+    const wrapperBudget = {
+      chars: budget.chars - heading.length - fence.length * 2 - language.length - 40,
+      tokens: budget.tokens - countTokens(heading) - 20,
+    };
+    const pieces = pack(splitLines(body, wrapperBudget), wrapperBudget, '\n');
+    return pieces.map((piece, index) =>
+      toUnit(`${heading} (piece ${index + 1} of ${pieces.length})\n${fence}${language}\n${piece}\n${fence}`)
+    );
+  }
+
+  const paragraphs = text.split(/\n{2,}/);
+  if (paragraphs.length > 1) {
+    return paragraphs.flatMap((paragraph) => splitSection(paragraph, budget));
+  }
+  return splitLines(text, budget);
+}
+
+function splitLines(text: string, budget: Budget): Unit[] {
+  return text.split('\n').flatMap((line) => {
+    const unit = toUnit(line);
+    return fits(unit, budget) ? [unit] : hardSplit(line, budget);
+  });
+}
+
+/** Last resort for a single line over the budget: cut it into fixed-size slices. */
+function hardSplit(text: string, budget: Budget): Unit[] {
+  const units: Unit[] = [];
+  let size = budget.chars;
+  for (let start = 0; start < text.length; ) {
+    const unit = toUnit(text.slice(start, start + size));
+    if (!fits(unit, budget) && size > 1) {
+      size = Math.max(1, Math.floor(size / 2));
+      continue;
+    }
+    units.push(unit);
+    start += unit.chars;
+  }
+  return units;
+}
+
+/** Greedily joins units into chunks that stay within the budget. */
+function pack(units: Unit[], budget: Budget, separator: string = '\n\n'): string[] {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let chars = 0;
+  let tokens = 0;
+
+  for (const unit of units) {
+    const extraChars = current.length > 0 ? separator.length : 0;
+    if (current.length > 0 && (chars + extraChars + unit.chars > budget.chars || tokens + 1 + unit.tokens > budget.tokens)) {
+      chunks.push(current.join(separator));
+      current = [];
+      chars = 0;
+      tokens = 0;
+    }
+    chars += (current.length > 0 ? separator.length : 0) + unit.chars;
+    tokens += (current.length > 0 ? 1 : 0) + unit.tokens;
+    current.push(unit.text);
+  }
+  if (current.length > 0) {
+    chunks.push(current.join(separator));
+  }
+  return chunks;
+}
+
+function toUnit(text: string): Unit {
+  return { text, chars: text.length, tokens: countTokens(text) };
+}
+
+function fits(unit: Unit, budget: Budget): boolean {
+  return unit.chars <= budget.chars && unit.tokens <= budget.tokens;
+}
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import type { BrowserContext } from 'playwright';
+import { promptLine, resolveCredentialProvider, type CredentialProvider } from './credentials.js';
+
+export const BROWSER_STATE_FILE = 'browser-state.json';
+export const ENCRYPTED_STATE_FILE = 'browser-state.json.enc';
+const ENCRYPTION_CONFIG_FILE = 'encryption.json';
+const DEFAULT_KEY_VAR = 'GPT5_STATE_KEY';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/** Where the key for an encrypted state file comes from. */
+export type StateKeySource =
+  | { source: 'credentials' }
+  | { source: 'env'; variable?: string }
+  | { source: 'passphrase' };
+
+export const STATE_KEY_SOURCES = ['credentials', 'env', 'passphrase'] as const;
+
+export interface EncryptedPayload {
+  version: 1;
+  cipher: 'aes-256-gcm';
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface StateAccessOptions {
+  credentials?: CredentialProvider;
+  /** Whether a passphrase may be asked for on the terminal. Defaults to whether stdin is a TTY. */
+  interactive?: boolean;
+}
+
+// Passphrases are asked for at most once per profile and process.
+const keyCache = new Map<string, string>();
+
+/**
+ * Parses `--key-source`: `credentials`, `env[:VAR]` (default GPT5_STATE_KEY)
+ * or `passphrase`.
+ */
+export function parseStateKeySource(spec: string): StateKeySource {
+  const [type, argument] = spec.split(':', 2).map((part) => part.trim());
+  switch (type.toLowerCase()) {
+    case 'credentials':
+      return { source: 'credentials' };
+    case 'env':
+      return argument ? { source: 'env', variable: argument } : { source: 'env' };
+    case 'passphrase':
+      return { source: 'passphrase' };
+    default:
+      throw new Error(`Unknown key source "${type}" (expected one of: ${STATE_KEY_SOURCES.join(', ')})`);
+  }
+}
+
+export function readEncryptionConfig(stateDir: string): StateKeySource | null {
+  const filePath = path.join(stateDir, ENCRYPTION_CONFIG_FILE);
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const config = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    if ((STATE_KEY_SOURCES as readonly string[]).includes(config?.source)) {
+      return config as StateKeySource;
+    }
+  } catch {
+    // Fall through to the error below.
+  }
+  throw new Error(`Invalid encryption config in ${filePath}`);
+}
+
+export function writeEncryptionConfig(stateDir: string, source: StateKeySource | null): void {
+  const filePath = path.join(stateDir, ENCRYPTION_CONFIG_FILE);
+  if (!source) {
+    fs.rmSync(filePath, { force: true });
+    return;
+  }
+  fs.mkdirSync(stateDir, { recursive: true });
+  writePrivateFile(filePath, JSON.stringify(source, null, 2));
+}
+
+export function isStateEncrypted(stateDir: string): boolean {
+  return fs.existsSync(path.join(stateDir, ENCRYPTED_STATE_FILE));
+}
+
+/** The state file currently in use, encrypted or not, or null when there is none. */
+export function getBrowserStatePath(stateDir: string): string | null {
+  for (const name of [ENCRYPTED_STATE_FILE, BROWSER_STATE_FILE]) {
+    const filePath = path.join(stateDir, name);
+    if (fs.existsSync(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Reads the saved Playwright storage state, decrypting it in memory when the
+ * profile is encrypted. Returns null when nothing has been saved yet.
+ */
+export async function loadBrowserState(stateDir: string, options: StateAccessOptions = {}): Promise<StorageState | null> {
+  const encryptedPath = path.join(stateDir, ENCRYPTED_STATE_FILE);
+  if (fs.existsSync(encryptedPath)) {
+    const config = readEncryptionConfig(stateDir) ?? { source: 'env' };
+    const file = JSON.parse(fs.readFileSync(encryptedPath, 'utf-8')) as EncryptedPayload;
+    const key = await resolveStateKey(stateDir, config, options);
+    try {
+      return decryptJson<StorageState>(file, key);
+    } catch (error) {
+      keyCache.delete(stateDir);
+      throw error;
+    }
+  }
+
+  const plainPath = path.join(stateDir, BROWSER_STATE_FILE);
+  if (!fs.existsSync(plainPath)) {
+    return null;
+  }
+  tightenPermissions(plainPath);
+  return JSON.parse(fs.readFileSync(plainPath, 'utf-8')) as StorageState;
+}
+
+/**
+ * Writes the storage state, encrypted when the profile has an encryption
+ * config, otherwise as plaintext. Either way only the owner can read it.
+ */
+export async function saveBrowserState(
+  stateDir: string,
+  state: StorageState,
+  options: StateAccessOptions = {}
+): Promise<void> {
+  fs.mkdirSync(stateDir, { recursive: true });
+  const config = readEncryptionConfig(stateDir);
+  writeBrowserState(stateDir, state, config ? await resolveStateKey(stateDir, config, options) : null);
+}
+
+/**
+ * Turns encryption on (with `source`) or off (null) for a profile and rewrites
+ * any saved state accordingly. The new key is resolved before anything is
+ * written (a new passphrase is asked for twice), and the encryption config is
+ * written last, so a missing or mistyped key leaves the profile as it was.
+ */
+export async function migrateBrowserState(
+  stateDir: string,
+  source: StateKeySource | null,
+  options: StateAccessOptions = {}
+): Promise<void> {
+  const state = await loadBrowserState(stateDir, options);
+  const previousKey = keyCache.get(stateDir);
+  keyCache.delete(stateDir);
+
+  let key: string | null = null;
+  if (source) {
+    try {
+      key = await resolveStateKey(stateDir, source, { ...options, newKey: true });
+    } catch (error) {
+      if (previousKey) keyCache.set(stateDir, previousKey);
+      throw error;
+    }
+  }
+
+  if (state) {
+    writeBrowserState(stateDir, state, key);
+  }
+  writeEncryptionConfig(stateDir, source);
+}
+
+function writeBrowserState(stateDir: string, state: StorageState, key: string | null): void {
+  if (key) {
+    writePrivateFile(path.join(stateDir, ENCRYPTED_STATE_FILE), JSON.stringify(encryptJson(state, key)));
+    fs.rmSync(path.join(stateDir, BROWSER_STATE_FILE), { force: true });
+  } else {
+    writePrivateFile(path.join(stateDir, BROWSER_STATE_FILE), JSON.stringify(state, null, 2));
+    fs.rmSync(path.join(stateDir, ENCRYPTED_STATE_FILE), { force: true });
+  }
+}
+
+/** Encrypts any JSON value with a key derived from `passphrase`. */
+export function encryptJson(value: unknown, passphrase: string): EncryptedPayload {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, salt), iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(value), 'utf-8'), cipher.final()]);
+  return {
+    version: 1,
+    cipher: 'aes-256-gcm',
+    kdf: 'scrypt',
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  };
+}
+
+export function decryptJson<T>(file: EncryptedPayload, passphrase: string): T {
+  if (file.version !== 1 || file.cipher !== 'aes-256-gcm') {
+    throw new Error(`Unsupported encryption format (version ${file.version})`);
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, Buffer.from(file.salt, 'base64')),
+    Buffer.from(file.iv, 'base64')
+  );
+  decipher.setAuthTag(Buffer.from(file.tag, 'base64'));
+  try {
+    const plain = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+    return JSON.parse(plain.toString('utf-8')) as T;
+  } catch {
+    throw new Error('Could not decrypt: wrong key or corrupted file');
+  }
+}
+
+/** `newKey`: the key is being set up, so a passphrase is asked for twice. */
+async function resolveStateKey(
+  stateDir: string,
+  config: StateKeySource,
+  options: StateAccessOptions & { newKey?: boolean }
+): Promise<string> {
+  const cached = keyCache.get(stateDir);
+  if (cached) return cached;
+
+  let key: string;
+  switch (config.source) {
+    case 'env': {
+      const variable = config.variable ?? DEFAULT_KEY_VAR;
+      key = process.env[variable] ?? '';
+      if (!key) throw new Error(`The saved session is encrypted; set ${variable} to its key`);
+      break;
+    }
+    case 'credentials': {
+      const credentials = options.credentials ?? resolveCredentialProvider(stateDir);
+      if (!credentials.getStateKey) {
+        throw new Error(`Credential provider ${credentials.name} cannot supply a session encryption key`);
+      }
+      key = await credentials.getStateKey();
+      break;
+    }
+    case 'passphrase':
+      if (!(options.interactive ?? process.stdin.isTTY)) {
+        throw new Error('The saved session is encrypted with a passphrase, and there is no terminal to ask for it');
+      }
+      if (options.newKey) {
+        key = await promptLine(`New passphrase for ${path.basename(stateDir)} session: `, true);
+        if (key && (await promptLine('Repeat the passphrase: ', true)) !== key) {
+          throw new Error('Passphrases do not match');
+        }
+      } else {
+        key = await promptLine(`Passphrase for ${path.basename(stateDir)} session: `, true);
+      }
+      break;
+  }
+
+  if (!key) {
+    throw new Error('Session encryption key is empty');
+  }
+  keyCache.set(stateDir, key);
+  return key;
+}
+
+function deriveKey(passphrase: string, salt: Buffer): Buffer {
+  return scryptSync(passphrase, salt, 32);
+}
+
+export function writePrivateFile(filePath: string, contents: string) {
+  const temp = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, contents, { mode: 0o600 });
+  fs.renameSync(temp, filePath);
+}
+
+function tightenPermissions(filePath: string) {
+  try {
+    if ((fs.statSync(filePath).mode & 0o077) !== 0) {
+      fs.chmodSync(filePath, 0o600);
+    }
+  } catch {
+    // Best effort; reading still works.
+  }
+}
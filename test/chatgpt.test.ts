@@ -0,0 +1,387 @@
+import { after, afterEach, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ChatGPT, type ChatGPTOptions, type ResponseStreamEvent } from '../src/chatgpt.js';
+import { ChatGPTError, type ChatGPTErrorType } from '../src/errors.js';
+import { loadModelRegistry } from '../src/models.js';
+import { getProfileDir } from '../src/paths.js';
+import { readAccountInfo } from '../src/profiles.js';
+import { getBrowserStatePath, saveBrowserState } from '../src/state.js';
+import { FakeChatGPT } from './fake-chatgpt.js';
+
+const fake = new FakeChatGPT();
+const opened: ChatGPT[] = [];
+let home: string;
+let originalEnv: { HOME?: string; PLAYWRIGHT_BROWSERS_PATH?: string };
+
+/**
+ * Looks for Playwright's Chromium without creating directories or changing the
+ * environment. Playwright fixes its browser directory when it is first imported,
+ * so this must run while HOME is still the real one.
+ */
+async function findChromium(): Promise<{ executablePath: string; installed: boolean }> {
+  const { chromium } = await import('playwright');
+  let executablePath = '';
+  try {
+    executablePath = chromium.executablePath();
+  } catch {
+    // Unsupported platform; treated as not installed.
+  }
+  return { executablePath, installed: Boolean(executablePath) && fs.existsSync(executablePath) };
+}
+
+function restoreEnv(name: keyof typeof originalEnv) {
+  if (originalEnv[name] === undefined) {
+    delete process.env[name];
+  } else {
+    process.env[name] = originalEnv[name];
+  }
+}
+
+async function open(options: ChatGPTOptions = {}): Promise<ChatGPT> {
+  const chatgpt = new ChatGPT({
+    headless: true,
+    baseUrl: fake.url,
+    profile: 'e2e',
+    timeout: 20_000,
+    retries: 0,
+    cache: 'off',
+    logToStderr: true,
+    ...options,
+  });
+  opened.push(chatgpt);
+  await chatgpt.initialize();
+  return chatgpt;
+}
+
+/** Opens the logged-in chat page, ready for `selectModel` and `query`. */
+async function openChat(options: ChatGPTOptions = {}): Promise<ChatGPT> {
+  const chatgpt = await open(options);
+  await chatgpt.newChat();
+  return chatgpt;
+}
+
+async function rejectsWith(promise: Promise<unknown>, type: ChatGPTErrorType, message?: RegExp): Promise<void> {
+  await assert.rejects(promise, (error: unknown) => {
+    assert.ok(error instanceof ChatGPTError, `expected a ChatGPTError, got ${error}`);
+    assert.equal(error.type, type);
+    if (message) assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('ChatGPT against the fake web app', { timeout: 300_000 }, async () => {
+  const chromium = await findChromium();
+  if (!chromium.installed) {
+    const reason = `Chromium is not installed (${chromium.executablePath || 'no executable path'}); run: npm run install-browser`;
+    it('needs Playwright Chromium', { skip: reason }, () => {});
+    return;
+  }
+
+  before(async () => {
+    // ChatGPT points PLAYWRIGHT_BROWSERS_PATH at a cache under HOME, so both are restored afterwards.
+    originalEnv = { HOME: process.env.HOME, PLAYWRIGHT_BROWSERS_PATH: process.env.PLAYWRIGHT_BROWSERS_PATH };
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-e2e-'));
+    process.env.HOME = home;
+
+    await fake.start();
+    await saveBrowserState(getProfileDir('e2e'), fake.sessionState());
+  });
+
+  afterEach(async () => {
+    await Promise.all(opened.splice(0).map((chatgpt) => chatgpt.close()));
+    fake.reply = ({ prompt }) => `Echo: ${prompt}`;
+    fake.prompts.length = 0;
+  });
+
+  after(async () => {
+    await fake.close();
+    restoreEnv('HOME');
+    restoreEnv('PLAYWRIGHT_BROWSERS_PATH');
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('checkSession', () => {
+    it('is false without a saved session', async () => {
+      const chatgpt = await open({ profile: 'signed-out' });
+      assert.equal(await chatgpt.checkSession(), false);
+    });
+
+    it('is true with a saved session', async () => {
+      const chatgpt = await open();
+      assert.equal(await chatgpt.checkSession(), true);
+    });
+
+    it('reads the account from the session endpoint', async () => {
+      const chatgpt = await open();
+      const session = await chatgpt.inspectSession();
+      assert.equal(session.loggedIn, true);
+      assert.equal(session.email, fake.email);
+    });
+  });
+
+  describe('loginInteractive', () => {
+    const credentials = {
+      name: 'test credentials',
+      getCredentials: async () => ({ email: fake.email, password: fake.password }),
+    };
+
+    it('logs in with email, password and a verification code', async () => {
+      const requests: Date[] = [];
+      const chatgpt = await open({
+        profile: 'login',
+        credentials,
+        otp: {
+          name: 'fake inbox',
+          getCode: async (request) => {
+            requests.push(request.requestedAt);
+            return fake.codesSent.at(-1)?.code ?? '';
+          },
+        },
+      });
+
+      await chatgpt.loginInteractive({ unattended: true });
+
+      assert.equal(requests.length, 1, 'the OTP source was asked for one code');
+      assert.ok(requests[0] <= fake.codesSent.at(-1)!.sentAt, 'the code was sent after it was requested');
+      assert.ok(getBrowserStatePath(chatgpt.getStateDir()), 'the session was saved');
+      assert.equal(readAccountInfo(chatgpt.getStateDir())?.email, fake.email);
+
+      const again = await open({ profile: 'login' });
+      assert.equal(await again.checkSession(), true);
+    });
+
+    it('does nothing but save the session when already logged in', async () => {
+      const sent = fake.codesSent.length;
+      const chatgpt = await open({ credentials });
+      await chatgpt.loginInteractive();
+      assert.equal(fake.codesSent.length, sent);
+    });
+
+    it('fails unattended when no verification code can be fetched', async () => {
+      const chatgpt = await open({
+        profile: 'login-no-code',
+        credentials,
+        otp: {
+          name: 'fake inbox',
+          getCode: async () => {
+            throw new Error('inbox is empty');
+          },
+        },
+      });
+
+      await assert.rejects(
+        chatgpt.loginInteractive({ unattended: true }),
+        /Could not get a verification code from fake inbox: inbox is empty/
+      );
+    });
+  });
+
+  describe('selectModel', () => {
+    it('switches models through the picker', async () => {
+      const chatgpt = await openChat();
+      const selection = await chatgpt.selectModel('gpt-5-thinking');
+      assert.equal(selection.resolved, 'gpt-5-thinking');
+      assert.equal(selection.confirmed, true);
+      assert.equal(selection.label, 'ChatGPT 5 Thinking');
+    });
+
+    it('opens the legacy submenu first when the definition says so', async () => {
+      const chatgpt = await openChat();
+      const selection = await chatgpt.selectModel('gpt4o');
+      assert.equal(selection.resolved, 'gpt-4o');
+      assert.equal(selection.confirmed, true);
+      assert.equal(selection.label, 'GPT-4o');
+    });
+
+    it('fails in strict mode when the picker has no matching option', async () => {
+      const modelsFile = path.join(home, 'models.json');
+      fs.writeFileSync(modelsFile, JSON.stringify({ models: { o3: { verifyTokens: ['o3'] } } }));
+      const chatgpt = await openChat({ models: loadModelRegistry(modelsFile) });
+
+      await rejectsWith(chatgpt.selectModel('o3', true), 'model-mismatch', /Could not find model option for o3/);
+      const selection = await chatgpt.selectModel('o3', false);
+      assert.equal(selection.confirmed, false);
+    });
+
+    it('fails in strict mode on unknown model names', async () => {
+      const chatgpt = await openChat();
+      await rejectsWith(chatgpt.selectModel('gpt-9', true), 'model-mismatch', /not recognized/);
+    });
+  });
+
+  describe('query', () => {
+    it('answers a new chat from the copied markdown and records the conversation', async () => {
+      fake.reply = () => ({ text: 'Paris is the capital of France.', markdown: '**Paris** is the capital of France.' });
+      const chatgpt = await openChat();
+
+      const result = await chatgpt.queryDetailed('What is the capital of France?');
+
+      assert.equal(result.response, '**Paris** is the capital of France.');
+      assert.equal(result.extraction, 'clipboard');
+      assert.deepEqual(fake.prompts, [{ prompt: 'What is the capital of France?', model: 'gpt-5-pro', conversationId: null }]);
+      assert.ok(result.conversation, 'the conversation was recorded');
+      assert.equal(result.model.answeredBy, 'gpt-5-pro');
+      assert.deepEqual(result.model.confirmedBy, ['picker', 'turn']);
+    });
+
+    it('sends follow-ups to the open conversation', async () => {
+      const chatgpt = await openChat({ model: 'gpt-5-instant' });
+
+      const first = await chatgpt.queryDetailed('First question');
+      const second = await chatgpt.queryDetailed('Second question');
+
+      assert.equal(second.response, 'Echo: Second question');
+      assert.equal(second.conversation?.id, first.conversation?.id);
+      assert.equal(fake.prompts[1].conversationId, first.conversation?.id);
+    });
+
+    it('reopens a conversation by id', async () => {
+      const chatgpt = await openChat({ model: 'gpt-5-instant' });
+      const { conversation } = await chatgpt.queryDetailed('Remember this');
+
+      const other = await open({ model: 'gpt-5-instant' });
+      assert.equal(await other.openConversation(conversation!.id), 'ChatGPT 5 Instant');
+      assert.equal((await other.queryDetailed('And now?')).conversation?.id, conversation!.id);
+    });
+
+    it('reports progress while the answer is written', async () => {
+      fake.reply = () => ({
+        text: 'one two three four five six seven eight nine ten',
+        chunks: 10,
+        chunkDelayMs: 400,
+      });
+      const chatgpt = await openChat({ model: 'gpt-5-instant' });
+      const events: ResponseStreamEvent[] = [];
+
+      const response = await chatgpt.query('Count to ten', { onProgress: (event) => events.push(event) });
+
+      const deltas = events.filter((event) => event.type === 'delta');
+      assert.ok(deltas.length > 1, `expected several deltas, got ${deltas.length}`);
+      assert.deepEqual(events.at(-1), { type: 'done', text: response });
+      assert.equal(response, 'one two three four five six seven eight nine ten');
+    });
+
+    it('reports launch and session-check timings only on the first query after them', async () => {
+      const chatgpt = await open({ model: 'gpt-5-instant' });
+      await chatgpt.checkSession();
+
+      const first = await chatgpt.queryDetailed('First question');
+      const second = await chatgpt.queryDetailed('Second question');
+
+      assert.equal(typeof first.timings.launchMs, 'number');
+      assert.equal(typeof first.timings.sessionCheckMs, 'number');
+      assert.equal(second.timings.launchMs, undefined);
+      assert.equal(second.timings.sessionCheckMs, undefined);
+      assert.equal(typeof second.timings.completionMs, 'number');
+    });
+
+    it('sends split parts and stops when a part is not acknowledged', async () => {
+      fake.reply = ({ prompt }) => (prompt.startsWith('[Part 1 of 2]') ? 'Received part 1 of 2.' : 'Here is my answer.');
+      const chatgpt = await openChat({ model: 'gpt-5-instant' });
+      const plan = { prompt: 'whole', parts: ['[Part 1 of 2] a', '[Part 2 of 2] b'], final: 'Answer now' };
+
+      await assert.rejects(chatgpt.querySplit(plan), (error: unknown) => {
+        assert.ok(error instanceof ChatGPTError);
+        assert.match(error.message, /Part 2 of 2 was not acknowledged/);
+        assert.equal(error.response, 'Here is my answer.');
+        return true;
+      });
+      assert.deepEqual(
+        fake.prompts.map(({ prompt }) => prompt.slice(0, 14)),
+        ['[Part 1 of 2] ', '[Part 2 of 2] ', 'Your last repl']
+      );
+    });
+  });
+
+  describe('error paths', () => {
+    it('rejects prompts over the limit before they reach the page', async () => {
+      const chatgpt = await openChat({ maxPromptChars: 10 });
+      await rejectsWith(chatgpt.query('This prompt is too long'), 'composer', /composer limit/);
+      assert.equal(fake.prompts.length, 0);
+    });
+
+    it('takes prompt limits from the query over the instance', async () => {
+      const chatgpt = await openChat({ model: 'gpt-5-instant', maxPromptChars: 10 });
+      assert.equal(await chatgpt.query('A longer prompt', { maxPromptChars: 100 }), 'Echo: A longer prompt');
+      await rejectsWith(chatgpt.query('Hi there', { maxPromptChars: 5 }), 'composer', /limit ~5 characters/);
+    });
+
+    it('turns a "too long" toast into a composer error that is not retried', async () => {
+      fake.reply = () => ({
+        toast: 'The message you submitted was too long, please reload the conversation and submit something shorter.',
+      });
+      const chatgpt = await openChat({ model: 'gpt-5-instant', retries: 2 });
+
+      await assert.rejects(chatgpt.query('Hello'), (error: unknown) => {
+        assert.ok(error instanceof ChatGPTError);
+        assert.equal(error.type, 'composer');
+        assert.equal(error.retryable, false);
+        return true;
+      });
+      assert.equal(fake.prompts.length, 1);
+    });
+
+    it('reports the usage cap', async () => {
+      fake.reply = () => ({ toast: "You've reached our limit of messages per hour. Please try again later." });
+      const chatgpt = await openChat({ model: 'gpt-5-instant' });
+      await rejectsWith(chatgpt.query('Hello'), 'usage-cap');
+    });
+
+    it('does not resend a submitted prompt when no conversation URL is known', async () => {
+      fake.reply = () => ({ toast: 'Something went wrong. If this issue persists please contact us.' });
+      const chatgpt = await openChat({ model: 'gpt-5-instant', retries: 2 });
+
+      await rejectsWith(chatgpt.query('Hello'), 'composer', /will not be resent/);
+      assert.equal(fake.prompts.length, 1);
+    });
+
+    it('fails in strict mode when another model answered', async () => {
+      fake.reply = () => ({ text: 'Answered quickly.', slug: 'gpt-5-instant' });
+      const chatgpt = await openChat();
+
+      await assert.rejects(chatgpt.query('Hello'), (error: unknown) => {
+        assert.ok(error instanceof ChatGPTError);
+        assert.equal(error.type, 'model-mismatch');
+        assert.match(error.message, /answer came from gpt-5-instant/);
+        assert.equal(error.response, 'Answered quickly.');
+        assert.equal(error.answeredBy, 'gpt-5-instant');
+        return true;
+      });
+    });
+
+    it('accepts a turn without model metadata when the picker confirmed the model', async () => {
+      fake.reply = () => ({ text: 'No slug here.', slug: '' });
+      const chatgpt = await openChat();
+
+      const result = await chatgpt.queryDetailed('Hello');
+      assert.equal(result.response, 'No slug here.');
+      assert.equal(result.model.answeredBy, null);
+      assert.deepEqual(result.model.confirmedBy, ['picker']);
+    });
+
+    it('keeps a retried answer without model metadata in strict mode', async () => {
+      const chatgpt = await openChat({ retries: 1 });
+      const { conversation } = await chatgpt.queryDetailed('First question');
+      fake.reply = () => ({ toast: 'Something went wrong. Please try again.', text: 'Recovered answer.', slug: '' });
+
+      const result = await chatgpt.queryDetailed('Second question');
+
+      assert.equal(result.response, 'Recovered answer.');
+      assert.equal(result.attempts, 2);
+      assert.equal(result.conversation?.id, conversation?.id);
+      assert.equal(fake.prompts.length, 2, 'the prompt was not sent again');
+    });
+
+    it('only warns about another model outside strict mode', async () => {
+      fake.reply = () => ({ text: 'Answered quickly.', slug: 'gpt-5-instant' });
+      const chatgpt = await openChat({ strictModel: false });
+
+      const result = await chatgpt.queryDetailed('Hello');
+      assert.equal(result.model.answeredBy, 'gpt-5-instant');
+      assert.equal(result.model.confirmed, false);
+    });
+  });
+});
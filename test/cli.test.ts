@@ -0,0 +1,97 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { fileURLToPath } from 'url';
+
+const CLI = fileURLToPath(new URL('../src/index.ts', import.meta.url));
+
+describe('gpt5 CLI configuration errors', () => {
+  let home: string;
+  let root: string;
+
+  /** Runs the CLI with a sandboxed home directory and no config from the environment. */
+  function gpt5(...args: string[]) {
+    return gpt5Piped('', ...args);
+  }
+
+  /** Same as `gpt5`, with `input` piped to stdin. */
+  function gpt5Piped(input: string, ...args: string[]) {
+    const env = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith('GPT5_')));
+    return spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args], {
+      env: { ...env, HOME: home },
+      input,
+      encoding: 'utf-8',
+      timeout: 60_000,
+    });
+  }
+
+  before(() => {
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-cli-'));
+    root = path.join(home, '.gpt5-pro-cli');
+    fs.mkdirSync(root);
+  });
+
+  after(() => {
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  it('reports a malformed models file instead of crashing', () => {
+    fs.writeFileSync(path.join(root, 'models.json'), '{ "models": ');
+    try {
+      const run = gpt5('Hello', '--no-daemon');
+      assert.equal(run.status, 1);
+      assert.match(run.stderr, /^❌ Error: Could not read .*models\.json/m);
+      assert.doesNotMatch(run.stderr, /\n\s+at /, 'no stack trace');
+    } finally {
+      fs.rmSync(path.join(root, 'models.json'));
+    }
+  });
+
+  it('reports an invalid selectors file instead of crashing', () => {
+    fs.writeFileSync(path.join(root, 'selectors.json'), JSON.stringify({ version: 1, selectors: { nope: ['div'] } }));
+    try {
+      const run = gpt5('Hello', '--no-daemon');
+      assert.equal(run.status, 1);
+      assert.match(run.stderr, /^❌ Error: .*selectors\.json/m);
+      assert.doesNotMatch(run.stderr, /\n\s+at /, 'no stack trace');
+    } finally {
+      fs.rmSync(path.join(root, 'selectors.json'));
+    }
+  });
+
+  it('reads the prompt from piped stdin when none is given', () => {
+    const run = gpt5Piped('A question from a pipe', '--no-daemon', '--max-prompt-chars', '5');
+    assert.equal(run.status, 1);
+    assert.match(run.stderr, /❌ Error: .*22 characters/);
+    assert.doesNotMatch(run.stderr, /prompt is required/i);
+  });
+
+  it('reports an invalid cache TTL without a stack trace', () => {
+    for (const args of [['cache', 'ls', '--cache-ttl', 'soon'], ['cache', 'clear', '--expired', '--cache-ttl', 'soon']]) {
+      const run = gpt5(...args);
+      assert.equal(run.status, 1, args.join(' '));
+      assert.match(run.stderr, /^❌ Error: .*soon/m);
+      assert.doesNotMatch(run.stderr, /\n\s+at /, 'no stack trace');
+    }
+  });
+
+  it('rejects a history limit that is not a positive number', () => {
+    for (const args of [['history', 'list', '-n', 'abc'], ['history', 'search', 'json', '--limit', '0']]) {
+      const run = gpt5(...args);
+      assert.equal(run.status, 1, args.join(' '));
+      assert.match(run.stderr, /^❌ Error: --limit must be a whole number/m);
+    }
+  });
+
+  it('rejects profile names that would leave the profiles directory', () => {
+    for (const profile of ['..', '../outside', '.hidden']) {
+      const run = gpt5('history', 'list', '--profile', profile);
+      assert.equal(run.status, 1, profile);
+      assert.match(run.stderr, /❌ Error: Invalid profile name/);
+    }
+    assert.deepEqual(fs.readdirSync(home), ['.gpt5-pro-cli']);
+  });
+});
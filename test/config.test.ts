@@ -0,0 +1,136 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  getGlobalConfigPath,
+  getProfileConfigPath,
+  parseConfigValue,
+  readConfigFile,
+  resolveConfig,
+  validateConfigValue,
+  writeConfigValue,
+} from '../src/config.js';
+import { getRootDir } from '../src/paths.js';
+
+function writeJson(filePath: string, value: unknown) {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(value));
+}
+
+describe('config', () => {
+  let originalHome: string | undefined;
+  let home: string;
+
+  before(() => {
+    originalHome = process.env.HOME;
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-config-'));
+    process.env.HOME = home;
+  });
+
+  beforeEach(() => {
+    fs.rmSync(getRootDir(), { recursive: true, force: true });
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('resolveConfig', () => {
+    it('is empty without files or variables', () => {
+      assert.deepEqual(resolveConfig('default', {}), { values: {}, sources: {}, origins: {} });
+    });
+
+    it('lets the profile file override the global one and variables override both', () => {
+      writeJson(getGlobalConfigPath(), { model: 'gpt-5-instant', timeout: 1000, retries: 1 });
+      writeJson(getProfileConfigPath('work'), { timeout: 2000, verbose: true });
+
+      const resolved = resolveConfig('work', { GPT5_RETRIES: '4', GPT5_OUTPUT: '' });
+
+      assert.deepEqual(resolved.values, { model: 'gpt-5-instant', timeout: 2000, retries: 4, verbose: true });
+      assert.deepEqual(resolved.sources, { model: 'global', timeout: 'profile', retries: 'env', verbose: 'profile' });
+      assert.equal(resolved.origins.model, getGlobalConfigPath());
+      assert.equal(resolved.origins.timeout, getProfileConfigPath('work'));
+      assert.equal(resolved.origins.retries, 'GPT5_RETRIES');
+    });
+
+    it('only reads the requested profile', () => {
+      writeJson(getProfileConfigPath('work'), { model: 'gpt-5-thinking' });
+      assert.deepEqual(resolveConfig('personal', {}).values, {});
+    });
+
+    it('names the variable of a bad value', () => {
+      assert.throws(() => resolveConfig('default', { GPT5_TIMEOUT: 'soon' }), /^Error: GPT5_TIMEOUT must be a whole number/);
+      assert.throws(() => resolveConfig('default', { GPT5_AUTO_LOGIN: 'maybe' }), /GPT5_AUTO_LOGIN must be true or false/);
+    });
+  });
+
+  describe('readConfigFile', () => {
+    it('treats a missing file as empty', () => {
+      assert.deepEqual(readConfigFile(path.join(home, 'missing.json')), {});
+    });
+
+    it('names the file and key of an unknown key or a bad value', () => {
+      const filePath = getGlobalConfigPath();
+      writeJson(filePath, { modle: 'gpt-5' });
+      assert.throws(() => readConfigFile(filePath), new RegExp(`${filePath}: unknown config key "modle"`));
+
+      writeJson(filePath, { retries: -1 });
+      assert.throws(() => readConfigFile(filePath), new RegExp(`${filePath}: retries must be a whole number of at least 0`));
+    });
+
+    it('rejects files that are not a JSON object', () => {
+      const filePath = getGlobalConfigPath();
+      writeJson(filePath, ['model']);
+      assert.throws(() => readConfigFile(filePath), /expected a JSON object/);
+
+      fs.writeFileSync(filePath, '{ model: ');
+      assert.throws(() => readConfigFile(filePath), /Could not read/);
+    });
+  });
+
+  describe('parseConfigValue', () => {
+    it('parses text by the key type', () => {
+      assert.equal(parseConfigValue('timeout', ' 600000 '), 600000);
+      assert.equal(parseConfigValue('visible', 'YES'), true);
+      assert.equal(parseConfigValue('strictModel', 'off'), false);
+      assert.equal(parseConfigValue('cacheTtl', '12h'), '12h');
+      assert.equal(parseConfigValue('output', 'jsonl'), 'jsonl');
+    });
+
+    it('rejects text that does not fit the type', () => {
+      assert.throws(() => parseConfigValue('timeout', '1.5'), /timeout must be a whole number/);
+      assert.throws(() => parseConfigValue('timeout', '0'), /of at least 1/);
+      assert.throws(() => parseConfigValue('output', 'yaml'), /output must be one of: text, json, jsonl/);
+      assert.throws(() => parseConfigValue('cacheTtl', 'forever'), /^Error: cacheTtl: /);
+    });
+  });
+
+  describe('validateConfigValue', () => {
+    it('checks JSON values without coercing them', () => {
+      assert.equal(validateConfigValue('model', 'gpt-5-pro'), 'gpt-5-pro');
+      assert.throws(() => validateConfigValue('model', ' '), /non-empty string/);
+      assert.throws(() => validateConfigValue('timeout', '1000'), /whole number/);
+      assert.throws(() => validateConfigValue('verbose', 'true'), /true or false/);
+      assert.throws(() => validateConfigValue('cacheTtl', 3600), /duration/);
+    });
+  });
+
+  describe('writeConfigValue', () => {
+    it('sets and removes keys, keeps other entries and writes owner-only', () => {
+      const filePath = getProfileConfigPath('work');
+      writeJson(filePath, { unknown: 1 });
+
+      assert.equal(writeConfigValue(filePath, 'model', 'gpt-5-pro'), false);
+      assert.equal(writeConfigValue(filePath, 'model', 'gpt-5-instant'), true);
+      assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf-8')), { unknown: 1, model: 'gpt-5-instant' });
+      assert.equal(fs.statSync(filePath).mode & 0o777, 0o600);
+
+      assert.equal(writeConfigValue(filePath, 'model', undefined), true);
+      assert.equal(writeConfigValue(filePath, 'model', undefined), false);
+      assert.deepEqual(JSON.parse(fs.readFileSync(filePath, 'utf-8')), { unknown: 1 });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  createCredentialProvider,
+  parseCredentialSpec,
+  readCredentialConfig,
+  writeCredentialConfig,
+} from '../src/credentials.js';
+
+describe('parseCredentialSpec', () => {
+  it('expands a 1Password item into field references', () => {
+    assert.deepEqual(parseCredentialSpec('op:op://Work/ChatGPT/'), {
+      type: '1password',
+      emailRef: 'op://Work/ChatGPT/username',
+      passwordRef: 'op://Work/ChatGPT/password',
+      totpRef: 'op://Work/ChatGPT/one-time password',
+      stateKeyRef: 'op://Work/ChatGPT/session key',
+    });
+  });
+
+  it('parses the other provider types', () => {
+    assert.deepEqual(parseCredentialSpec('env:MY_EMAIL, MY_PASSWORD'), {
+      type: 'env',
+      emailVar: 'MY_EMAIL',
+      passwordVar: 'MY_PASSWORD',
+    });
+    assert.deepEqual(parseCredentialSpec('pass:web/chatgpt'), { type: 'pass', entry: 'web/chatgpt' });
+    assert.deepEqual(parseCredentialSpec('prompt:me@example.com'), { type: 'prompt', email: 'me@example.com' });
+    assert.throws(() => parseCredentialSpec('env:ONLY_ONE'), /env:EMAIL_VAR,PASSWORD_VAR/);
+    assert.throws(() => parseCredentialSpec('vault'), /Unknown credential provider "vault"/);
+  });
+});
+
+describe('credential providers', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('reads the environment and rejects empty values', async () => {
+    process.env.GPT5_EMAIL = 'me@example.com';
+    process.env.GPT5_PASSWORD = 'secret';
+    const provider = createCredentialProvider({ type: 'env' });
+    assert.deepEqual(await provider.getCredentials(), { email: 'me@example.com', password: 'secret' });
+
+    process.env.GPT5_PASSWORD = '';
+    await assert.rejects(provider.getCredentials(), /Email or password is empty/);
+    delete process.env.GPT5_TOTP_SECRET;
+    await assert.rejects(provider.getTotpSecret!(), /GPT5_TOTP_SECRET is not set/);
+  });
+
+  it('falls back to the default 1Password references when the variables are empty', async () => {
+    process.env.ONEPASSWORD_EMAIL_REF = '';
+    process.env.PATH = '';
+    const provider = createCredentialProvider({ type: '1password' });
+    await assert.rejects(provider.getCredentials(), /Item exists at: op:\/\/Private\/OpenAI\/username/);
+  });
+});
+
+describe('writeCredentialConfig', () => {
+  it('replaces an existing file and makes it owner-only', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-credentials-'));
+    try {
+      const filePath = path.join(dir, 'credentials.json');
+      fs.writeFileSync(filePath, '{}', { mode: 0o644 });
+      fs.chmodSync(filePath, 0o644);
+
+      writeCredentialConfig(dir, { type: 'pass', entry: 'web/chatgpt' });
+
+      assert.deepEqual(readCredentialConfig(dir), { type: 'pass', entry: 'web/chatgpt' });
+      assert.equal(fs.statSync(filePath).mode & 0o777, 0o600);
+      assert.deepEqual(fs.readdirSync(dir), ['credentials.json']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,202 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { formatManifest, looksLikeUnifiedDiff, parseCodeBlocks, writeCodeBlocks, writePatch } from '../src/extract.js';
+
+const DIFF = [
+  'diff --git a/hello.txt b/hello.txt',
+  '--- a/hello.txt',
+  '+++ b/hello.txt',
+  '@@ -1 +1 @@',
+  '-hello',
+  '+hello, world',
+  '',
+].join('\n');
+
+describe('parseCodeBlocks', () => {
+  it('reads the language and the content of each fence', () => {
+    const blocks = parseCodeBlocks('Intro\n\n```TypeScript\nconst a = 1;\n```\n\n~~~\nplain\n~~~\n');
+
+    assert.equal(blocks.length, 2);
+    assert.equal(blocks[0].language, 'typescript');
+    assert.equal(blocks[0].content, 'const a = 1;\n');
+    assert.equal(blocks[1].language, '');
+    assert.equal(blocks[1].content, 'plain\n');
+  });
+
+  it('keeps shorter fences of the same kind inside a longer one', () => {
+    const [block] = parseCodeBlocks('````md\n```js\nx();\n```\n````\n');
+    assert.equal(block.language, 'md');
+    assert.equal(block.content, '```js\nx();\n```\n');
+  });
+
+  it('runs an unterminated fence to the end of the text', () => {
+    const [block] = parseCodeBlocks('```py\nprint(1)\nprint(2)');
+    assert.equal(block.content, 'print(1)\nprint(2)\n');
+  });
+
+  it('takes a file name from the info string', () => {
+    const names = parseCodeBlocks(
+      ['```ts title="src/a.ts"', 'a', '```', '```ts:src/b.ts', 'b', '```', '```go cmd/main.go', 'c', '```'].join('\n')
+    ).map((block) => [block.filename, block.filenameSource]);
+
+    assert.deepEqual(names, [
+      ['src/a.ts', 'info'],
+      ['src/b.ts', 'info'],
+      ['cmd/main.go', 'info'],
+    ]);
+  });
+
+  it('takes a file name from the line above the fence', () => {
+    const markdown = [
+      '### src/index.ts',
+      '```ts',
+      'a',
+      '```',
+      '**lib/util.js**:',
+      '',
+      '```js',
+      'b',
+      '```',
+      'File: `config/app.yml`',
+      '```yaml',
+      'c',
+      '```',
+      'Here is the fix:',
+      '```ts',
+      'd',
+      '```',
+    ].join('\n');
+
+    assert.deepEqual(
+      parseCodeBlocks(markdown).map((block) => [block.filename, block.filenameSource]),
+      [
+        ['src/index.ts', 'heading'],
+        ['lib/util.js', 'heading'],
+        ['config/app.yml', 'heading'],
+        [null, null],
+      ]
+    );
+  });
+
+  it('does not mistake a language name for a file name', () => {
+    const [block] = parseCodeBlocks('```json\n{}\n```');
+    assert.equal(block.filename, null);
+  });
+
+  it('marks diffs by language or by content', () => {
+    const blocks = parseCodeBlocks(`\`\`\`patch\n+x\n\`\`\`\n\`\`\`\n${DIFF}\`\`\`\n\`\`\`ts\nconst a = 1;\n\`\`\``);
+    assert.deepEqual(
+      blocks.map((block) => block.isDiff),
+      [true, true, false]
+    );
+  });
+});
+
+describe('looksLikeUnifiedDiff', () => {
+  it('needs file headers and a hunk without a git header', () => {
+    assert.equal(looksLikeUnifiedDiff(DIFF), true);
+    assert.equal(looksLikeUnifiedDiff('--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n'), true);
+    assert.equal(looksLikeUnifiedDiff('--- a/x\n+++ b/x\n'), false);
+    assert.equal(looksLikeUnifiedDiff('- item\n+ item\n'), false);
+  });
+});
+
+describe('writing extracted files', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-extract-'));
+    fs.writeFileSync(path.join(dir, 'hello.txt'), 'hello\n');
+    spawnSync('git', ['init', '-q'], { cwd: dir });
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes named blocks to their paths and names the rest', () => {
+    const blocks = parseCodeBlocks(
+      ['```ts:src/a.ts', 'a', '```', '```python', 'b', '```', '```', DIFF, '```', '```ts:src/a.ts', 'again', '```'].join(
+        '\n'
+      )
+    );
+
+    const files = writeCodeBlocks(blocks, 'out', { cwd: dir });
+
+    assert.deepEqual(
+      files.map((file) => [file.path, file.kind, file.nameSource]),
+      [
+        [path.join('out', 'src', 'a.ts'), 'code', 'info'],
+        [path.join('out', 'block-2.py'), 'code', 'generated'],
+        [path.join('out', 'patch-3.diff'), 'patch', 'generated'],
+        [path.join('out', 'src', 'a-2.ts'), 'code', 'info'],
+      ]
+    );
+    assert.equal(fs.readFileSync(path.join(dir, 'out', 'src', 'a.ts'), 'utf-8'), 'a\n');
+    assert.equal(fs.readFileSync(path.join(dir, 'out', 'src', 'a-2.ts'), 'utf-8'), 'again\n');
+  });
+
+  it('does not write outside the target directory', () => {
+    const files = writeCodeBlocks(parseCodeBlocks('```sh:../../escape.sh\necho hi\n```'), 'safe', { cwd: dir });
+
+    assert.deepEqual(
+      files.map((file) => [file.path, file.nameSource]),
+      [[path.join('safe', 'block-1.sh'), 'generated']]
+    );
+    assert.equal(fs.existsSync(path.join(dir, '..', 'escape.sh')), false);
+  });
+
+  it('joins every diff into one patch and checks it with git', () => {
+    const blocks = parseCodeBlocks(`Change:\n\n\`\`\`diff\n${DIFF}\`\`\`\n\n\`\`\`ts\nconst a = 1;\n\`\`\``);
+
+    const patch = writePatch(blocks, 'fix.patch', { cwd: dir, checkPatches: true });
+
+    assert.ok(patch);
+    assert.equal(patch.path, 'fix.patch');
+    assert.equal(fs.readFileSync(path.join(dir, 'fix.patch'), 'utf-8'), DIFF);
+    assert.deepEqual(patch.check, { ok: true, message: 'applies cleanly' });
+  });
+
+  it('reports a patch that does not apply', () => {
+    const stale = DIFF.replace('-hello\n', '-goodbye\n');
+    const patch = writePatch(parseCodeBlocks(`\`\`\`diff\n${stale}\`\`\``), 'stale.patch', { cwd: dir, checkPatches: true });
+
+    assert.equal(patch?.check?.ok, false);
+    assert.match(patch?.check?.message ?? '', /patch does not apply|patch failed/);
+  });
+
+  it('writes no patch when the response has no diff', () => {
+    assert.equal(writePatch(parseCodeBlocks('```ts\nx\n```'), 'none.patch', { cwd: dir }), null);
+    assert.equal(fs.existsSync(path.join(dir, 'none.patch')), false);
+  });
+});
+
+describe('formatManifest', () => {
+  it('lists the files with their size, kind and check result', () => {
+    const manifest = formatManifest([
+      { path: 'out/a.ts', kind: 'code', language: 'ts', bytes: 1200, nameSource: 'info' },
+      {
+        path: 'fix.patch',
+        kind: 'patch',
+        language: 'diff',
+        bytes: 80,
+        nameSource: 'generated',
+        check: { ok: false, message: 'error: patch failed\nmore' },
+      },
+    ]);
+
+    assert.equal(
+      manifest,
+      [
+        'Extracted 2 files:',
+        '  1,200 bytes  code   out/a.ts',
+        '     80 bytes  patch  fix.patch  (unnamed)  [FAILS: error: patch failed]',
+      ].join('\n')
+    );
+    assert.equal(formatManifest([]), 'Extracted: no code blocks found in the response');
+  });
+});
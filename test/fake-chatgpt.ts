@@ -0,0 +1,538 @@
+import * as http from 'http';
+import { randomInt, randomUUID } from 'crypto';
+import type { AddressInfo } from 'net';
+import type { StorageState } from '../src/state.js';
+
+const SESSION_COOKIE = 'next-auth.session-token';
+
+export interface FakeModel {
+  /** Slug recorded on assistant turns answered by this model. */
+  slug: string;
+  /** Text of the picker option. */
+  option: string;
+  /** Picker button label while the model is selected. */
+  label: string;
+  /** Listed under "Legacy models" instead of the top level. */
+  legacy?: boolean;
+}
+
+export const FAKE_MODELS: FakeModel[] = [
+  { slug: 'gpt-5', option: 'Auto', label: 'ChatGPT 5' },
+  { slug: 'gpt-5-instant', option: 'Instant', label: 'ChatGPT 5 Instant' },
+  { slug: 'gpt-5-thinking', option: 'Thinking', label: 'ChatGPT 5 Thinking' },
+  { slug: 'gpt-5-pro', option: 'Pro', label: 'ChatGPT 5 Pro' },
+  { slug: 'gpt-4o', option: 'GPT-4o', label: 'GPT-4o', legacy: true },
+  { slug: 'gpt-4o-mini', option: 'GPT-4o mini', label: 'GPT-4o mini', legacy: true },
+];
+
+export interface FakeReply {
+  /** Text rendered in the assistant turn. */
+  text?: string;
+  /** What the copy button puts on the clipboard (default: the text). */
+  markdown?: string;
+  /** Model slug recorded on the turn (default: the selected model; empty for none). */
+  slug?: string;
+  /**
+   * Show this error toast over the composer instead of answering. With `text`
+   * the answer is still recorded, so it shows up once the page is reloaded.
+   */
+  toast?: string;
+  /** The answer is written in this many pieces (default 4)... */
+  chunks?: number;
+  /** ...this far apart (default 150ms). */
+  chunkDelayMs?: number;
+}
+
+export interface FakePrompt {
+  prompt: string;
+  model: string;
+  conversationId: string | null;
+}
+
+export interface FakeChatGPTOptions {
+  email?: string;
+  password?: string;
+  models?: FakeModel[];
+  /** Model selected in the picker of a fresh page. */
+  defaultModel?: string;
+}
+
+interface FakeTurn {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  markdown?: string;
+  slug?: string;
+}
+
+/**
+ * A stand-in for the chatgpt.com pages `ChatGPT` drives: the chat page with
+ * its composer, model picker, streaming answers, copy buttons and error
+ * toasts, and the email, password and verification code steps of the login.
+ * Point `ChatGPTOptions.baseUrl` at `url`.
+ */
+export class FakeChatGPT {
+  readonly email: string;
+  readonly password: string;
+  /** Every prompt the chat page sent, in order. */
+  readonly prompts: FakePrompt[] = [];
+  /** Verification codes "emailed" by the login, in order. */
+  readonly codesSent: Array<{ email: string; code: string; sentAt: Date }> = [];
+  /** Decides how the next prompt is answered; a string is the answer text. */
+  reply: (prompt: FakePrompt) => FakeReply | string = ({ prompt }) => `Echo: ${prompt}`;
+
+  private server: http.Server | null = null;
+  private models: FakeModel[];
+  private currentModel: string;
+  private sessions = new Set<string>();
+  private conversations = new Map<string, FakeTurn[]>();
+
+  constructor(options: FakeChatGPTOptions = {}) {
+    this.email = options.email ?? 'user@example.com';
+    this.password = options.password ?? 'correct horse battery staple';
+    this.models = options.models ?? FAKE_MODELS;
+    this.currentModel = options.defaultModel ?? this.models[0].slug;
+  }
+
+  get url(): string {
+    if (!this.server) throw new Error('Fake ChatGPT is not running');
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/`;
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch((error) => {
+        response.writeHead(500, { 'content-type': 'text/plain' });
+        response.end(String(error));
+      });
+    });
+    await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+    return this.url;
+  }
+
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** A logged-in browser state, for seeding a profile without going through the login. */
+  sessionState(): StorageState {
+    const token = this.createSession();
+    return {
+      cookies: [
+        {
+          name: SESSION_COOKIE,
+          value: token,
+          domain: '127.0.0.1',
+          path: '/',
+          expires: -1,
+          httpOnly: true,
+          secure: false,
+          sameSite: 'Lax',
+        },
+      ],
+      origins: [],
+    };
+  }
+
+  private createSession(): string {
+    const token = randomUUID();
+    this.sessions.add(token);
+    return token;
+  }
+
+  private isLoggedIn(request: http.IncomingMessage): boolean {
+    const cookies = new Map(
+      (request.headers.cookie ?? '').split(';').map((pair) => {
+        const [name, ...value] = pair.trim().split('=');
+        return [name, value.join('=')] as const;
+      })
+    );
+    return this.sessions.has(cookies.get(SESSION_COOKIE) ?? '');
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    const route = `${request.method} ${url.pathname}`;
+
+    if (route === 'GET /') {
+      if (!this.isLoggedIn(request)) return html(response, loggedOutPage());
+      return html(response, this.chatPage(null));
+    }
+
+    const conversation = url.pathname.match(/^\/c\/([0-9a-f-]{36})$/);
+    if (request.method === 'GET' && conversation) {
+      if (!this.isLoggedIn(request) || !this.conversations.has(conversation[1])) {
+        return redirect(response, '/');
+      }
+      return html(response, this.chatPage(conversation[1]));
+    }
+
+    switch (route) {
+      case 'GET /api/auth/session':
+        return json(
+          response,
+          this.isLoggedIn(request) ? { user: { email: this.email }, expires: '2099-01-01T00:00:00.000Z' } : {}
+        );
+
+      case 'POST /backend-api/conversation': {
+        if (!this.isLoggedIn(request)) return json(response, { detail: 'Unauthorized' }, 401);
+        return json(response, this.answer(JSON.parse(await readBody(request))));
+      }
+
+      case 'GET /auth/login':
+        return html(response, emailPage());
+
+      case 'POST /auth/login': {
+        const email = new URLSearchParams(await readBody(request)).get('email') ?? '';
+        return redirect(response, `/auth/password?email=${encodeURIComponent(email)}`);
+      }
+
+      case 'GET /auth/password':
+        return html(response, passwordPage(url.searchParams.get('email') ?? '', null));
+
+      case 'POST /auth/password': {
+        const form = new URLSearchParams(await readBody(request));
+        const email = form.get('email') ?? '';
+        if (email !== this.email || form.get('password') !== this.password) {
+          return html(response, passwordPage(email, 'Incorrect email address or password'));
+        }
+        this.codesSent.push({ email, code: String(randomInt(0, 1_000_000)).padStart(6, '0'), sentAt: new Date() });
+        return redirect(response, `/auth/verify?email=${encodeURIComponent(email)}`);
+      }
+
+      case 'GET /auth/verify':
+        return html(response, verifyPage(url.searchParams.get('email') ?? '', null));
+
+      case 'POST /auth/verify': {
+        const form = new URLSearchParams(await readBody(request));
+        const email = form.get('email') ?? '';
+        const sent = this.codesSent.filter((entry) => entry.email === email).at(-1);
+        if (!sent || form.get('code') !== sent.code) {
+          return html(response, verifyPage(email, 'Incorrect code'));
+        }
+        response.setHeader('set-cookie', `${SESSION_COOKIE}=${this.createSession()}; Path=/; HttpOnly; SameSite=Lax`);
+        return redirect(response, '/');
+      }
+    }
+
+    response.writeHead(404, { 'content-type': 'text/plain' });
+    response.end('Not found');
+  }
+
+  private answer(body: { prompt: string; model: string; conversationId: string | null }): object {
+    const prompt: FakePrompt = {
+      prompt: body.prompt,
+      model: body.model,
+      conversationId: body.conversationId,
+    };
+    this.prompts.push(prompt);
+    this.currentModel = body.model;
+
+    const raw = this.reply(prompt);
+    const reply: FakeReply = typeof raw === 'string' ? { text: raw } : raw;
+    if (reply.toast && reply.text === undefined) {
+      return { toast: reply.toast };
+    }
+
+    const conversationId = body.conversationId ?? randomUUID();
+    const turns = this.conversations.get(conversationId) ?? [];
+    const user: FakeTurn = { id: randomUUID(), role: 'user', text: body.prompt };
+    const assistant: FakeTurn = {
+      id: randomUUID(),
+      role: 'assistant',
+      text: reply.text ?? '',
+      markdown: reply.markdown,
+      slug: reply.slug ?? body.model,
+    };
+    turns.push(user, assistant);
+    this.conversations.set(conversationId, turns);
+    if (reply.toast) {
+      return { toast: reply.toast };
+    }
+
+    return {
+      conversationId,
+      user,
+      assistant,
+      chunks: reply.chunks ?? 4,
+      chunkDelayMs: reply.chunkDelayMs ?? 150,
+    };
+  }
+
+  private chatPage(conversationId: string | null): string {
+    const current = this.models.find((model) => model.slug === this.currentModel) ?? this.models[0];
+    const option = (model: FakeModel) =>
+      `<div role="menuitem" class="__menu-item" data-testid="model-switcher-${model.slug}"` +
+      ` data-slug="${model.slug}" data-label="${escapeHtml(model.label)}"` +
+      `${model.legacy ? ' data-legacy hidden' : ''}>${escapeHtml(model.option)}</div>`;
+    const hasLegacy = this.models.some((model) => model.legacy);
+    const turns = (conversationId ? this.conversations.get(conversationId) : null) ?? [];
+
+    return page(
+      'ChatGPT',
+      `
+      <nav><a href="/">New chat</a> <button type="button">Search chats</button></nav>
+      <header>
+        <button type="button" data-testid="model-switcher-dropdown-button" aria-haspopup="menu">${escapeHtml(
+          current.label
+        )}</button>
+        <div role="menu" hidden>
+          ${this.models.filter((model) => !model.legacy).map(option).join('\n')}
+          ${hasLegacy ? '<div role="menuitem" class="__menu-item" data-testid="Legacy models-submenu">Legacy models</div>' : ''}
+          ${this.models.filter((model) => model.legacy).map(option).join('\n')}
+        </div>
+      </header>
+      <main id="thread">${turns.map(renderTurn).join('\n')}</main>
+      <form data-testid="composer">
+        <textarea id="prompt-textarea" placeholder="Ask anything"></textarea>
+        <input type="file" multiple>
+        <button type="submit" data-testid="send-button" aria-label="Send prompt">Send</button>
+      </form>
+      <div id="toasts"></div>
+      <script>window.__FAKE_CHATGPT__ = ${JSON.stringify({ conversationId, model: current.slug })};</script>
+      <script>${CHAT_SCRIPT}</script>`
+    );
+  }
+}
+
+function renderTurn(turn: FakeTurn): string {
+  const message =
+    `<div data-message-author-role="${turn.role}" data-message-id="${turn.id}"` +
+    `${turn.slug ? ` data-message-model-slug="${turn.slug}"` : ''}>${escapeHtml(turn.text)}</div>`;
+  const actions =
+    turn.role === 'assistant'
+      ? `<div><button type="button" data-testid="copy-turn-action-button" aria-label="Copy"` +
+        ` data-copy="${escapeHtml(turn.markdown ?? turn.text)}">Copy</button></div>`
+      : '';
+  return `<article>${message}${actions}</article>`;
+}
+
+// Runs in the browser. Plain JavaScript in a string so the TypeScript loader
+// has nothing to rewrite in it.
+const CHAT_SCRIPT = `
+(function () {
+  var state = window.__FAKE_CHATGPT__;
+  var switcher = document.querySelector('[data-testid="model-switcher-dropdown-button"]');
+  var menu = document.querySelector('[role="menu"]');
+  var form = document.querySelector('[data-testid="composer"]');
+  var input = document.getElementById('prompt-textarea');
+  var thread = document.getElementById('thread');
+
+  function closeMenu() {
+    menu.hidden = true;
+    menu.removeAttribute('data-state');
+    menu.querySelectorAll('[data-legacy]').forEach(function (item) { item.hidden = true; });
+  }
+
+  switcher.addEventListener('click', function () {
+    if (!menu.hidden) return closeMenu();
+    menu.hidden = false;
+    menu.setAttribute('data-state', 'open');
+  });
+
+  menu.addEventListener('click', function (event) {
+    var item = event.target.closest('[role="menuitem"]');
+    if (!item) return;
+    if (item.getAttribute('data-testid') === 'Legacy models-submenu') {
+      menu.querySelectorAll('[data-legacy]').forEach(function (legacy) { legacy.hidden = false; });
+      return;
+    }
+    state.model = item.getAttribute('data-slug');
+    switcher.textContent = item.getAttribute('data-label');
+    closeMenu();
+  });
+
+  document.addEventListener('keydown', function (event) {
+    if (event.key === 'Escape') closeMenu();
+  });
+
+  function copyButton(text) {
+    var actions = document.createElement('div');
+    var button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = 'Copy';
+    button.setAttribute('data-testid', 'copy-turn-action-button');
+    button.setAttribute('aria-label', 'Copy');
+    button.setAttribute('data-copy', text);
+    actions.appendChild(button);
+    return actions;
+  }
+
+  document.addEventListener('click', function (event) {
+    var button = event.target.closest('[data-testid="copy-turn-action-button"]');
+    if (button) navigator.clipboard.writeText(button.getAttribute('data-copy'));
+  });
+
+  function message(role, turn) {
+    var node = document.createElement('div');
+    node.setAttribute('data-message-author-role', role);
+    node.setAttribute('data-message-id', turn.id);
+    if (turn.slug) node.setAttribute('data-message-model-slug', turn.slug);
+    return node;
+  }
+
+  function toast(text) {
+    var node = document.createElement('div');
+    node.setAttribute('role', 'alert');
+    node.textContent = text;
+    document.getElementById('toasts').appendChild(node);
+  }
+
+  function stream(node, article, reply) {
+    var words = reply.assistant.text.split(/(?=\\s)/);
+    var size = Math.max(1, Math.ceil(words.length / reply.chunks));
+    var written = 0;
+    (function next() {
+      written = Math.min(words.length, written + size);
+      node.textContent = words.slice(0, written).join('');
+      if (written < words.length) return setTimeout(next, reply.chunkDelayMs);
+      article.appendChild(copyButton(reply.assistant.markdown || reply.assistant.text));
+    })();
+  }
+
+  function send() {
+    var prompt = input.value;
+    if (!prompt.trim()) return;
+    input.value = '';
+    fetch('/backend-api/conversation', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ prompt: prompt, model: state.model, conversationId: state.conversationId }),
+    })
+      .then(function (response) { return response.json(); })
+      .then(function (reply) {
+        if (reply.toast) return toast(reply.toast);
+
+        var question = document.createElement('article');
+        var user = message('user', reply.user);
+        user.textContent = reply.user.text;
+        question.appendChild(user);
+        thread.appendChild(question);
+
+        if (state.conversationId !== reply.conversationId) {
+          state.conversationId = reply.conversationId;
+          history.pushState(null, '', '/c/' + reply.conversationId);
+        }
+
+        var answer = document.createElement('article');
+        var assistant = message('assistant', reply.assistant);
+        answer.appendChild(assistant);
+        thread.appendChild(answer);
+        setTimeout(function () { stream(assistant, answer, reply); }, reply.chunkDelayMs);
+      });
+  }
+
+  form.addEventListener('submit', function (event) {
+    event.preventDefault();
+    send();
+  });
+
+  input.addEventListener('keydown', function (event) {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      send();
+    }
+  });
+})();
+`;
+
+function loggedOutPage(): string {
+  return page(
+    'ChatGPT',
+    `
+    <h1>What can I help with?</h1>
+    <a href="/auth/login" data-testid="login-button">Log in</a>
+    <a href="/auth/login">Sign up for free</a>`
+  );
+}
+
+function emailPage(): string {
+  return page(
+    'Log in',
+    `
+    <h1>Welcome back</h1>
+    <form method="post" action="/auth/login">
+      <label for="email">Email address</label>
+      <input id="email" type="email" name="email" required>
+      <button type="submit">Continue</button>
+    </form>`
+  );
+}
+
+function passwordPage(email: string, error: string | null): string {
+  return page(
+    'Enter your password',
+    `
+    <h1>Enter your password</h1>
+    ${error ? `<p role="alert">${escapeHtml(error)}</p>` : ''}
+    <form method="post" action="/auth/password">
+      <input type="hidden" name="email" value="${escapeHtml(email)}">
+      <label for="password">Password</label>
+      <input id="password" type="password" name="password" required>
+      <button type="submit">Continue</button>
+    </form>`
+  );
+}
+
+function verifyPage(email: string, error: string | null): string {
+  return page(
+    'Check your inbox',
+    `
+    <h1>Check your inbox</h1>
+    <p>Enter the verification code we just sent to ${escapeHtml(email)}.</p>
+    ${error ? `<p role="alert">${escapeHtml(error)}</p>` : ''}
+    <form method="post" action="/auth/verify">
+      <input type="hidden" name="email" value="${escapeHtml(email)}">
+      <label for="code">Code</label>
+      <input id="code" name="code" autocomplete="one-time-code" inputmode="numeric">
+      <button type="submit">Continue</button>
+    </form>`
+  );
+}
+
+function page(title: string, body: string): string {
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body>${body}
+</body>
+</html>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function html(response: http.ServerResponse, body: string): void {
+  response.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+  response.end(body);
+}
+
+function json(response: http.ServerResponse, body: unknown, status: number = 200): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+function redirect(response: http.ServerResponse, location: string): void {
+  response.writeHead(302, { location });
+  response.end();
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf-8');
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  appendHistory,
+  clearHistory,
+  createHistoryEntry,
+  findHistoryEntry,
+  getHistoryPath,
+  pruneHistory,
+  readHistory,
+  searchHistory,
+  type HistoryEntry,
+} from '../src/history.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function entry(prompt: string, startedAt: number = Date.now()): HistoryEntry {
+  return createHistoryEntry({ prompt, model: 'GPT-5 Pro', startedAt, exitCode: 0, attachments: ['/tmp/a/notes.md'] });
+}
+
+describe('history', () => {
+  let stateDir: string;
+
+  beforeEach(() => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-history-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it('records failures with their error type', () => {
+    const failed = createHistoryEntry({
+      prompt: 'Hi',
+      model: 'GPT-5 Pro',
+      startedAt: Date.now(),
+      exitCode: 1,
+      error: { type: 'usage-cap', message: 'capped' },
+    });
+    assert.equal(failed.status, 'error');
+    assert.equal(failed.response, null);
+    assert.deepEqual(failed.error, { type: 'usage-cap', message: 'capped' });
+    assert.deepEqual(entry('x').attachments, ['notes.md']);
+  });
+
+  it('appends owner-only and skips half-written lines', async () => {
+    await appendHistory(stateDir, entry('first'));
+    fs.appendFileSync(getHistoryPath(stateDir), '{"id": "trunc');
+    fs.appendFileSync(getHistoryPath(stateDir), '\n');
+    await appendHistory(stateDir, entry('second'));
+
+    assert.equal(fs.statSync(getHistoryPath(stateDir)).mode & 0o777, 0o600);
+    assert.deepEqual(
+      readHistory(stateDir).map((item) => item.prompt),
+      ['first', 'second']
+    );
+    assert.equal(fs.existsSync(path.join(stateDir, 'history.lock')), false, 'the lock is released');
+  });
+
+  it('keeps the newest entries within the count and age limits', async () => {
+    await appendHistory(stateDir, entry('ancient', Date.now() - 10 * DAY));
+    for (const prompt of ['one', 'two', 'three']) {
+      await appendHistory(stateDir, entry(prompt), { maxEntries: 2, maxAgeMs: 5 * DAY });
+    }
+    assert.deepEqual(
+      readHistory(stateDir).map((item) => item.prompt),
+      ['two', 'three']
+    );
+    assert.equal(await pruneHistory(stateDir, { maxEntries: 1 }), 1);
+    assert.deepEqual(
+      readHistory(stateDir).map((item) => item.prompt),
+      ['three']
+    );
+    assert.deepEqual(
+      fs.readdirSync(stateDir).sort(),
+      ['history.jsonl'],
+      'no temp or lock file is left behind'
+    );
+  });
+
+  it('waits for another holder of the lock before writing', async () => {
+    const lock = path.join(stateDir, 'history.lock');
+    fs.writeFileSync(lock, String(process.pid));
+
+    const appended = appendHistory(stateDir, entry('waited'));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(fs.existsSync(getHistoryPath(stateDir)), false);
+
+    fs.rmSync(lock);
+    await appended;
+    assert.deepEqual(
+      readHistory(stateDir).map((item) => item.prompt),
+      ['waited']
+    );
+  });
+
+  it('clears the store only once the lock is free', async () => {
+    await appendHistory(stateDir, entry('gone'));
+    const lock = path.join(stateDir, 'history.lock');
+    fs.writeFileSync(lock, String(process.pid));
+
+    const cleared = clearHistory(stateDir);
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    assert.equal(readHistory(stateDir).length, 1);
+
+    fs.rmSync(lock);
+    await cleared;
+    assert.deepEqual(fs.readdirSync(stateDir), []);
+    await clearHistory(path.join(stateDir, 'missing'));
+  });
+
+  it('loses no entries when appends and prunes overlap', async () => {
+    await Promise.all(['a', 'b', 'c'].map((prompt) => appendHistory(stateDir, entry(prompt), { maxEntries: 10 })));
+    assert.deepEqual(readHistory(stateDir).map((item) => item.prompt).sort(), ['a', 'b', 'c']);
+  });
+
+  it('finds entries by id prefix and text', async () => {
+    const first = entry('How do I parse JSON?');
+    await appendHistory(stateDir, first);
+    await appendHistory(stateDir, entry('Explain json schemas'));
+
+    assert.equal(findHistoryEntry(stateDir, first.id.slice(0, 6)).id, first.id);
+    assert.throws(() => findHistoryEntry(stateDir, ''), /No history entry matches/);
+    assert.deepEqual(
+      searchHistory(stateDir, 'JSON').map((item) => item.prompt),
+      ['Explain json schemas', 'How do I parse JSON?']
+    );
+  });
+});
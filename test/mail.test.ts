@@ -0,0 +1,224 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as net from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import type { AddressInfo } from 'net';
+import { extractVerificationCode, fetchImapMessages, parseEmail, readMaildir } from '../src/mail.js';
+
+function email(options: { from?: string; subject?: string; date?: string; body: string; headers?: string }): string {
+  return [
+    `From: ${options.from ?? 'OpenAI <noreply@tm.openai.com>'}`,
+    `Subject: ${options.subject ?? 'Your ChatGPT code'}`,
+    `Date: ${options.date ?? 'Thu, 01 Jan 2026 12:00:00 +0000'}`,
+    ...(options.headers ? [options.headers] : []),
+    '',
+    options.body,
+  ].join('\r\n');
+}
+
+interface StoredMessage {
+  uid: number;
+  internalDate: string;
+  raw: string;
+}
+
+/**
+ * Just enough of an IMAP server for `fetchImapMessages`: one mailbox, plain
+ * LOGIN, and UID SEARCH/FETCH answered from `messages`.
+ */
+class FakeImapServer {
+  readonly commands: string[] = [];
+  messages: StoredMessage[] = [];
+  private server = net.createServer((socket) => this.handle(socket));
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket) {
+    socket.setEncoding('latin1');
+    socket.write('* OK fake IMAP ready\r\n');
+    let buffer = '';
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      let end: number;
+      while ((end = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        this.respond(socket, line);
+      }
+    });
+  }
+
+  private respond(socket: net.Socket, line: string) {
+    const [tag, ...rest] = line.split(' ');
+    const command = rest.join(' ');
+    this.commands.push(command);
+
+    if (/^LOGIN "me@example\.com" "secret"$/.test(command)) {
+      socket.write(`${tag} OK LOGIN completed\r\n`);
+    } else if (command.startsWith('LOGIN')) {
+      socket.write(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+    } else if (command.startsWith('EXAMINE')) {
+      socket.write(`* ${this.messages.length} EXISTS\r\n${tag} OK [READ-ONLY] EXAMINE completed\r\n`);
+    } else if (command.startsWith('UID SEARCH')) {
+      const uids = this.messages.map((message) => message.uid).join(' ');
+      socket.write(`* SEARCH ${uids}\r\n${tag} OK SEARCH completed\r\n`);
+    } else if (command.startsWith('UID FETCH')) {
+      const uid = Number(command.split(' ')[2]);
+      const message = this.messages.find((candidate) => candidate.uid === uid);
+      if (message) {
+        const bytes = Buffer.byteLength(message.raw, 'latin1');
+        socket.write(
+          `* 1 FETCH (UID ${uid} INTERNALDATE "${message.internalDate}" BODY[] {${bytes}}\r\n${message.raw})\r\n`
+        );
+      }
+      socket.write(`${tag} OK FETCH completed\r\n`);
+    } else if (command === 'LOGOUT') {
+      socket.write(`* BYE\r\n${tag} OK LOGOUT completed\r\n`);
+      socket.end();
+    } else {
+      socket.write(`${tag} BAD unknown command\r\n`);
+    }
+  }
+}
+
+describe('parseEmail', () => {
+  it('decodes encoded headers and multipart bodies', () => {
+    const message = parseEmail(
+      [
+        'From: =?UTF-8?B?T3BlbkFJ?= <noreply@tm.openai.com>',
+        'Subject: =?UTF-8?Q?Your_code_=E2=80=94_ChatGPT?=',
+        'Date: Thu, 01 Jan 2026 12:00:00 +0000',
+        'Content-Type: multipart/alternative; boundary="b1"',
+        '',
+        '--b1',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Your code is 123=',
+        '456 =E2=80=94 thanks',
+        '--b1',
+        'Content-Type: text/html',
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from('<style>p{}</style><p>Code: <b>123456</b></p>').toString('base64'),
+        '--b1--',
+      ].join('\r\n')
+    );
+
+    assert.equal(message.from, 'OpenAI <noreply@tm.openai.com>');
+    assert.equal(message.subject, 'Your code — ChatGPT');
+    assert.deepEqual(message.date, new Date('2026-01-01T12:00:00Z'));
+    assert.equal(message.text, 'Your code is 123456 — thanks Code: 123456');
+  });
+
+  it('ignores an unparseable date', () => {
+    assert.equal(parseEmail(email({ date: 'yesterday', body: 'hi' })).date, null);
+  });
+});
+
+describe('extractVerificationCode', () => {
+  it('prefers digits that follow the word "code"', () => {
+    assert.equal(extractVerificationCode('Order 654321. Your verification code is: 12345678'), '12345678');
+  });
+
+  it('falls back to a standalone six-digit number', () => {
+    assert.equal(extractVerificationCode('Enter 246810 to continue'), '246810');
+    assert.equal(extractVerificationCode('Nothing to see, call 555-0100'), null);
+  });
+});
+
+describe('readMaildir', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-maildir-'));
+    fs.mkdirSync(path.join(dir, 'new'));
+    fs.mkdirSync(path.join(dir, 'cur'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('returns messages delivered since the given time, newest first', () => {
+    const deliver = (folder: string, name: string, body: string, at: Date) => {
+      const file = path.join(dir, folder, name);
+      fs.writeFileSync(file, email({ body }));
+      fs.utimesSync(file, at, at);
+    };
+    deliver('cur', 'old', 'code 111111', new Date('2026-01-01T11:00:00Z'));
+    deliver('cur', 'middle', 'code 222222', new Date('2026-01-01T12:00:00Z'));
+    deliver('new', 'newest', 'code 333333', new Date('2026-01-01T12:05:00Z'));
+
+    const messages = readMaildir(dir, new Date('2026-01-01T12:00:00Z'));
+    assert.deepEqual(
+      messages.map((message) => message.text),
+      ['code 333333', 'code 222222']
+    );
+    assert.deepEqual(messages[0].receivedAt, new Date('2026-01-01T12:05:00Z'));
+  });
+
+  it('rejects a directory that is not a maildir', () => {
+    assert.throws(() => readMaildir(path.join(dir, 'new'), new Date()), /Not a maildir/);
+  });
+});
+
+describe('fetchImapMessages', () => {
+  const imap = new FakeImapServer();
+  let port: number;
+  const options = () => ({ host: '127.0.0.1', port, secure: false, user: 'me@example.com', password: 'secret' });
+
+  before(async () => {
+    port = await imap.start();
+  });
+
+  after(async () => {
+    await imap.close();
+  });
+
+  it('filters by the time the server received a message, not its Date header', async () => {
+    imap.messages = [
+      // Sent with a clock that runs ahead, but received before the request.
+      {
+        uid: 7,
+        internalDate: '01-Jan-2026 11:58:00 +0000',
+        raw: email({ date: 'Thu, 01 Jan 2026 12:30:00 +0000', body: 'Code 111111' }),
+      },
+      // Received after the request in another time zone.
+      { uid: 8, internalDate: '01-Jan-2026 13:01:30 +0100', raw: email({ body: 'Code 222222' }) },
+      { uid: 9, internalDate: ' 1-Jan-2026 12:02:00 +0000', raw: email({ body: 'Code 333333' }) },
+    ];
+
+    const messages = await fetchImapMessages(options(), new Date('2026-01-01T12:00:00Z'));
+
+    assert.deepEqual(
+      messages.map((message) => [message.text, message.receivedAt?.toISOString()]),
+      [
+        ['Code 333333', '2026-01-01T12:02:00.000Z'],
+        ['Code 222222', '2026-01-01T12:01:30.000Z'],
+      ]
+    );
+    assert.deepEqual(imap.commands, [
+      'LOGIN "me@example.com" "secret"',
+      'EXAMINE "INBOX"',
+      'UID SEARCH SINCE 31-Dec-2025',
+      'UID FETCH 9 (INTERNALDATE BODY.PEEK[])',
+      'UID FETCH 8 (INTERNALDATE BODY.PEEK[])',
+      'UID FETCH 7 (INTERNALDATE BODY.PEEK[])',
+      'LOGOUT',
+    ]);
+  });
+
+  it('reports a failed login', async () => {
+    await assert.rejects(fetchImapMessages({ ...options(), password: 'wrong' }, new Date()), /IMAP LOGIN failed: NO/);
+  });
+});
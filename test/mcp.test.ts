@@ -0,0 +1,172 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { ChatGPT, QueryOptions, QueryResult } from '../src/chatgpt.js';
+import { ChatGPTError } from '../src/errors.js';
+import { createMcpServer } from '../src/mcp.js';
+
+/** Records what the tools ask of the browser and answers with scripted results. */
+class StubChatGPT {
+  calls: string[] = [];
+  prompts: Array<{ prompt: string; model?: string }> = [];
+  loggedIn = true;
+  error: Error | null = null;
+
+  async initialize() {
+    this.calls.push('initialize');
+  }
+
+  async checkSession() {
+    return this.loggedIn;
+  }
+
+  async newChat() {
+    this.calls.push('newChat');
+  }
+
+  async openConversation(conversation: string) {
+    this.calls.push(`openConversation ${conversation}`);
+  }
+
+  async queryDetailed(prompt: string, options: QueryOptions): Promise<QueryResult> {
+    this.prompts.push({ prompt, model: options.model });
+    if (this.error) throw this.error;
+    return {
+      response: `Answer to: ${prompt.slice(-20)}`,
+      attempts: 1,
+      model: {
+        requested: options.model ?? 'gpt-5-pro',
+        resolved: 'gpt-5-pro',
+        displayName: 'GPT-5 Pro',
+        confirmed: true,
+        confirmedBy: ['turn'],
+        label: null,
+        answeredBy: 'gpt-5-pro',
+      },
+      conversation: { id: 'abc-123', url: 'https://chatgpt.com/c/abc-123' },
+      prompt: { chars: prompt.length, tokens: 1 },
+      attachments: [],
+      timings: {},
+      extraction: 'clipboard',
+      cached: false,
+      startedAt: '2026-01-01T00:00:00.000Z',
+      completedAt: '2026-01-01T00:00:01.000Z',
+    };
+  }
+
+  async openTab(): Promise<StubChatGPT> {
+    return this;
+  }
+
+  async close() {}
+}
+
+function textOf(result: Awaited<ReturnType<Client['callTool']>>): string {
+  const [content] = result.content as Array<{ type: string; text: string }>;
+  return content.text;
+}
+
+describe('MCP server', () => {
+  let dir: string;
+  let chatgpt: StubChatGPT;
+  let client: Client;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-mcp-'));
+    fs.writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(dir, 'b.ts'), 'export const b = 2;\n');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    chatgpt = new StubChatGPT();
+    const { server } = createMcpServer(chatgpt as unknown as ChatGPT, { version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    client = new Client({ name: 'test', version: '0.0.0' });
+    await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('registers ask and continue with their input schemas', async () => {
+    const { tools } = await client.listTools();
+    const byName = Object.fromEntries(tools.map((tool) => [tool.name, tool.inputSchema]));
+
+    assert.deepEqual(Object.keys(byName).sort(), ['ask', 'continue']);
+    assert.deepEqual(Object.keys(byName.ask.properties ?? {}).sort(), ['files', 'model', 'prompt']);
+    assert.deepEqual(byName.ask.required, ['prompt']);
+    assert.deepEqual(byName.continue.required?.slice().sort(), ['conversation', 'prompt']);
+  });
+
+  it('asks in a new chat and returns the answer with the conversation', async () => {
+    const result = await client.callTool({ name: 'ask', arguments: { prompt: 'Why?', model: 'gpt-5-thinking' } });
+
+    assert.equal(result.isError, undefined);
+    assert.equal(textOf(result), 'Answer to: Why?\n\n---\nconversation: abc-123');
+    assert.deepEqual(result.structuredContent, {
+      response: 'Answer to: Why?',
+      conversationId: 'abc-123',
+      conversationUrl: 'https://chatgpt.com/c/abc-123',
+      model: 'GPT-5 Pro',
+      modelConfirmed: true,
+      answeredBy: 'gpt-5-pro',
+    });
+    assert.deepEqual(chatgpt.calls, ['initialize', 'newChat']);
+    assert.deepEqual(chatgpt.prompts, [{ prompt: 'Why?', model: 'gpt-5-thinking' }]);
+  });
+
+  it('expands files as fenced context before the prompt', async () => {
+    await client.callTool({ name: 'ask', arguments: { prompt: 'Review these.', files: [path.join(dir, '*.ts')] } });
+
+    const [{ prompt }] = chatgpt.prompts;
+    assert.match(prompt, /### \S*a\.ts\n```ts\nexport const a = 1;\n```/);
+    assert.ok(prompt.indexOf('export const a') < prompt.indexOf('export const b'));
+    assert.ok(prompt.endsWith('Review these.'));
+  });
+
+  it('continues a conversation and initializes the browser once', async () => {
+    await client.callTool({ name: 'ask', arguments: { prompt: 'First' } });
+    await client.callTool({ name: 'continue', arguments: { conversation: 'abc-123', prompt: 'And then?' } });
+
+    assert.deepEqual(chatgpt.calls, ['initialize', 'newChat', 'openConversation abc-123']);
+    assert.equal(chatgpt.prompts[1].prompt, 'And then?');
+  });
+
+  it('reports failures as tool errors', async () => {
+    const files = [path.join(dir, '*.py')];
+    const unmatched = await client.callTool({ name: 'ask', arguments: { prompt: 'Hi', files } });
+    assert.equal(unmatched.isError, true);
+    assert.match(textOf(unmatched), /matched no files/);
+
+    chatgpt.error = new ChatGPTError('Usage cap reached', 'usage-cap');
+    const failed = await client.callTool({ name: 'ask', arguments: { prompt: 'Hi' } });
+    assert.equal(failed.isError, true);
+    assert.match(textOf(failed), /Usage cap reached/);
+  });
+
+  it('asks for a login when the session has expired', async () => {
+    chatgpt.loggedIn = false;
+    const result = await client.callTool({ name: 'ask', arguments: { prompt: 'Hi' } });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /Not logged in/);
+    assert.deepEqual(chatgpt.prompts, []);
+  });
+
+  it('rejects arguments that do not match the schema', async () => {
+    const result = await client.callTool({ name: 'ask', arguments: { prompt: '' } });
+
+    assert.equal(result.isError, true);
+    assert.match(textOf(result), /prompt/);
+    assert.deepEqual(chatgpt.prompts, []);
+  });
+});
@@ -0,0 +1,111 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { CredentialProvider } from '../src/credentials.js';
+import { createOtpSource, generateTotp, parseOtpSpec, readOtpConfig, writeOtpConfig } from '../src/otp.js';
+
+const noCredentials: CredentialProvider = {
+  name: 'none',
+  getCredentials: async () => ({ email: '', password: '' }),
+};
+
+describe('generateTotp', () => {
+  // RFC 6238 appendix B, SHA-1 secret "12345678901234567890".
+  const secret = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+  it('matches the RFC 6238 test vectors', () => {
+    assert.equal(generateTotp(secret, 59_000), '287082');
+    assert.equal(generateTotp(secret, 1_111_111_109_000), '081804');
+    assert.equal(generateTotp(secret, 20_000_000_000_000), '353130');
+  });
+
+  it('honours the parameters of an otpauth URI', () => {
+    const uri = `otpauth://totp/OpenAI:me@example.com?secret=${secret}&digits=8&period=30&algorithm=SHA1`;
+    assert.equal(generateTotp(uri, 59_000), '94287082');
+  });
+
+  it('accepts lowercase, spaced and padded secrets', () => {
+    assert.equal(generateTotp('gezd gnbv gy3t qojq gezd gnbv gy3t qojq====', 59_000), '287082');
+  });
+
+  it('rejects invalid secrets', () => {
+    assert.throws(() => generateTotp('not base32!'), /Invalid base32 character/);
+    assert.throws(() => generateTotp(''), /TOTP secret is empty/);
+  });
+});
+
+describe('parseOtpSpec', () => {
+  it('parses IMAP URLs', () => {
+    assert.deepEqual(parseOtpSpec('imaps://me%40example.com@imap.example.com:1993/Codes'), {
+      type: 'imap',
+      host: 'imap.example.com',
+      port: 1993,
+      secure: true,
+      user: 'me@example.com',
+      mailbox: 'Codes',
+    });
+  });
+
+  it('parses the other source types', () => {
+    assert.deepEqual(parseOtpSpec('TOTP'), { type: 'totp' });
+    assert.deepEqual(parseOtpSpec('command: my-otp-tool chatgpt'), { type: 'command', command: 'my-otp-tool chatgpt' });
+    assert.throws(() => parseOtpSpec('maildir:'), /Expected --otp maildir:<path>/);
+    assert.throws(() => parseOtpSpec('sms'), /Unknown OTP source "sms"/);
+  });
+});
+
+describe('maildir OTP source', () => {
+  let dir: string;
+
+  const deliver = (name: string, body: string, at: Date, from = 'OpenAI <noreply@tm.openai.com>') => {
+    const file = path.join(dir, 'new', name);
+    fs.writeFileSync(file, `From: ${from}\r\nSubject: Your code\r\n\r\n${body}`);
+    fs.utimesSync(file, at, at);
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-otp-'));
+    fs.mkdirSync(path.join(dir, 'new'));
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('only uses codes received after the request, once each', async () => {
+    const requestedAt = new Date(Date.now() - 60_000);
+    deliver('stale', 'Your code is 111111', new Date(requestedAt.getTime() - 30_000));
+    deliver('spam', 'Your code is 999999', new Date(requestedAt.getTime() + 5_000), 'Someone <x@example.com>');
+    deliver('fresh', 'Your code is 222222', new Date(requestedAt.getTime() + 1_000));
+
+    const source = createOtpSource({ type: 'maildir', path: dir, timeoutMs: 0 }, noCredentials);
+    assert.equal(await source.getCode({ requestedAt }), '222222');
+    await assert.rejects(source.getCode({ requestedAt }), /No verification email arrived/);
+
+    // Another source for the same maildir shares what was consumed.
+    const again = createOtpSource({ type: 'maildir', path: dir, timeoutMs: 0 }, noCredentials);
+    deliver('next', 'Your code is 333333', new Date(requestedAt.getTime() + 2_000));
+    assert.equal(await again.getCode({ requestedAt }), '333333');
+  });
+});
+
+describe('writeOtpConfig', () => {
+  it('replaces an existing file and makes it owner-only', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-otp-config-'));
+    try {
+      const filePath = path.join(dir, 'otp.json');
+      fs.writeFileSync(filePath, '{}');
+      fs.chmodSync(filePath, 0o644);
+
+      writeOtpConfig(dir, { type: 'totp' });
+
+      assert.deepEqual(readOtpConfig(dir), { type: 'totp' });
+      assert.equal(fs.statSync(filePath).mode & 0o777, 0o600);
+      assert.deepEqual(fs.readdirSync(dir), ['otp.json']);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
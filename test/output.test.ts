@@ -0,0 +1,162 @@
+import { describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import type { QueryResult } from '../src/chatgpt.js';
+import { ChatGPTError } from '../src/errors.js';
+import {
+  createResultPrinter,
+  describeModel,
+  formatError,
+  formatResult,
+  parseOutputFormat,
+  printQueryError,
+} from '../src/output.js';
+
+function result(response: string): QueryResult {
+  return {
+    response,
+    attempts: 1,
+    model: {
+      requested: 'gpt-5-pro',
+      resolved: 'gpt-5-pro',
+      displayName: 'GPT-5 Pro',
+      confirmed: true,
+      confirmedBy: ['picker', 'turn'],
+      label: 'ChatGPT 5 Pro',
+      answeredBy: 'gpt-5-pro',
+    },
+    conversation: null,
+    prompt: { chars: 5, tokens: 1 },
+    attachments: [],
+    timings: {},
+    extraction: 'clipboard',
+    cached: false,
+    startedAt: '2026-01-01T00:00:00.000Z',
+    completedAt: '2026-01-01T00:00:01.000Z',
+  };
+}
+
+/** Runs `fn` and returns what it wrote to stdout. */
+function captureStdout(fn: () => void): string {
+  let written = '';
+  const write = mock.method(process.stdout, 'write', (chunk: string | Uint8Array) => {
+    written += String(chunk);
+    return true;
+  });
+  try {
+    fn();
+  } finally {
+    write.mock.restore();
+  }
+  return written;
+}
+
+/** Runs `fn` with the given streams treated as terminals and returns what each received. */
+function captureTerminal(tty: Array<'stdout' | 'stderr'>, fn: () => void): { stdout: string; stderr: string } {
+  const written = { stdout: '', stderr: '' };
+  const restore: Array<() => void> = [];
+  for (const name of ['stdout', 'stderr'] as const) {
+    const stream = process[name];
+    const isTTY = stream.isTTY;
+    stream.isTTY = tty.includes(name);
+    const write = mock.method(stream, 'write', (chunk: string | Uint8Array) => {
+      written[name] += String(chunk);
+      return true;
+    });
+    restore.push(() => {
+      write.mock.restore();
+      stream.isTTY = isTTY;
+    });
+  }
+  try {
+    fn();
+  } finally {
+    restore.forEach((undo) => undo());
+  }
+  return written;
+}
+
+function rewrittenStream(printer: ReturnType<typeof createResultPrinter>) {
+  printer.onProgress!({ type: 'delta', delta: 'Thinking', text: 'Thinking' });
+  // Dropped: it does not extend what was printed.
+  printer.onProgress!({ type: 'delta', delta: 'pythonCopy code', text: 'pythonCopy code\nprint(1)' });
+  printer.print(result('```python\nprint(1)\n```'));
+}
+
+describe('output', () => {
+  it('parses output formats case-insensitively', () => {
+    assert.equal(parseOutputFormat(undefined), 'text');
+    assert.equal(parseOutputFormat(' JSONL '), 'jsonl');
+    assert.throws(() => parseOutputFormat('yaml'), /Unknown output format "yaml"/);
+  });
+
+  it('tags jsonl results and merges extra fields', () => {
+    const line = JSON.parse(formatResult(result('hi'), 'jsonl', { extracted: [] }));
+    assert.equal(line.type, 'result');
+    assert.equal(line.response, 'hi');
+    assert.deepEqual(line.extracted, []);
+  });
+
+  it('reports the error type of ChatGPT errors', () => {
+    assert.deepEqual(JSON.parse(formatError(new ChatGPTError('capped', 'usage-cap'), 'json')), {
+      error: { type: 'usage-cap', message: 'capped' },
+    });
+    assert.equal(JSON.parse(formatError(new Error('boom'), 'jsonl')).error.type, 'unknown');
+  });
+
+  it('keeps the answer of a model mismatch', () => {
+    const error = new ChatGPTError('wrong model', 'model-mismatch', { response: 'Hi!', answeredBy: 'gpt-5-instant' });
+    assert.deepEqual(JSON.parse(formatError(error, 'json')).error, {
+      type: 'model-mismatch',
+      message: 'wrong model',
+      response: 'Hi!',
+      answeredBy: 'gpt-5-instant',
+    });
+
+    const stderr = mock.method(console, 'error', () => {});
+    try {
+      assert.equal(captureStdout(() => printQueryError(error, 'text')), 'Hi!\n');
+      assert.equal(captureStdout(() => printQueryError(new Error('boom'), 'text')), '');
+      assert.deepEqual(stderr.mock.calls.at(-1)?.arguments, ['❌ Error:', 'boom']);
+    } finally {
+      stderr.mock.restore();
+    }
+  });
+
+  it('describes the confirmed model', () => {
+    assert.equal(describeModel(result('')), 'GPT-5 Pro (answered by gpt-5-pro; confirmed by picker, turn)');
+  });
+
+  describe('streamed text', () => {
+    it('prints deltas on a terminal and then the rest of the final answer', () => {
+      const printer = createResultPrinter('text', { stream: true });
+      const out = captureTerminal(['stdout'], () => {
+        printer.onProgress!({ type: 'delta', delta: 'Hello', text: 'Hello' });
+        printer.onProgress!({ type: 'delta', delta: ' wor', text: 'Hello wor' });
+        printer.print(result('Hello world'));
+      });
+      assert.deepEqual(out, { stdout: 'Hello world\n', stderr: '' });
+    });
+
+    it('prints the whole final answer when nothing was streamed', () => {
+      const printer = createResultPrinter('text', { stream: true });
+      const out = captureTerminal(['stdout'], () => printer.print(result('Cached answer')));
+      assert.equal(out.stdout, 'Cached answer\n');
+    });
+
+    it('replaces the preview on a terminal with the final markdown', () => {
+      const out = captureTerminal(['stdout'], () => rewrittenStream(createResultPrinter('text', { stream: true })));
+      assert.ok(out.stdout.startsWith('Thinking'));
+      // Back to the start of the line, clear to the end of the screen, then the answer once.
+      assert.ok(out.stdout.endsWith('\x1b[1G\x1b[0J```python\nprint(1)\n```\n'), JSON.stringify(out.stdout));
+    });
+
+    it('writes only the final markdown to redirected stdout', () => {
+      const out = captureTerminal(['stderr'], () => rewrittenStream(createResultPrinter('text', { stream: true })));
+      assert.equal(out.stdout, '```python\nprint(1)\n```\n');
+      assert.ok(out.stderr.startsWith('Thinking'), 'the preview goes to the terminal on stderr');
+
+      const piped = captureTerminal([], () => rewrittenStream(createResultPrinter('text', { stream: true })));
+      assert.deepEqual(piped, { stdout: '```python\nprint(1)\n```\n', stderr: '' });
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { getProfileDir, getRootDir, isValidProfileName } from '../src/paths.js';
+
+describe('getProfileDir', () => {
+  it('places profiles directly under the root directory', () => {
+    assert.equal(getProfileDir('work'), path.join(getRootDir(), 'work'));
+    assert.equal(getProfileDir('ci-2.x_b'), path.join(getRootDir(), 'ci-2.x_b'));
+  });
+
+  it('rejects names that could escape it', () => {
+    for (const name of ['', '.', '..', '../x', 'a/b', 'a\\b', '.hidden', '-flag', '~']) {
+      assert.equal(isValidProfileName(name), false, name);
+      assert.throws(() => getProfileDir(name), /Invalid profile name/, name);
+    }
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ChatGPT } from '../src/chatgpt.js';
+import { PagePool } from '../src/pool.js';
+
+/** Stands in for a ChatGPT tab; only what the pool calls is implemented. */
+class StubTab {
+  readonly tabs: StubTab[] = [];
+  closed = false;
+  failNextOpen = false;
+
+  constructor(readonly name: string) {}
+
+  async openTab(): Promise<StubTab> {
+    if (this.failNextOpen) {
+      this.failNextOpen = false;
+      throw new Error('Could not open a tab');
+    }
+    const tab = new StubTab(`tab-${this.tabs.length + 1}`);
+    this.tabs.push(tab);
+    return tab;
+  }
+
+  async close() {
+    this.closed = true;
+  }
+}
+
+function createPool(concurrency: number) {
+  const root = new StubTab('root');
+  const pool = new PagePool(root as unknown as ChatGPT, { concurrency });
+  return { root, pool };
+}
+
+/** A task that holds its tab until `finish` is called. */
+function heldTask(log: string[], label: string) {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  const task = async (tab: ChatGPT) => {
+    log.push(`${label}@${(tab as unknown as StubTab).name}`);
+    await done;
+    return label;
+  };
+  return { task, finish };
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('PagePool', () => {
+  it('rejects a concurrency that is not a positive integer', () => {
+    for (const concurrency of [0, -1, 1.5, NaN]) {
+      assert.throws(() => createPool(concurrency), /Concurrency must be a positive integer/);
+    }
+  });
+
+  it('opens tabs up to the cap and queues the rest', async () => {
+    const { root, pool } = createPool(2);
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map((label) => heldTask(log, label));
+    const runs = tasks.map(({ task }) => pool.run(task));
+    await settle();
+
+    assert.deepEqual(log, ['a@root', 'b@tab-1']);
+    assert.equal(root.tabs.length, 1);
+    assert.deepEqual(pool.stats, { size: 2, active: 2, waiting: 2, concurrency: 2 });
+
+    tasks.forEach(({ finish }) => finish());
+    assert.deepEqual(await Promise.all(runs), ['a', 'b', 'c', 'd']);
+    assert.equal(root.tabs.length, 1);
+    assert.deepEqual(pool.stats, { size: 2, active: 0, waiting: 0, concurrency: 2 });
+  });
+
+  it('hands a freed tab to the oldest waiter', async () => {
+    const { pool } = createPool(1);
+    const log: string[] = [];
+    const [first, second, third] = ['first', 'second', 'third'].map((label) => heldTask(log, label));
+    const runs = [pool.run(first.task), pool.run(second.task), pool.run(third.task)];
+    await settle();
+    assert.deepEqual(log, ['first@root']);
+
+    first.finish();
+    await settle();
+    assert.deepEqual(log, ['first@root', 'second@root']);
+
+    second.finish();
+    third.finish();
+    await Promise.all(runs);
+    assert.deepEqual(log, ['first@root', 'second@root', 'third@root']);
+  });
+
+  it('releases the tab when a task fails', async () => {
+    const { pool } = createPool(1);
+    const log: string[] = [];
+    const waiter = heldTask(log, 'after');
+
+    const failing = pool.run(async () => {
+      await settle();
+      throw new Error('query failed');
+    });
+    const next = pool.run(waiter.task);
+
+    await assert.rejects(failing, /query failed/);
+    await settle();
+    assert.deepEqual(log, ['after@root']);
+
+    waiter.finish();
+    assert.equal(await next, 'after');
+    assert.deepEqual(pool.stats, { size: 1, active: 0, waiting: 0, concurrency: 1 });
+  });
+
+  it('does not count a tab that failed to open', async () => {
+    const { root, pool } = createPool(2);
+    const held = heldTask([], 'held');
+    const running = pool.run(held.task);
+
+    root.failNextOpen = true;
+    await assert.rejects(pool.run(async () => 'never'), /Could not open a tab/);
+    assert.equal(pool.stats.size, 1);
+
+    assert.equal(await pool.run(async (tab) => (tab as unknown as StubTab).name), 'tab-1');
+    held.finish();
+    await running;
+  });
+
+  it('closes the tabs it opened but not the root', async () => {
+    const { root, pool } = createPool(2);
+    const held = heldTask([], 'held');
+    const running = pool.run(held.task);
+    await pool.run(async () => undefined);
+    held.finish();
+    await running;
+
+    await pool.close();
+
+    assert.equal(root.closed, false);
+    assert.deepEqual(root.tabs.map((tab) => tab.closed), [true]);
+  });
+});
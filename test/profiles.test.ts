@@ -0,0 +1,185 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getProfileDir, getRootDir } from '../src/paths.js';
+import {
+  formatRelative,
+  getSessionCookies,
+  listProfiles,
+  profileExists,
+  readAccountInfo,
+  removeProfile,
+  renameProfile,
+  summarizeSession,
+  writeAccountInfo,
+} from '../src/profiles.js';
+import {
+  ENCRYPTED_STATE_FILE,
+  encryptJson,
+  saveBrowserState,
+  writeEncryptionConfig,
+  type StorageState,
+} from '../src/state.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+function cookie(name: string, expiresAt: number | null): StorageState['cookies'][number] {
+  return {
+    name,
+    value: 'x',
+    domain: '.chatgpt.com',
+    path: '/',
+    expires: expiresAt === null ? -1 : expiresAt / 1000,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'Lax',
+  };
+}
+
+function stateWith(...cookies: StorageState['cookies']): StorageState {
+  return { cookies, origins: [] };
+}
+
+describe('profiles', () => {
+  let originalHome: string | undefined;
+  let home: string;
+
+  before(() => {
+    originalHome = process.env.HOME;
+    home = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-profiles-'));
+    process.env.HOME = home;
+  });
+
+  after(() => {
+    process.env.HOME = originalHome;
+    fs.rmSync(home, { recursive: true, force: true });
+  });
+
+  describe('listProfiles', () => {
+    it('is empty before anything was saved', () => {
+      assert.deepEqual(listProfiles(), []);
+    });
+
+    it('lists profile directories by name and skips everything else', () => {
+      for (const name of ['work', 'default', '.import-abc']) {
+        fs.mkdirSync(path.join(getRootDir(), name), { recursive: true });
+      }
+      fs.writeFileSync(path.join(getRootDir(), 'notes.txt'), '');
+
+      assert.deepEqual(listProfiles(), ['default', 'work']);
+      assert.equal(profileExists('work'), true);
+      assert.equal(profileExists('personal'), false);
+    });
+  });
+
+  describe('renameProfile and removeProfile', () => {
+    it('moves a profile with its files', () => {
+      writeAccountInfo(getProfileDir('old'), 'me@example.com');
+
+      renameProfile('old', 'new');
+
+      assert.equal(profileExists('old'), false);
+      assert.equal(readAccountInfo(getProfileDir('new'))?.email, 'me@example.com');
+    });
+
+    it('refuses to rename onto an existing profile or from a missing one', () => {
+      fs.mkdirSync(getProfileDir('taken'), { recursive: true });
+      assert.throws(() => renameProfile('new', 'taken'), /Profile "taken" already exists/);
+      assert.throws(() => renameProfile('ghost', 'other'), /Profile "ghost" does not exist/);
+      assert.equal(profileExists('new'), true);
+    });
+
+    it('removes a profile and reports a missing one', () => {
+      removeProfile('taken');
+      assert.equal(profileExists('taken'), false);
+      assert.throws(() => removeProfile('taken'), /Profile "taken" does not exist/);
+    });
+
+    it('rejects invalid names before touching the disk', () => {
+      assert.throws(() => removeProfile('..'), /Invalid profile name/);
+      assert.throws(() => renameProfile('new', '../escaped'), /Invalid profile name/);
+      assert.equal(profileExists('new'), true);
+    });
+  });
+
+  describe('account info', () => {
+    it('is written owner-only and read back', () => {
+      const dir = getProfileDir('account');
+      assert.equal(readAccountInfo(dir), null);
+
+      writeAccountInfo(dir, 'me@example.com');
+
+      assert.equal(readAccountInfo(dir)?.email, 'me@example.com');
+      assert.equal(fs.statSync(path.join(dir, 'account.json')).mode & 0o777, 0o600);
+    });
+  });
+
+  describe('getSessionCookies', () => {
+    it('keeps only the session cookies and converts their expiry', () => {
+      const expires = NOW + DAY;
+      const cookies = getSessionCookies(
+        stateWith(cookie('__Secure-next-auth.session-token', expires), cookie('oai-did', expires), cookie('openai-session', null))
+      );
+
+      assert.deepEqual(cookies, [
+        { name: '__Secure-next-auth.session-token', domain: '.chatgpt.com', expiresAt: new Date(expires) },
+        { name: 'openai-session', domain: '.chatgpt.com', expiresAt: null },
+      ]);
+    });
+  });
+
+  describe('summarizeSession', () => {
+    async function summarize(state: StorageState | null) {
+      const dir = fs.mkdtempSync(path.join(home, 'session-'));
+      if (state) await saveBrowserState(dir, state);
+      return summarizeSession(dir, { now: NOW, warnWithinMs: 3 * DAY });
+    }
+
+    it('is missing without a state file or session cookie', async () => {
+      assert.equal((await summarize(null)).state, 'missing');
+      assert.equal((await summarize(stateWith(cookie('oai-did', NOW + DAY)))).state, 'missing');
+    });
+
+    it('judges the latest session cookie expiry', async () => {
+      const valid = await summarize(
+        stateWith(cookie('next-auth.session-token', NOW - DAY), cookie('openai-session', NOW + 10 * DAY))
+      );
+      assert.equal(valid.state, 'valid');
+      assert.deepEqual(valid.expiresAt, new Date(NOW + 10 * DAY));
+      assert.ok(valid.savedAt);
+
+      assert.equal((await summarize(stateWith(cookie('openai-session', NOW + DAY)))).state, 'expiring');
+      assert.equal((await summarize(stateWith(cookie('openai-session', NOW - 1)))).state, 'expired');
+    });
+
+    it('treats a browser-session cookie as valid without an expiry', async () => {
+      const summary = await summarize(stateWith(cookie('openai-session', null)));
+      assert.equal(summary.state, 'valid');
+      assert.equal(summary.expiresAt, null);
+    });
+
+    it('reports an encrypted session it cannot open as locked', async () => {
+      const dir = fs.mkdtempSync(path.join(home, 'locked-'));
+      writeEncryptionConfig(dir, { source: 'passphrase' });
+      const payload = encryptJson(stateWith(cookie('openai-session', NOW + DAY)), 'secret');
+      fs.writeFileSync(path.join(dir, ENCRYPTED_STATE_FILE), JSON.stringify(payload));
+
+      const summary = await summarizeSession(dir, { now: NOW });
+
+      assert.equal(summary.state, 'locked');
+      assert.equal(summary.encrypted, true);
+      assert.match(summary.error ?? '', /no terminal/);
+    });
+  });
+
+  describe('formatRelative', () => {
+    it('shows at most two units in either direction', () => {
+      assert.equal(formatRelative(new Date(NOW + 3 * DAY + 4 * 3_600_000 + 5 * 60_000), NOW), 'in 3d 4h');
+      assert.equal(formatRelative(new Date(NOW - 2 * 3_600_000), NOW), '2h ago');
+      assert.equal(formatRelative(new Date(NOW + 30_000), NOW), 'in <1m');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { assemblePrompt, formatContextFile, formatTokenBudget, resolvePromptText } from '../src/prompt.js';
+
+describe('prompt', () => {
+  let dir: string;
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-prompt-'));
+    fs.mkdirSync(path.join(dir, 'src'));
+    fs.writeFileSync(path.join(dir, 'src', 'a.ts'), 'export const a = 1;\n');
+    fs.writeFileSync(path.join(dir, 'src', 'b.md'), 'Some ```code``` inside');
+    fs.writeFileSync(path.join(dir, 'question.md'), 'Why?\n');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('resolvePromptText', () => {
+    it('does not read stdin when another source or context is given', { timeout: 2000 }, async () => {
+      assert.equal(await resolvePromptText({ prompt: 'hello' }), 'hello');
+      assert.equal(await resolvePromptText({ contextGlobs: ['src/*.ts'], cwd: dir }), null);
+      assert.equal(await resolvePromptText({ allowStdin: false }), null);
+    });
+
+    it('reads --prompt-file relative to cwd', async () => {
+      assert.equal(await resolvePromptText({ promptFile: 'question.md', cwd: dir }), 'Why?\n');
+    });
+
+    it('treats "-" as text when stdin is not allowed', async () => {
+      assert.equal(await resolvePromptText({ prompt: '-', allowStdin: false }), '-');
+    });
+
+    it('rejects more than one source', async () => {
+      await assert.rejects(resolvePromptText({ prompt: 'hi', promptFile: 'question.md', cwd: dir }), /not both/);
+      await assert.rejects(resolvePromptText({ prompt: '-', promptFile: 'question.md', cwd: dir }), /not both/);
+    });
+
+    it('names the file it could not read', async () => {
+      await assert.rejects(resolvePromptText({ promptFile: 'missing.md', cwd: dir }), /missing\.md/);
+    });
+  });
+
+  describe('assemblePrompt', () => {
+    it('puts context files first and the question last', async () => {
+      const assembled = await assemblePrompt({ prompt: '  Explain  ', contextGlobs: ['src/*.ts', 'src/**'], cwd: dir });
+      assert.ok(assembled);
+      assert.deepEqual(
+        assembled.sections.map((section) => section.label),
+        [path.join('src', 'a.ts'), path.join('src', 'b.md'), '(prompt)']
+      );
+      assert.ok(assembled.text.endsWith('\n\nExplain'));
+      assert.equal(assembled.chars, assembled.text.length);
+    });
+
+    it('returns null without a question or context', async () => {
+      assert.equal(await assemblePrompt({ prompt: '   ', cwd: dir }), null);
+    });
+
+    it('fails on a pattern that matches nothing', async () => {
+      await assert.rejects(assemblePrompt({ prompt: 'x', contextGlobs: ['nope/*.ts'], cwd: dir }), /matched no files/);
+    });
+  });
+
+  describe('formatContextFile', () => {
+    it('fences the file with its language', () => {
+      assert.equal(formatContextFile('src/a.ts', 'const a = 1;'), '### src/a.ts\n```ts\nconst a = 1;\n```');
+    });
+
+    it('uses a longer fence than any inside the file', () => {
+      assert.equal(formatContextFile('x.md', 'a\n````\nb\n'), '### x.md\n`````markdown\na\n````\nb\n`````');
+    });
+  });
+
+  it('lists the largest sections first in the token budget', async () => {
+    const assembled = await assemblePrompt({ prompt: 'short', contextGlobs: ['src/a.ts'], cwd: dir });
+    const lines = formatTokenBudget(assembled!, { maxPromptChars: 1000, maxPromptTokens: 100 }).split('\n');
+    assert.equal(lines[0], 'Prompt budget:');
+    assert.match(lines[1], /src\/a\.ts$/);
+    assert.match(lines.at(-1)!, /total: \d+ \/ ~100 tokens/);
+  });
+});
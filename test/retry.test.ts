@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ChatGPTError, classifyError } from '../src/errors.js';
+import { computeBackoff } from '../src/retry.js';
+
+describe('computeBackoff', () => {
+  it('waits between half and all of base * 2^n', () => {
+    assert.equal(computeBackoff(0, { random: () => 0 }), 1000);
+    assert.equal(computeBackoff(0, { random: () => 1 }), 2000);
+    assert.equal(computeBackoff(2, { random: () => 0.5 }), 6000);
+  });
+
+  it('is capped at maxDelayMs', () => {
+    assert.equal(computeBackoff(10, { random: () => 1 }), 60_000);
+    assert.equal(computeBackoff(3, { baseDelayMs: 100, maxDelayMs: 500, random: () => 0 }), 250);
+  });
+});
+
+describe('classifyError', () => {
+  it('passes ChatGPT errors through', () => {
+    const error = new ChatGPTError('capped', 'usage-cap');
+    assert.equal(classifyError(error), error);
+    assert.equal(error.retryable, false);
+  });
+
+  it('recognises Playwright failures by message', () => {
+    assert.equal(classifyError(new Error('page.goto: net::ERR_CONNECTION_RESET')).type, 'navigation');
+    assert.equal(classifyError(new Error('Timeout 5000ms exceeded')).type, 'timeout');
+    assert.equal(classifyError(new Error('Target page, context or browser has been closed')).type, 'unknown');
+    assert.equal(classifyError(new Error('Session expired, log in again')).type, 'session-expired');
+  });
+
+  it('retries only transient types by default', () => {
+    assert.equal(classifyError(new Error('net::ERR_FAILED')).retryable, true);
+    assert.equal(classifyError('something odd').retryable, false);
+    assert.equal(new ChatGPTError('too long', 'composer', { retryable: false }).retryable, false);
+  });
+
+  it('keeps the original error as the cause', () => {
+    const original = new Error('Timeout 1ms exceeded');
+    assert.equal(classifyError(original).cause, original);
+  });
+});
@@ -0,0 +1,170 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type * as http from 'http';
+import type { AddressInfo } from 'net';
+import type { QueryResult } from '../src/chatgpt.js';
+import { ChatGPTError } from '../src/errors.js';
+import { createOpenAIServer, flattenMessages, type CompletionBackend } from '../src/server.js';
+
+interface Scripted {
+  response?: string;
+  error?: Error;
+}
+
+/** A backend that answers with scripted final markdown. */
+class ScriptedBackend implements CompletionBackend {
+  next: Scripted = {};
+  prompts: Array<{ prompt: string; model: string }> = [];
+
+  listModels() {
+    return [{ id: 'gpt-5-pro', name: 'GPT-5 Pro' }];
+  }
+
+  resolveModel(model: string) {
+    return ['gpt-5-pro', 'pro'].includes(model) ? 'gpt-5-pro' : null;
+  }
+
+  async complete(prompt: string, model: string) {
+    this.prompts.push({ prompt, model });
+    const { response = 'ok', error } = this.next;
+    if (error) throw error;
+    return {
+      response,
+      attempts: 1,
+      model: {
+        requested: model,
+        resolved: model,
+        displayName: null,
+        confirmed: true,
+        confirmedBy: ['picker'],
+        label: null,
+        answeredBy: null,
+      },
+      conversation: null,
+      prompt: { chars: prompt.length, tokens: 3 },
+      attachments: [],
+      timings: {},
+      extraction: 'clipboard',
+      cached: false,
+      startedAt: '',
+      completedAt: '',
+    } satisfies QueryResult;
+  }
+}
+
+describe('flattenMessages', () => {
+  it('sends a lone user message verbatim', () => {
+    assert.equal(flattenMessages([{ role: 'user', content: 'Hi' }]), 'Hi');
+  });
+
+  it('renders longer lists as a transcript', () => {
+    const prompt = flattenMessages([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'One' }, { type: 'text', text: 'Two' }], name: 'ann' },
+      { role: 'assistant', content: null },
+    ]);
+    assert.equal(
+      prompt,
+      'The following is a conversation transcript. Reply as the assistant to the final message.\n\n' +
+        '[system]\nBe brief.\n\n[user: ann]\nOne\nTwo'
+    );
+  });
+
+  it('rejects non-text parts', () => {
+    assert.throws(
+      () => flattenMessages([{ role: 'user', content: [{ type: 'image_url' }] }]),
+      /content\[0\] has unsupported type "image_url"/
+    );
+  });
+});
+
+describe('OpenAI-compatible server', () => {
+  const backend = new ScriptedBackend();
+  let server: http.Server;
+  let base: string;
+
+  before(async () => {
+    server = createOpenAIServer(backend, { defaultModel: 'gpt-5-pro' });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  const complete = (body: unknown) =>
+    fetch(`${base}/v1/chat/completions`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+
+  /** The content of every chunk of a streamed completion, and the finish reason. */
+  async function stream(next: Scripted): Promise<{ content: string; finish: string | null; events: string[] }> {
+    backend.next = next;
+    const response = await complete({ messages: [{ role: 'user', content: 'Hi' }], stream: true });
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+    const events = (await response.text())
+      .split('\n\n')
+      .filter((event) => event.startsWith('data: '))
+      .map((event) => event.slice('data: '.length));
+    assert.equal(events.at(-1), '[DONE]');
+    const chunks = events.slice(0, -1).map((event) => JSON.parse(event));
+    return {
+      content: chunks.map((chunk) => chunk.choices[0].delta.content ?? '').join(''),
+      finish: chunks.at(-1).choices[0].finish_reason,
+      events,
+    };
+  }
+
+  it('lists the served models', async () => {
+    const body = await (await fetch(`${base}/v1/models`)).json();
+    assert.deepEqual(
+      body.data.map((model: { id: string }) => model.id),
+      ['gpt-5-pro']
+    );
+  });
+
+  it('answers a completion with the final markdown', async () => {
+    backend.next = { response: '**Hi**' };
+    const response = await complete({ model: 'pro', messages: [{ role: 'user', content: 'Hello' }] });
+    const body = await response.json();
+    assert.equal(response.status, 200);
+    assert.equal(body.model, 'gpt-5-pro');
+    assert.equal(body.choices[0].message.content, '**Hi**');
+    assert.deepEqual(backend.prompts.at(-1), { prompt: 'Hello', model: 'gpt-5-pro' });
+  });
+
+  it('streams the final markdown as the only content', async () => {
+    const result = await stream({ response: '```python\nprint(1)\n```' });
+    assert.equal(result.content, '```python\nprint(1)\n```');
+    assert.equal(result.finish, 'stop');
+  });
+
+  it('sends failures during a stream as an error event', async () => {
+    backend.next = { error: new ChatGPTError('capped', 'usage-cap') };
+    const response = await complete({ messages: [{ role: 'user', content: 'Hi' }], stream: true });
+    const text = await response.text();
+    assert.match(text, /"code":"usage_cap_reached"/);
+    assert.doesNotMatch(text, /\[DONE\]/);
+  });
+
+  it('maps errors onto OpenAI status codes', async () => {
+    backend.next = { error: new ChatGPTError('capped', 'usage-cap') };
+    assert.equal((await complete({ messages: [{ role: 'user', content: 'Hi' }] })).status, 429);
+
+    backend.next = { error: new ChatGPTError('too long', 'composer', { retryable: false }) };
+    const tooLong = await complete({ messages: [{ role: 'user', content: 'Hi' }] });
+    assert.equal(tooLong.status, 400);
+    assert.equal((await tooLong.json()).error.code, 'context_length_exceeded');
+  });
+
+  it('rejects bad requests', async () => {
+    assert.equal((await complete('{nope')).status, 400);
+    assert.equal((await complete({ messages: [] })).status, 400);
+    assert.equal((await complete({ model: 'gpt-9', messages: [{ role: 'user', content: 'Hi' }] })).status, 404);
+    assert.equal((await fetch(`${base}/v1/chat/completions`)).status, 405);
+    assert.equal((await fetch(`${base}/v1/nothing`)).status, 404);
+  });
+});
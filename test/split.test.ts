@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { countTokens } from '../src/tokenizer.js';
+import { formatContextFile, type AssembledPrompt, type PromptSection } from '../src/prompt.js';
+import { formatAckReminder, isPartAcknowledged, planSplit } from '../src/split.js';
+
+const LIMITS = { maxPromptChars: 1_400, maxPromptTokens: 100_000 };
+
+function section(label: string, kind: PromptSection['kind'], text: string): PromptSection {
+  return { label, kind, text, chars: text.length, tokens: countTokens(text) };
+}
+
+function assemble(...sections: PromptSection[]): AssembledPrompt {
+  const text = sections.map((entry) => entry.text).join('\n\n');
+  return { text, sections, chars: text.length, tokens: countTokens(text) };
+}
+
+function numberedLines(count: number): string {
+  return Array.from({ length: count }, (_, index) => `const line${index} = ${index};`).join('\n');
+}
+
+describe('planSplit', () => {
+  it('holds back a small question until every part is sent', () => {
+    const assembled = assemble(
+      section('src/a.ts', 'context', formatContextFile('src/a.ts', numberedLines(40))),
+      section('src/b.ts', 'context', formatContextFile('src/b.ts', numberedLines(40))),
+      section('prompt', 'prompt', 'What do these files do?')
+    );
+    const plan = planSplit(assembled, LIMITS);
+
+    assert.equal(plan.prompt, assembled.text);
+    assert.ok(plan.parts.length >= 2);
+    assert.ok(plan.parts.every((part) => !part.includes('What do these files do?')));
+    assert.match(plan.final, new RegExp(`^All ${plan.parts.length} parts have been sent\\.`));
+    assert.ok(plan.final.endsWith('What do these files do?'));
+  });
+
+  it('keeps every part within the composer limit', () => {
+    const assembled = assemble(
+      section('src/big.ts', 'context', formatContextFile('src/big.ts', numberedLines(200))),
+      section('prompt', 'prompt', 'Review this.')
+    );
+    const plan = planSplit(assembled, LIMITS);
+
+    for (const [index, part] of plan.parts.entries()) {
+      assert.ok(part.length <= LIMITS.maxPromptChars, `part ${index + 1} is ${part.length} chars`);
+      assert.ok(part.startsWith(`[Part ${index + 1} of ${plan.parts.length}]`));
+      assert.ok(part.includes(`reply only with "Received part ${index + 1} of ${plan.parts.length}."`));
+    }
+  });
+
+  it('re-fences the pieces of a large file and keeps every line', () => {
+    const body = numberedLines(200);
+    const assembled = assemble(
+      section('src/big.ts', 'context', formatContextFile('src/big.ts', body)),
+      section('prompt', 'prompt', 'Review this.')
+    );
+    const plan = planSplit(assembled, LIMITS);
+
+    const pieces = plan.parts.map((part) => {
+      const match = part.match(/### src\/big\.ts \(piece \d+ of \d+\)\n```ts\n([\s\S]*?)\n```/);
+      assert.ok(match, 'each part carries a fenced piece');
+      return match[1];
+    });
+    assert.equal(pieces.join('\n'), body);
+  });
+
+  it('sends the question with the parts when it does not fit on its own', () => {
+    const question = `Explain:\n\n${numberedLines(120)}`;
+    const assembled = assemble(section('prompt', 'prompt', question));
+    const plan = planSplit(assembled, LIMITS);
+
+    assert.ok(plan.parts.length >= 2);
+    assert.match(plan.final, /Treat parts 1-\d+ as a single message/);
+  });
+
+  it('cuts a single overlong line into slices', () => {
+    const line = 'x'.repeat(3_000);
+    const plan = planSplit(assemble(section('prompt', 'prompt', line)), LIMITS);
+
+    const slices = plan.parts.map((part) => part.slice(part.indexOf('\n\n') + 2));
+    assert.equal(slices.join(''), line);
+  });
+
+  it('rejects limits that leave no room for content', () => {
+    assert.throws(
+      () => planSplit(assemble(section('prompt', 'prompt', 'hi')), { maxPromptChars: 300, maxPromptTokens: 1_000 }),
+      /too small to split/
+    );
+  });
+});
+
+describe('isPartAcknowledged', () => {
+  it('accepts a reply that names the same part', () => {
+    assert.equal(isPartAcknowledged('Received part 2 of 5.', 2, 5), true);
+    assert.equal(isPartAcknowledged('received PART 2/5', 2, 5), true);
+  });
+
+  it('rejects replies for another part or without a part number', () => {
+    assert.equal(isPartAcknowledged('Received part 1 of 5.', 2, 5), false);
+    assert.equal(isPartAcknowledged('Received part 2 of 4.', 2, 5), false);
+    assert.equal(isPartAcknowledged('OK', 2, 5), false);
+    assert.equal(isPartAcknowledged('Here is my review of the code...', 2, 5), false);
+  });
+
+  it('asks for the exact acknowledgement in the reminder', () => {
+    assert.ok(formatAckReminder(3, 4).endsWith('reply only with "Received part 3 of 4."'));
+  });
+});
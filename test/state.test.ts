@@ -0,0 +1,128 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  decryptJson,
+  encryptJson,
+  getBrowserStatePath,
+  loadBrowserState,
+  migrateBrowserState,
+  readEncryptionConfig,
+  saveBrowserState,
+  type StorageState,
+} from '../src/state.js';
+
+const state: StorageState = {
+  cookies: [
+    {
+      name: 'next-auth.session-token',
+      value: 'secret-token',
+      domain: 'chatgpt.com',
+      path: '/',
+      expires: -1,
+      httpOnly: true,
+      secure: true,
+      sameSite: 'Lax',
+    },
+  ],
+  origins: [],
+};
+
+describe('encryptJson', () => {
+  it('round-trips with the same passphrase', () => {
+    const payload = encryptJson({ hello: ['world'] }, 'correct horse');
+    assert.equal(payload.cipher, 'aes-256-gcm');
+    assert.doesNotMatch(Buffer.from(payload.data, 'base64').toString('latin1'), /world/);
+    assert.deepEqual(decryptJson(payload, 'correct horse'), { hello: ['world'] });
+  });
+
+  it('uses a fresh salt and IV every time', () => {
+    const first = encryptJson('same', 'key');
+    const second = encryptJson('same', 'key');
+    assert.notEqual(first.salt, second.salt);
+    assert.notEqual(first.iv, second.iv);
+  });
+
+  it('rejects a wrong key and tampered data', () => {
+    const payload = encryptJson({ a: 1 }, 'right');
+    assert.throws(() => decryptJson(payload, 'wrong'), /wrong key or corrupted file/);
+    const data = Buffer.from(payload.data, 'base64');
+    data[0] ^= 1;
+    assert.throws(() => decryptJson({ ...payload, data: data.toString('base64') }, 'right'), /wrong key or corrupted/);
+  });
+});
+
+describe('migrateBrowserState', () => {
+  const variable = 'GPT5_STATE_TEST_KEY';
+  let root: string;
+  let stateDir: string;
+
+  before(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'gpt5-state-'));
+  });
+
+  after(() => {
+    delete process.env[variable];
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('encrypts, reloads and decrypts a saved session', async () => {
+    stateDir = path.join(root, 'work');
+    await saveBrowserState(stateDir, state);
+    assert.equal(fs.statSync(getBrowserStatePath(stateDir)!).mode & 0o777, 0o600);
+
+    process.env[variable] = 'first key';
+    await migrateBrowserState(stateDir, { source: 'env', variable });
+    const encrypted = getBrowserStatePath(stateDir)!;
+    assert.equal(path.basename(encrypted), 'browser-state.json.enc');
+    assert.doesNotMatch(fs.readFileSync(encrypted, 'utf-8'), /secret-token/);
+    assert.deepEqual(await loadBrowserState(stateDir), state);
+
+    await migrateBrowserState(stateDir, null);
+    assert.equal(path.basename(getBrowserStatePath(stateDir)!), 'browser-state.json');
+    assert.equal(readEncryptionConfig(stateDir), null);
+    assert.deepEqual(await loadBrowserState(stateDir), state);
+  });
+
+  it('leaves the profile untouched when the new key is missing', async () => {
+    stateDir = path.join(root, 'missing-key');
+    await saveBrowserState(stateDir, state);
+    const other = 'GPT5_STATE_TEST_UNSET';
+    delete process.env[other];
+
+    await assert.rejects(migrateBrowserState(stateDir, { source: 'env', variable: other }), new RegExp(`set ${other}`));
+    assert.equal(readEncryptionConfig(stateDir), null);
+    assert.equal(path.basename(getBrowserStatePath(stateDir)!), 'browser-state.json');
+    assert.deepEqual(await loadBrowserState(stateDir), state);
+  });
+
+  it('re-keys an encrypted session', async () => {
+    stateDir = path.join(root, 'rekey');
+    await saveBrowserState(stateDir, state);
+    process.env[variable] = 'old key';
+    await migrateBrowserState(stateDir, { source: 'env', variable });
+
+    const next = 'GPT5_STATE_TEST_NEXT';
+    process.env[next] = 'new key';
+    try {
+      await migrateBrowserState(stateDir, { source: 'env', variable: next });
+      const payload = JSON.parse(fs.readFileSync(getBrowserStatePath(stateDir)!, 'utf-8'));
+      assert.deepEqual(decryptJson(payload, 'new key'), state);
+      assert.deepEqual(readEncryptionConfig(stateDir), { source: 'env', variable: next });
+    } finally {
+      delete process.env[next];
+    }
+  });
+
+  it('refuses to start without a passphrase terminal', async () => {
+    stateDir = path.join(root, 'passphrase');
+    await saveBrowserState(stateDir, state);
+    await assert.rejects(
+      migrateBrowserState(stateDir, { source: 'passphrase' }, { interactive: false }),
+      /no terminal to ask for it/
+    );
+    assert.equal(readEncryptionConfig(stateDir), null);
+  });
+});